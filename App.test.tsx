@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { act, create, ReactTestRenderer } from 'react-test-renderer';
+import App from './App';
+import { useSettings } from './components/System/Settings';
+import { profiler } from './components/System/Profiler';
+
+// Stand-ins for the profiled components that count how often they mount
+const { mounts, probe } = await vi.hoisted(async () => {
+  const { useEffect } = await import('react');
+  const mounts: Record<string, number> = {};
+  const probe = (id: string) => () => {
+    useEffect(() => { mounts[id] = (mounts[id] ?? 0) + 1; }, []);
+    return null;
+  };
+  return { mounts, probe };
+});
+
+vi.mock('@react-three/fiber', async () => {
+  const React = await import('react');
+  const state = {
+    camera: {},
+    size: { width: 16, height: 9 },
+    gl: { info: { autoReset: true, reset: () => {}, render: { calls: 0, triangles: 0 }, memory: { geometries: 0 } } }
+  };
+  return {
+    Canvas: ({ children }: { children: React.ReactNode }) => React.createElement(React.Fragment, null, children),
+    useFrame: () => {},
+    useThree: (selector?: (s: typeof state) => unknown) => selector ? selector(state) : state
+  };
+});
+
+vi.mock('./components/UI/HUD', () => ({ HUD: probe('HUD') }));
+vi.mock('./components/World/Environment', () => ({ Environment: probe('Environment') }));
+vi.mock('./components/World/Player', () => ({ Player: probe('Player') }));
+vi.mock('./components/World/LevelManager', () => ({ LevelManager: probe('LevelManager') }));
+vi.mock('./components/World/Boss', () => ({ Mothership: () => null }));
+vi.mock('./components/World/Effects', () => ({ Effects: () => null }));
+vi.mock('./components/UI/PerfOverlay', () => ({ PerfOverlay: () => null }));
+
+describe('App', () => {
+  beforeAll(() => {
+    vi.stubGlobal('IS_REACT_ACT_ENVIRONMENT', true);
+  });
+
+  afterAll(() => vi.unstubAllGlobals());
+
+  it('keeps the game mounted while the perf overlay is toggled', () => {
+    let root: ReactTestRenderer;
+    act(() => { root = create(<App />); });
+    expect(profiler.enabled).toBe(false);
+
+    act(() => useSettings.setState({ showPerf: true }));
+    expect(profiler.enabled).toBe(true);
+    act(() => useSettings.setState({ showPerf: false }));
+    expect(profiler.enabled).toBe(false);
+    act(() => root.unmount());
+
+    expect(mounts).toEqual({ HUD: 1, Environment: 1, Player: 1, LevelManager: 1 });
+  });
+});
@@ -4,20 +4,33 @@
 */
 
 
-import React, { Suspense } from 'react';
+import React, { Profiler, Suspense, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Environment } from './components/World/Environment';
 import { Player } from './components/World/Player';
 import { LevelManager } from './components/World/LevelManager';
 import { Effects } from './components/World/Effects';
+import { Mothership } from './components/World/Boss';
+import { HitboxOverlay } from './components/World/HitboxOverlay';
 import { HUD } from './components/UI/HUD';
-import { useStore } from './store';
+import { PerfOverlay } from './components/UI/PerfOverlay';
+import { useStore, useTransient } from './store';
+import { GameStatus } from './types';
+import { simulation } from './components/System/Simulation';
+import { input } from './components/System/Input';
+import { controls } from './components/System/Controls';
+import { useSettings, useQuality } from './components/System/Settings';
+import { music } from './components/System/Music';
+import { profiler, ObjectCounts } from './components/System/Profiler';
+import { adaptiveQuality } from './components/System/AdaptiveQuality';
+import { world } from './components/System/World';
 
 // Dynamic Camera Controller
 const CameraController = () => {
   const { camera, size } = useThree();
-  const { laneCount } = useStore();
+  const laneCount = useTransient(state => state.laneCount);
+  const reducedMotion = useSettings(state => state.reducedMotion);
   
   useFrame((state, delta) => {
     // Determine if screen is narrow (mobile portrait)
@@ -33,15 +46,16 @@ const CameraController = () => {
 
     // Base (3 lanes): y=5.5, z=8
     // Calculate target based on how many extra lanes we have relative to the start
-    const extraLanes = Math.max(0, laneCount - 3);
+    const extraLanes = Math.max(0, laneCount.current - 3);
 
     const targetY = 5.5 + (extraLanes * heightFactor);
     const targetZ = 8.0 + (extraLanes * distFactor);
 
     const targetPos = new THREE.Vector3(0, targetY, targetZ);
     
-    // Smoothly interpolate camera position
-    camera.position.lerp(targetPos, delta * 2.0);
+    // Smoothly interpolate camera position (snap when motion is reduced)
+    if (reducedMotion) camera.position.copy(targetPos);
+    else camera.position.lerp(targetPos, delta * 2.0);
     
     // Look further down the track to see the end of lanes
     // Adjust look target slightly based on height to maintain angle
@@ -51,16 +65,103 @@ const CameraController = () => {
   return null;
 };
 
+// Drives the fixed-timestep game logic (the world stepped by LevelManager).
+// Mounted before the world so ticks run ahead of the per-frame visuals.
+const SimulationDriver = () => {
+  useFrame((state, delta) => {
+    if (useStore.getState().status !== GameStatus.PLAYING) return;
+    simulation.advance(delta, () => useStore.getState().status === GameStatus.PLAYING);
+  });
+
+  return null;
+};
+
+// Polls connected gamepads every rendered frame. Runs in every status so the
+// settings screen can capture buttons and Start can resume from pause.
+const GamepadDriver = () => {
+  useFrame(() => {
+    const { actions, pause } = controls.poll();
+    const { status, isReplay, pauseGame, resumeGame } = useStore.getState();
+
+    if (pause) {
+      if (status === GameStatus.PLAYING) pauseGame();
+      else if (status === GameStatus.PAUSED) resumeGame();
+    }
+    // Same queue as the keyboard, so pad input is recorded in replays too
+    if (status === GameStatus.PLAYING && !isReplay) actions.forEach(action => input.push(action));
+  });
+
+  return null;
+};
+
+// Steps the quality preset down and back up with the frame rate
+const AdaptiveQualityDriver = () => {
+  const quality = useSettings(state => state.quality);
+
+  // A newly chosen preset starts again from its top step
+  useEffect(() => { adaptiveQuality.reset(); }, [quality]);
+
+  useFrame((state, delta) => {
+    adaptiveQuality.update(delta * 1000);
+  });
+
+  return null;
+};
+
+// Feeds the profiler once per frame, while the performance overlay is open.
+// The renderer's counters are totalled over every pass (postprocessing renders
+// several) and read here, before the next frame's render resets them.
+const ProfilerDriver = () => {
+  const gl = useThree(state => state.gl);
+
+  useEffect(() => {
+    gl.info.autoReset = false;
+    return () => { gl.info.autoReset = true; };
+  }, [gl]);
+
+  // The <Profiler>s stay mounted; toggling them would remount the game under them
+  useEffect(() => {
+    profiler.enabled = true;
+    return () => { profiler.enabled = false; };
+  }, []);
+
+  useFrame((state, delta) => {
+    const objects: ObjectCounts = {};
+    for (const obj of world.objects) {
+      if (obj.active) objects[obj.type] = (objects[obj.type] ?? 0) + 1;
+    }
+
+    profiler.sample(performance.now(), delta * 1000, {
+      drawCalls: gl.info.render.calls,
+      triangles: gl.info.render.triangles,
+      geometries: gl.info.memory.geometries,
+      objects
+    });
+    gl.info.reset();
+  });
+
+  return null;
+};
+
 function Scene() {
+  const showHitboxes = useSettings(state => state.showHitboxes);
+
   return (
     <>
-        <Environment />
+        <Profiler id="Environment" onRender={profiler.onRender}>
+            <Environment />
+        </Profiler>
         <group>
-            {/* Attach a userData to identify player group for LevelManager collision logic */}
-            <group userData={{ isPlayer: true }} name="PlayerGroup">
-                 <Player />
+            <group name="PlayerGroup">
+                 <Profiler id="Player" onRender={profiler.onRender}>
+                     <Player />
+                 </Profiler>
             </group>
-            <LevelManager />
+            <Profiler id="LevelManager" onRender={profiler.onRender}>
+                <LevelManager />
+            </Profiler>
+            <Mothership />
+            {showHitboxes && <HitboxOverlay />}
         </group>
         <Effects />
     </>
@@ -68,17 +169,32 @@ function Scene() {
 }
 
 function App() {
+  const { shadows, dpr } = useQuality();
+  const reducedMotion = useSettings(state => state.reducedMotion);
+  const showPerf = useSettings(state => state.showPerf);
+  const adaptive = useSettings(state => state.adaptiveQuality);
+
+  // The soundtrack follows status, speed and time warp
+  useEffect(() => useStore.subscribe(state => music.sync(state)), []);
+
   return (
-    <div className="relative w-full h-screen bg-black overflow-hidden select-none">
-      <HUD />
+    <div className={`relative w-full h-screen bg-black overflow-hidden select-none ${reducedMotion ? 'reduce-motion' : ''}`}>
+      <Profiler id="HUD" onRender={profiler.onRender}>
+          <HUD />
+      </Profiler>
+      {showPerf && <PerfOverlay />}
       <Canvas
-        shadows
-        dpr={[1, 1.5]} 
+        shadows={shadows}
+        dpr={dpr} 
         gl={{ antialias: false, stencil: false, depth: true, powerPreference: "high-performance" }}
         // Initial camera, matches the controller base
         camera={{ position: [0, 5.5, 8], fov: 60 }}
       >
         <CameraController />
+        <GamepadDriver />
+        <SimulationDriver />
+        {showPerf && <ProfilerDriver />}
+        {adaptive && <AdaptiveQualityDriver />}
         <Suspense fallback={null}>
             <Scene />
         </Suspense>
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AdaptiveQualityController, QUALITY_STEPS, useQualityStep } from './AdaptiveQuality';
+import { QUALITY_PROFILES, scaleQuality } from './Settings';
+
+// Feeds frames of one length for a span of time; returns the steps taken
+const run = (controller: AdaptiveQualityController, frameTime: number, seconds: number) => {
+  const steps: number[] = [];
+  for (let time = 0; time < seconds * 1000; time += frameTime) {
+    const step = controller.update(frameTime);
+    if (step !== null) steps.push(step);
+  }
+  return steps;
+};
+
+describe('AdaptiveQualityController', () => {
+  let controller: AdaptiveQualityController;
+
+  beforeEach(() => {
+    controller = new AdaptiveQualityController();
+    controller.reset();
+  });
+
+  it('steps down one step at a time while frames stay slow', () => {
+    expect(run(controller, 30, 1)).toEqual([]);
+    expect(run(controller, 30, 20)).toEqual([1, 2, 3]);
+    expect(useQualityStep.getState().step).toBe(QUALITY_STEPS.length - 1);
+  });
+
+  it('holds its step between the two thresholds', () => {
+    run(controller, 30, 5);
+    const step = controller.step;
+
+    expect(run(controller, 19, 60)).toEqual([]);
+    expect(controller.step).toBe(step);
+  });
+
+  it('steps back up after sustained headroom', () => {
+    run(controller, 30, 4);
+    expect(controller.step).toBe(1);
+
+    expect(run(controller, 16, 8)).toEqual([]);
+    expect(run(controller, 16, 2)).toEqual([0]);
+  });
+
+  it('waits longer before retrying a step up that did not hold', () => {
+    run(controller, 30, 4);
+    run(controller, 16, 10); // Back up to 0
+    run(controller, 30, 4); // Which was too much: down to 1 again
+    expect(controller.step).toBe(1);
+
+    expect(run(controller, 16, 16)).toEqual([]);
+    expect(run(controller, 16, 2)).toEqual([0]);
+  });
+
+  it('ignores hitches', () => {
+    expect(run(controller, 500, 60)).toEqual([]);
+  });
+});
+
+describe('scaleQuality', () => {
+  it('leaves the preset alone at the top step', () => {
+    expect(scaleQuality(QUALITY_PROFILES.high, 0)).toBe(QUALITY_PROFILES.high);
+  });
+
+  it('never goes above the preset', () => {
+    const lowest = QUALITY_STEPS.length - 1;
+    for (const profile of Object.values(QUALITY_PROFILES)) {
+      const scaled = scaleQuality(profile, lowest);
+      expect(scaled.starCount).toBeLessThan(profile.starCount);
+      expect(scaled.particleCount).toBeLessThan(profile.particleCount);
+      expect(scaled.bloomLevels).toBeLessThanOrEqual(profile.bloomLevels);
+      expect(scaled.dpr[1]).toBeLessThan(profile.dpr[1]);
+      expect(scaled.dpr[0]).toBeLessThanOrEqual(scaled.dpr[1]);
+      expect(scaled.shadows).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { create } from 'zustand';
+
+// Scales the chosen quality preset down while the game misses its target
+// frame rate and back up once there is headroom again. The preset stays the
+// ceiling; each step below it trades resolution, bloom, star and particle
+// counts and finally shadows for frame time.
+
+export interface QualityStep {
+  dprScale: number; // Of the preset's maximum resolution scale
+  bloomLevels: number; // Upper bound on the preset's bloom mip levels
+  density: number; // Fraction of the preset's stars and particles
+  shadows: boolean;
+}
+
+export const QUALITY_STEPS: QualityStep[] = [
+  { dprScale: 1, bloomLevels: 8, density: 1, shadows: true },
+  { dprScale: 0.85, bloomLevels: 6, density: 0.75, shadows: true },
+  { dprScale: 0.7, bloomLevels: 5, density: 0.5, shadows: true },
+  { dprScale: 0.6, bloomLevels: 4, density: 0.35, shadows: false }
+];
+
+export const TARGET_FRAME_TIME = 1000 / 60;
+const WINDOW_SIZE = 60; // Frames in the rolling average
+const SLOW_FRAME_TIME = TARGET_FRAME_TIME * 1.25; // Under ~48 fps: step down
+const FAST_FRAME_TIME = TARGET_FRAME_TIME * 1.1; // Over ~55 fps: headroom to step up
+const STEP_DOWN_DELAY = 2000; // ms the average must stay slow
+const STEP_UP_DELAY = 8000; // ms the average must stay fast
+const MAX_STEP_UP_DELAY = 64000;
+const REVERT_WINDOW = 10000; // A step down this soon after a step up counts as a failed step up
+const MAX_FRAME_TIME = 250; // Longer frames are hitches or a hidden tab, not load
+
+// The current step, for components that render from it
+export const useQualityStep = create<{ step: number }>(() => ({ step: 0 }));
+
+export class AdaptiveQualityController {
+  samples = new Float32Array(WINDOW_SIZE);
+  cursor = 0;
+  count = 0;
+  total = 0;
+
+  slowTime = 0;
+  fastTime = 0;
+  sinceChange = 0;
+  stepUpDelay = STEP_UP_DELAY;
+  lastChangeWasUp = false;
+
+  get step() {
+    return useQualityStep.getState().step;
+  }
+
+  // Feeds one frame; returns the new step when it changed, otherwise null
+  update(frameTime: number): number | null {
+    if (frameTime <= 0 || frameTime > MAX_FRAME_TIME) return null;
+
+    this.total += frameTime - (this.count === WINDOW_SIZE ? this.samples[this.cursor] : 0);
+    this.samples[this.cursor] = frameTime;
+    this.cursor = (this.cursor + 1) % WINDOW_SIZE;
+    this.count = Math.min(this.count + 1, WINDOW_SIZE);
+    this.sinceChange += frameTime;
+    if (this.count < WINDOW_SIZE) return null;
+
+    // Between the two thresholds neither timer runs: that gap is the hysteresis
+    const average = this.total / WINDOW_SIZE;
+    this.slowTime = average > SLOW_FRAME_TIME ? this.slowTime + frameTime : 0;
+    this.fastTime = average < FAST_FRAME_TIME ? this.fastTime + frameTime : 0;
+
+    const step = this.step;
+    if (this.slowTime >= STEP_DOWN_DELAY && step < QUALITY_STEPS.length - 1) {
+      // Stepping straight back down: wait longer before trying that step again
+      if (this.lastChangeWasUp && this.sinceChange < REVERT_WINDOW) {
+        this.stepUpDelay = Math.min(this.stepUpDelay * 2, MAX_STEP_UP_DELAY);
+      }
+      return this.setStep(step + 1, false);
+    }
+    if (this.fastTime >= this.stepUpDelay && step > 0) {
+      return this.setStep(step - 1, true);
+    }
+    return null;
+  }
+
+  reset() {
+    this.stepUpDelay = STEP_UP_DELAY;
+    this.lastChangeWasUp = false;
+    this.setStep(0, false);
+  }
+
+  private setStep(step: number, up: boolean) {
+    // Frames around a change (new buffers, shader compiles) say nothing about the new step
+    this.count = 0;
+    this.cursor = 0;
+    this.total = 0;
+    this.slowTime = 0;
+    this.fastTime = 0;
+    this.sinceChange = 0;
+    this.lastChangeWasUp = up;
+    useQualityStep.setState({ step });
+    return step;
+  }
+}
+
+export const adaptiveQuality = new AdaptiveQualityController();
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AudioController, SFX_CUES, panFor, distanceGain } from './Audio';
+import { LANE_WIDTH } from '../../types';
+
+// Records nothing, accepts every Web Audio call the recipes make
+const fakeNode = (): any => new Proxy({}, {
+  get: (target: any, prop) => {
+    if (!(prop in target)) target[prop] = ['gain', 'frequency'].includes(prop as string) ? fakeNode() : () => fakeNode();
+    return target[prop];
+  }
+});
+
+const fakeContext = () => ({
+  currentTime: 0,
+  createGain: fakeNode,
+  createOscillator: fakeNode,
+  createBiquadFilter: fakeNode,
+  createBufferSource: fakeNode,
+  createStereoPanner: fakeNode
+});
+
+describe('AudioController.play', () => {
+  let audio: AudioController;
+  let ctx: ReturnType<typeof fakeContext>;
+
+  beforeEach(() => {
+    audio = new AudioController();
+    ctx = fakeContext();
+    audio.ctx = ctx as unknown as AudioContext;
+    audio.sfxGain = fakeNode();
+    audio.noise = {} as AudioBuffer;
+  });
+
+  it('is silent before the audio context exists', () => {
+    expect(new AudioController().play('GEM')).toBe(false);
+  });
+
+  it('drops triggers beyond the voice limit', () => {
+    const { maxVoices } = SFX_CUES.MISSILE_LAUNCH;
+    const played = [1, 2, 3, 4, 5].map(() => audio.play('MISSILE_LAUNCH'));
+
+    expect(played.filter(Boolean)).toHaveLength(maxVoices);
+  });
+
+  it('frees a voice once its sound has ended', () => {
+    expect(audio.play('SONIC_BLAST')).toBe(true);
+    expect(audio.play('SONIC_BLAST')).toBe(false);
+
+    ctx.currentTime = 1;
+    expect(audio.play('SONIC_BLAST')).toBe(true);
+  });
+
+  it('limits each cue separately', () => {
+    audio.play('REVIVE');
+    expect(audio.play('LEVEL_UP')).toBe(true);
+  });
+
+  it('plays positioned cues', () => {
+    expect(audio.play('DRONE_SHOT', { x: 3, z: -20 })).toBe(true);
+  });
+});
+
+describe('positional helpers', () => {
+  it('pans by side offset, clamped at the widest track edge', () => {
+    expect(panFor({ x: 0, z: 0 })).toBe(0);
+    expect(panFor({ x: -2 * LANE_WIDTH, z: 0 })).toBeCloseTo(-2 / 4.5);
+    expect(panFor({ x: 100, z: 0 })).toBe(1);
+  });
+
+  it('fades with distance along the track', () => {
+    expect(distanceGain({ x: 0, z: 0 })).toBe(1);
+    expect(distanceGain({ x: 0, z: -40 })).toBeCloseTo(0.5);
+    expect(distanceGain({ x: 0, z: -80 })).toBeLessThan(distanceGain({ x: 0, z: -40 }));
+  });
+});
@@ -4,9 +4,315 @@
 */
 
 
+import { LANE_WIDTH } from '../../types';
+import { useSettings, Settings } from './Settings';
+import { music } from './Music';
+
+export type SfxCue =
+  | 'GEM'
+  | 'LETTER'
+  | 'JUMP'
+  | 'DOUBLE_JUMP'
+  | 'SLIDE'
+  | 'DAMAGE'
+  | 'SONIC_BLAST'
+  | 'DRONE_SHOT'
+  | 'MISSILE_LAUNCH'
+  | 'SHIELD'
+  | 'REVIVE'
+  | 'PURCHASE'
+  | 'SHOP_REFRESH'
+  | 'LEVEL_UP'
+  | 'PORTAL'
+  | 'IMMORTAL'
+  | 'BOSS_WARNING'
+  | 'BOSS_HIT'
+  | 'BOSS_DEFEATED';
+
+// Plays one instance of a sound into `output` starting at `t` and returns its
+// length in seconds. Recipes peak around 1, the cue volume sets the level.
+type SfxRecipe = (ctx: AudioContext, output: AudioNode, t: number, noise: AudioBuffer) => number;
+
+interface SfxCueDefinition {
+  volume: number;
+  maxVoices: number; // Further triggers are dropped while this many are still sounding
+  recipe: SfxRecipe;
+}
+
+interface ToneParams {
+  type: OscillatorType;
+  freq: number;
+  endFreq?: number; // Exponential glide over the duration
+  start: number;
+  duration: number;
+  level?: number;
+}
+
+const tone = (ctx: AudioContext, output: AudioNode, { type, freq, endFreq, start, duration, level = 1 }: ToneParams) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+
+  osc.type = type;
+  osc.frequency.setValueAtTime(freq, start);
+  if (endFreq) osc.frequency.exponentialRampToValueAtTime(endFreq, start + duration);
+
+  gain.gain.setValueAtTime(level, start);
+  gain.gain.exponentialRampToValueAtTime(0.01, start + duration);
+
+  osc.connect(gain);
+  gain.connect(output);
+  osc.start(start);
+  osc.stop(start + duration);
+};
+
+interface NoiseParams {
+  start: number;
+  duration: number;
+  level?: number;
+  filter?: BiquadFilterType;
+  freq?: number;
+  endFreq?: number;
+}
+
+const noiseBurst = (ctx: AudioContext, output: AudioNode, buffer: AudioBuffer, { start, duration, level = 1, filter, freq = 1000, endFreq }: NoiseParams) => {
+  const source = ctx.createBufferSource();
+  const gain = ctx.createGain();
+  source.buffer = buffer;
+
+  gain.gain.setValueAtTime(level, start);
+  gain.gain.exponentialRampToValueAtTime(0.01, start + duration);
+
+  if (filter) {
+      const biquad = ctx.createBiquadFilter();
+      biquad.type = filter;
+      biquad.frequency.setValueAtTime(freq, start);
+      if (endFreq) biquad.frequency.exponentialRampToValueAtTime(endFreq, start + duration);
+      source.connect(biquad);
+      biquad.connect(gain);
+  } else {
+      source.connect(gain);
+  }
+
+  gain.connect(output);
+  source.start(start);
+  source.stop(start + duration);
+};
+
+// Notes played one after another, e.g. a chord rolled into an arpeggio
+const arpeggio = (type: OscillatorType, freqs: number[], stagger: number, duration: number): SfxRecipe => (ctx, output, t) => {
+  freqs.forEach((freq, i) => tone(ctx, output, { type, freq, start: t + i * stagger, duration }));
+  return (freqs.length - 1) * stagger + duration;
+};
+
+// Where a sound comes from, relative to the player: x to the side, z along
+// the track (negative = ahead)
+export interface SfxPosition {
+  x: number;
+  z: number;
+}
+
+// Full left / right at the edge of the widest (9 lane) track
+const PAN_WIDTH = 4.5 * LANE_WIDTH;
+// Distance at which a sound is at half its level
+const HALF_LEVEL_DISTANCE = 40;
+
+export const panFor = ({ x }: SfxPosition) => Math.max(-1, Math.min(1, x / PAN_WIDTH));
+
+export const distanceGain = ({ z }: SfxPosition) => 1 / (1 + Math.abs(z) / HALF_LEVEL_DISTANCE);
+
+// Missile warning: beeps that rise in pitch and rate as the missile closes in
+const WARNING_FREQ = [500, 1400];
+const WARNING_RATE = [3, 14]; // Beeps per second
+
+interface WarningLoop {
+  tone: OscillatorNode;
+  pulse: OscillatorNode; // Square LFO gating the tone into beeps
+  panner: StereoPannerNode;
+  gain: GainNode;
+}
+
+export const SFX_CUES: Record<SfxCue, SfxCueDefinition> = {
+  // High pitch "ding" with slight upward inflection
+  GEM: {
+    volume: 0.5,
+    maxVoices: 4,
+    recipe: (ctx, output, t) => {
+      tone(ctx, output, { type: 'sine', freq: 1200, endFreq: 2000, start: t, duration: 0.15 });
+      return 0.15;
+    }
+  },
+  // C major chord rolled into an arpeggio for a rewarding sound
+  LETTER: {
+    volume: 0.3,
+    maxVoices: 2,
+    recipe: arpeggio('triangle', [523.25, 659.25, 783.99], 0.04, 0.3)
+  },
+  // Smooth "whoop", kept quiet as it is a frequent action
+  JUMP: {
+    volume: 0.2,
+    maxVoices: 2,
+    recipe: (ctx, output, t) => {
+      tone(ctx, output, { type: 'sine', freq: 200, endFreq: 450, start: t, duration: 0.15 });
+      return 0.15;
+    }
+  },
+  DOUBLE_JUMP: {
+    volume: 0.2,
+    maxVoices: 2,
+    recipe: (ctx, output, t) => {
+      tone(ctx, output, { type: 'sine', freq: 400, endFreq: 800, start: t, duration: 0.15 });
+      return 0.15;
+    }
+  },
+  // Scrape of a slide along the track
+  SLIDE: {
+    volume: 0.25,
+    maxVoices: 1,
+    recipe: (ctx, output, t, noise) => {
+      noiseBurst(ctx, output, noise, { start: t, duration: 0.3, level: 0.7, filter: 'bandpass', freq: 1800, endFreq: 600 });
+      return 0.3;
+    }
+  },
+  // Low "thud" under a burst of static
+  DAMAGE: {
+    volume: 0.6,
+    maxVoices: 2,
+    recipe: (ctx, output, t, noise) => {
+      tone(ctx, output, { type: 'sawtooth', freq: 100, endFreq: 20, start: t, duration: 0.3 });
+      noiseBurst(ctx, output, noise, { start: t, duration: 0.2, level: 0.8 });
+      return 0.3;
+    }
+  },
+  // Falling sweep over a rumble
+  SONIC_BLAST: {
+    volume: 0.6,
+    maxVoices: 1,
+    recipe: (ctx, output, t, noise) => {
+      tone(ctx, output, { type: 'sawtooth', freq: 900, endFreq: 60, start: t, duration: 0.6, level: 0.6 });
+      tone(ctx, output, { type: 'sine', freq: 90, endFreq: 30, start: t, duration: 0.7 });
+      noiseBurst(ctx, output, noise, { start: t, duration: 0.6, level: 0.7, filter: 'lowpass', freq: 3000, endFreq: 200 });
+      return 0.7;
+    }
+  },
+  // Short laser zap
+  DRONE_SHOT: {
+    volume: 0.25,
+    maxVoices: 3,
+    recipe: (ctx, output, t) => {
+      tone(ctx, output, { type: 'square', freq: 1600, endFreq: 300, start: t, duration: 0.09 });
+      return 0.09;
+    }
+  },
+  // Rising whoosh; volleys of several aliens are capped by maxVoices
+  MISSILE_LAUNCH: {
+    volume: 0.3,
+    maxVoices: 2,
+    recipe: (ctx, output, t, noise) => {
+      tone(ctx, output, { type: 'sawtooth', freq: 250, endFreq: 900, start: t, duration: 0.3, level: 0.5 });
+      noiseBurst(ctx, output, noise, { start: t, duration: 0.35, filter: 'bandpass', freq: 600, endFreq: 2400 });
+      return 0.35;
+    }
+  },
+  // Metallic "ping" of the shield soaking the hit
+  SHIELD: {
+    volume: 0.4,
+    maxVoices: 2,
+    recipe: (ctx, output, t) => {
+      tone(ctx, output, { type: 'triangle', freq: 900, endFreq: 600, start: t, duration: 0.25 });
+      tone(ctx, output, { type: 'sine', freq: 1800, start: t, duration: 0.35, level: 0.5 });
+      return 0.35;
+    }
+  },
+  // A major arpeggio climbing an octave
+  REVIVE: {
+    volume: 0.4,
+    maxVoices: 1,
+    recipe: arpeggio('sine', [440, 554.37, 659.25, 880], 0.08, 0.4)
+  },
+  // Two-note coin
+  PURCHASE: {
+    volume: 0.25,
+    maxVoices: 3,
+    recipe: (ctx, output, t) => {
+      tone(ctx, output, { type: 'square', freq: 987.77, start: t, duration: 0.08 });
+      tone(ctx, output, { type: 'square', freq: 1318.51, start: t + 0.08, duration: 0.25 });
+      return 0.33;
+    }
+  },
+  SHOP_REFRESH: {
+    volume: 0.3,
+    maxVoices: 2,
+    recipe: (ctx, output, t, noise) => {
+      tone(ctx, output, { type: 'triangle', freq: 300, endFreq: 1200, start: t, duration: 0.2 });
+      noiseBurst(ctx, output, noise, { start: t, duration: 0.2, level: 0.5, filter: 'highpass', freq: 2000, endFreq: 8000 });
+      return 0.2;
+    }
+  },
+  LEVEL_UP: {
+    volume: 0.35,
+    maxVoices: 1,
+    recipe: arpeggio('triangle', [523.25, 659.25, 783.99, 1046.5], 0.1, 0.5)
+  },
+  // Warp into the shop
+  PORTAL: {
+    volume: 0.4,
+    maxVoices: 1,
+    recipe: (ctx, output, t, noise) => {
+      tone(ctx, output, { type: 'sine', freq: 200, endFreq: 1600, start: t, duration: 0.6 });
+      noiseBurst(ctx, output, noise, { start: t, duration: 0.5, level: 0.4, filter: 'bandpass', freq: 400, endFreq: 4000 });
+      return 0.6;
+    }
+  },
+  // Bright rising shimmer
+  IMMORTAL: {
+    volume: 0.35,
+    maxVoices: 1,
+    recipe: (ctx, output, t) => {
+      tone(ctx, output, { type: 'sine', freq: 400, endFreq: 1200, start: t, duration: 0.4 });
+      tone(ctx, output, { type: 'triangle', freq: 800, endFreq: 2400, start: t + 0.05, duration: 0.4, level: 0.5 });
+      return 0.45;
+    }
+  },
+  // Two-tone siren ahead of a boss attack
+  BOSS_WARNING: {
+    volume: 0.35,
+    maxVoices: 1,
+    recipe: (ctx, output, t) => {
+      tone(ctx, output, { type: 'square', freq: 660, start: t, duration: 0.25, level: 0.6 });
+      tone(ctx, output, { type: 'square', freq: 440, start: t + 0.3, duration: 0.25, level: 0.6 });
+      return 0.55;
+    }
+  },
+  // Heavy metallic clang on the core
+  BOSS_HIT: {
+    volume: 0.45,
+    maxVoices: 2,
+    recipe: (ctx, output, t, noise) => {
+      tone(ctx, output, { type: 'triangle', freq: 320, endFreq: 120, start: t, duration: 0.3 });
+      noiseBurst(ctx, output, noise, { start: t, duration: 0.15, level: 0.6, filter: 'highpass', freq: 1500, endFreq: 500 });
+      return 0.3;
+    }
+  },
+  // Long collapsing rumble
+  BOSS_DEFEATED: {
+    volume: 0.7,
+    maxVoices: 1,
+    recipe: (ctx, output, t, noise) => {
+      tone(ctx, output, { type: 'sawtooth', freq: 400, endFreq: 30, start: t, duration: 1.5, level: 0.6 });
+      noiseBurst(ctx, output, noise, { start: t, duration: 1.5, level: 0.8, filter: 'lowpass', freq: 4000, endFreq: 100 });
+      return 1.5;
+    }
+  }
+};
+
 export class AudioController {
   ctx: AudioContext | null = null;
   masterGain: GainNode | null = null;
+  sfxGain: GainNode | null = null; // Sound effects bus, feeds masterGain
+  musicGain: GainNode | null = null; // Music bus, feeds masterGain
+  noise: AudioBuffer | null = null; // Shared white noise for percussive cues
+  voices = new Map<SfxCue, number[]>(); // End times of the instances still sounding
+  warning: WarningLoop | null = null;
 
   constructor() {
     // Lazy initialization
@@ -17,138 +323,130 @@ export class AudioController {
       // Support for standard and webkit prefixed AudioContext
       this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
       this.masterGain = this.ctx.createGain();
-      this.masterGain.gain.value = 0.4; // Master volume
       this.masterGain.connect(this.ctx.destination);
+      this.sfxGain = this.ctx.createGain();
+      this.sfxGain.connect(this.masterGain);
+      this.musicGain = this.ctx.createGain();
+      this.musicGain.connect(this.masterGain);
+
+      const { masterVolume, sfxVolume, musicVolume } = useSettings.getState();
+      this.masterGain.gain.value = masterVolume;
+      this.sfxGain.gain.value = sfxVolume;
+      this.musicGain.gain.value = musicVolume;
+      useSettings.subscribe(settings => this.applyVolumes(settings));
+
+      // One second of white noise, reused by every cue
+      this.noise = this.ctx.createBuffer(1, this.ctx.sampleRate, this.ctx.sampleRate);
+      const data = this.noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+
+      music.attach(this.ctx, this.musicGain);
     }
     if (this.ctx.state === 'suspended') {
       this.ctx.resume().catch(() => {});
     }
   }
 
-  playGemCollect() {
-    if (!this.ctx || !this.masterGain) this.init();
-    if (!this.ctx || !this.masterGain) return;
-
+  applyVolumes({ masterVolume, sfxVolume, musicVolume }: Settings) {
+    if (!this.ctx || !this.masterGain || !this.sfxGain || !this.musicGain) return;
+    // Short ramp so dragging a slider does not click
     const t = this.ctx.currentTime;
-    const osc = this.ctx.createOscillator();
-    const gain = this.ctx.createGain();
+    this.masterGain.gain.setTargetAtTime(masterVolume, t, 0.02);
+    this.sfxGain.gain.setTargetAtTime(sfxVolume, t, 0.02);
+    this.musicGain.gain.setTargetAtTime(musicVolume, t, 0.02);
+  }
 
-    osc.type = 'sine';
-    // High pitch "ding" with slight upward inflection
-    osc.frequency.setValueAtTime(1200, t);
-    osc.frequency.exponentialRampToValueAtTime(2000, t + 0.1);
+  // Does nothing until init() ran from a user gesture, so game logic can
+  // trigger cues freely (including in tests, where there is no AudioContext)
+  // Positioned sounds are panned by their side offset and fade with distance.
+  play(cue: SfxCue, position?: SfxPosition): boolean {
+    if (!this.ctx || !this.sfxGain || !this.noise) return false;
+    const t = this.ctx.currentTime;
+    const { volume, maxVoices, recipe } = SFX_CUES[cue];
 
-    gain.gain.setValueAtTime(0.5, t);
-    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
+    const active = (this.voices.get(cue) ?? []).filter(end => end > t);
+    if (active.length >= maxVoices) {
+      this.voices.set(cue, active);
+      return false;
+    }
 
-    osc.connect(gain);
-    gain.connect(this.masterGain);
+    const voice = this.ctx.createGain();
+    if (position) {
+      const panner = this.ctx.createStereoPanner();
+      panner.pan.value = panFor(position);
+      voice.gain.value = volume * distanceGain(position);
+      voice.connect(panner);
+      panner.connect(this.sfxGain);
+    } else {
+      voice.gain.value = volume;
+      voice.connect(this.sfxGain);
+    }
+    const duration = recipe(this.ctx, voice, t, this.noise);
 
-    osc.start(t);
-    osc.stop(t + 0.15);
+    active.push(t + duration);
+    this.voices.set(cue, active);
+    return true;
   }
 
-  playLetterCollect() {
-    if (!this.ctx || !this.masterGain) this.init();
-    if (!this.ctx || !this.masterGain) return;
-
+  // Called every frame with the closest incoming missile, or null to silence
+  // the warning
+  updateMissileWarning(position: SfxPosition | null, range: number) {
+    if (!this.ctx || !this.sfxGain) return;
     const t = this.ctx.currentTime;
-    
-    // Play a major chord (C Majorish: C5, E5, G5) for a rewarding sound
-    const freqs = [523.25, 659.25, 783.99]; 
-    
-    freqs.forEach((f, i) => {
-        const osc = this.ctx!.createOscillator();
-        const gain = this.ctx!.createGain();
-        
-        osc.type = 'triangle';
-        osc.frequency.value = f;
-        
-        // Stagger start times slightly for an arpeggio feel
-        const start = t + (i * 0.04);
-        const dur = 0.3;
-
-        gain.gain.setValueAtTime(0.3, start);
-        gain.gain.exponentialRampToValueAtTime(0.01, start + dur);
-
-        osc.connect(gain);
-        gain.connect(this.masterGain!);
-        
-        osc.start(start);
-        osc.stop(start + dur);
-    });
-  }
 
-  playJump(isDouble = false) {
-    if (!this.ctx || !this.masterGain) this.init();
-    if (!this.ctx || !this.masterGain) return;
+    if (!position) {
+      if (this.warning) {
+        const { tone, pulse, gain } = this.warning;
+        gain.gain.setTargetAtTime(0, t, 0.03);
+        tone.stop(t + 0.15);
+        pulse.stop(t + 0.15);
+        this.warning = null;
+      }
+      return;
+    }
 
-    const t = this.ctx.currentTime;
-    const osc = this.ctx.createOscillator();
-    const gain = this.ctx.createGain();
+    if (!this.warning) this.warning = this.createWarningLoop();
+    const { tone, pulse, panner } = this.warning;
 
-    // Sine wave for a smooth "whoop" sound
-    osc.type = 'sine';
-    
-    // Pitch shift up for double jump
-    const startFreq = isDouble ? 400 : 200;
-    const endFreq = isDouble ? 800 : 450;
+    // 0 at the edge of the range, 1 when the missile reaches the player
+    const closeness = 1 - Math.min(1, Math.abs(position.z) / range);
+    tone.frequency.setTargetAtTime(WARNING_FREQ[0] + (WARNING_FREQ[1] - WARNING_FREQ[0]) * closeness, t, 0.05);
+    pulse.frequency.setTargetAtTime(WARNING_RATE[0] + (WARNING_RATE[1] - WARNING_RATE[0]) * closeness, t, 0.05);
+    panner.pan.setTargetAtTime(panFor(position), t, 0.05);
+  }
 
-    osc.frequency.setValueAtTime(startFreq, t);
-    osc.frequency.exponentialRampToValueAtTime(endFreq, t + 0.15);
+  createWarningLoop(): WarningLoop {
+    const ctx = this.ctx!;
+    const t = ctx.currentTime;
 
-    // Lower volume for jump as it is a frequent action
-    gain.gain.setValueAtTime(0.2, t);
-    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
+    const tone = ctx.createOscillator();
+    tone.type = 'triangle';
+    tone.frequency.value = WARNING_FREQ[0];
 
-    osc.connect(gain);
-    gain.connect(this.masterGain);
+    // gate = 0.5 + 0.5 * square(pulse) switches the tone on and off
+    const gate = ctx.createGain();
+    gate.gain.value = 0.5;
+    const pulse = ctx.createOscillator();
+    pulse.type = 'square';
+    pulse.frequency.value = WARNING_RATE[0];
+    const depth = ctx.createGain();
+    depth.gain.value = 0.5;
+    pulse.connect(depth);
+    depth.connect(gate.gain);
 
-    osc.start(t);
-    osc.stop(t + 0.15);
-  }
+    const panner = ctx.createStereoPanner();
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.setTargetAtTime(0.12, t, 0.05);
 
-  playDamage() {
-    if (!this.ctx || !this.masterGain) this.init();
-    if (!this.ctx || !this.masterGain) return;
+    tone.connect(gate);
+    gate.connect(panner);
+    panner.connect(gain);
+    gain.connect(this.sfxGain!);
 
-    const t = this.ctx.currentTime;
-    
-    // 1. Noise buffer for "crunch/static"
-    const bufferSize = this.ctx.sampleRate * 0.3; // 0.3 seconds
-    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-        data[i] = Math.random() * 2 - 1;
-    }
-
-    const noise = this.ctx.createBufferSource();
-    noise.buffer = buffer;
-    
-    // 2. Low oscillator for "thud/impact"
-    const osc = this.ctx.createOscillator();
-    osc.type = 'sawtooth';
-    osc.frequency.setValueAtTime(100, t);
-    osc.frequency.exponentialRampToValueAtTime(20, t + 0.3);
-
-    const oscGain = this.ctx.createGain();
-    oscGain.gain.setValueAtTime(0.6, t);
-    oscGain.gain.exponentialRampToValueAtTime(0.01, t + 0.3);
-
-    const noiseGain = this.ctx.createGain();
-    noiseGain.gain.setValueAtTime(0.5, t);
-    noiseGain.gain.exponentialRampToValueAtTime(0.01, t + 0.2);
-
-    osc.connect(oscGain);
-    oscGain.connect(this.masterGain);
-    
-    noise.connect(noiseGain);
-    noiseGain.connect(this.masterGain);
-
-    osc.start(t);
-    osc.stop(t + 0.3);
-    noise.start(t);
-    noise.stop(t + 0.3);
+    tone.start(t);
+    pulse.start(t);
+    return { tone, pulse, panner, gain };
   }
 }
 
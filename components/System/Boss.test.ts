@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SeededRandom } from './Random';
+import { BossState, BossCommand, createBoss, stepBoss, damageBoss, isBeamHitting, isBossLevel, getBossHealth } from './Boss';
+
+// Steps in 1/60 s ticks until the boss reaches `phase`, collecting the commands on the way
+const runUntil = (boss: BossState, phase: BossState['phase'], rng: SeededRandom, laneCount = 5) => {
+  const commands: BossCommand[] = [];
+  for (let i = 0; i < 6000 && boss.phase !== phase; i++) {
+    commands.push(...stepBoss(boss, 1000 / 60, laneCount, rng));
+  }
+  expect(boss.phase).toBe(phase);
+  return commands;
+};
+
+describe('boss levels', () => {
+  it('puts a boss on every third level', () => {
+    expect([1, 2, 3, 4, 5, 6].filter(isBossLevel)).toEqual([3, 6]);
+  });
+
+  it('gets tougher with each boss', () => {
+    expect(getBossHealth(6)).toBeGreaterThan(getBossHealth(3));
+  });
+});
+
+describe('stepBoss', () => {
+  let rng: SeededRandom;
+  beforeEach(() => { rng = new SeededRandom(7); });
+
+  it('telegraphs before attacking and opens up afterwards', () => {
+    const boss = createBoss(3);
+    const telegraph = runUntil(boss, 'TELEGRAPH', rng);
+    expect(telegraph.map(c => c.type)).toEqual(['TELEGRAPH']);
+
+    runUntil(boss, 'ATTACK', rng);
+    const exposed = runUntil(boss, 'EXPOSED', rng);
+    expect(exposed.filter(c => c.type === 'CHARGE_GEMS')).toHaveLength(1);
+
+    runUntil(boss, 'TELEGRAPH', rng);
+  });
+
+  it('leaves a lane free during a barrage', () => {
+    for (let i = 0; i < 20; i++) {
+      const boss = createBoss(3);
+      runUntil(boss, 'TELEGRAPH', rng);
+      const commands = runUntil(boss, 'ATTACK', rng);
+      const barrage = commands.find(c => c.type === 'MISSILES');
+      if (barrage && barrage.type === 'MISSILES') {
+        expect(new Set(barrage.lanes).size).toBe(4);
+      }
+    }
+  });
+
+  it('sweeps the beam across the whole track', () => {
+    let swept = false;
+    for (let i = 0; i < 20 && !swept; i++) {
+      const boss = createBoss(3);
+      runUntil(boss, 'TELEGRAPH', rng);
+      if (boss.attack !== 'BEAM') continue;
+
+      runUntil(boss, 'ATTACK', rng);
+      const seen: number[] = [];
+      while (boss.phase === 'ATTACK') {
+        stepBoss(boss, 1000 / 60, 5, rng);
+        if (boss.beamX !== null) seen.push(boss.beamX);
+      }
+      expect(Math.min(...seen)).toBeLessThan(-4);
+      expect(Math.max(...seen)).toBeGreaterThan(4);
+      swept = true;
+    }
+    expect(swept).toBe(true);
+  });
+});
+
+describe('damageBoss', () => {
+  it('only hurts the boss while its core is exposed', () => {
+    const rng = new SeededRandom(1);
+    const boss = createBoss(3);
+    expect(damageBoss(boss, 1)).toBe(false);
+    expect(boss.health).toBe(boss.maxHealth);
+
+    runUntil(boss, 'EXPOSED', rng);
+    expect(damageBoss(boss, 1)).toBe(true);
+    expect(boss.health).toBe(boss.maxHealth - 1);
+  });
+
+  it('defeats the boss at zero health and reports it once', () => {
+    const rng = new SeededRandom(1);
+    const boss = createBoss(3);
+    runUntil(boss, 'EXPOSED', rng);
+    damageBoss(boss, 100);
+    expect(boss.health).toBe(0);
+
+    const commands = runUntil(boss, 'DEFEATED', rng);
+    for (let i = 0; i < 300; i++) commands.push(...stepBoss(boss, 1000 / 60, 5, rng));
+    expect(commands.filter(c => c.type === 'DEFEATED')).toHaveLength(1);
+  });
+});
+
+describe('isBeamHitting', () => {
+  it('misses a player jumping over the beam', () => {
+    const boss = createBoss(3);
+    boss.beamX = 0;
+    expect(isBeamHitting(boss, 0, 0)).toBe(true);
+    expect(isBeamHitting(boss, 0, 2)).toBe(false);
+    expect(isBeamHitting(boss, 2.2, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { LANE_WIDTH } from '../../types';
+import { SeededRandom } from './Random';
+
+// The mothership fight that closes every BOSS_LEVEL_INTERVAL-th level. The
+// boss loops through telegraph -> attack -> exposed; it can only be damaged
+// while its core is exposed. This module only runs the phase machine and
+// says what should happen; the world step turns commands into objects, hits
+// and events.
+
+export const BOSS_LEVEL_INTERVAL = 3;
+
+export const BOSS_Z = -70; // The boss flies along at a fixed distance ahead
+export const BOSS_HOVER_Y = 9;
+export const BOSS_EXPOSED_Y = 5; // Dips down while the core is open
+
+export const BEAM_HEIGHT = 1.0; // Top of the sweeping beam; low enough to jump
+const BEAM_SWEEP_SPEED = 14; // Units per second across the track
+const BEAM_HALF_WIDTH = 0.5;
+
+// Damage per source, against a health of getBossHealth()
+export const SONIC_BLAST_BOSS_DAMAGE = 3;
+export const DRONE_BOSS_DAMAGE = 1;
+export const CHARGE_GEM_DAMAGE = 1;
+
+export type BossPhase = 'ENTER' | 'TELEGRAPH' | 'ATTACK' | 'EXPOSED' | 'DEFEATED';
+export type BossAttack = 'BARRAGE' | 'BEAM' | 'MINIONS';
+
+// ms per phase. Beam attacks last as long as the sweep takes instead.
+const PHASE_DURATION: Record<Exclude<BossPhase, 'ATTACK'>, number> = {
+  ENTER: 2500,
+  TELEGRAPH: 1200,
+  EXPOSED: 4500,
+  DEFEATED: 2000
+};
+
+const ATTACK_DURATION: Record<Exclude<BossAttack, 'BEAM'>, number> = {
+  BARRAGE: 1500,
+  MINIONS: 2000
+};
+
+const ATTACKS: BossAttack[] = ['BARRAGE', 'BEAM', 'MINIONS'];
+const MINION_COUNT = 2;
+const CHARGE_GEM_COUNT = 3;
+
+export interface BossState {
+  health: number;
+  maxHealth: number;
+  phase: BossPhase;
+  phaseTime: number; // ms spent in the current phase
+  attack: BossAttack; // Attack being telegraphed or carried out
+  lanes: number[]; // Lanes the attack targets, shown during the telegraph
+  beamX: number | null; // Beam position while it sweeps
+  lastHitTime: number; // ms of boss time, for the hit flash
+  time: number; // ms since the boss appeared
+}
+
+// What the HUD shows; the store's copy of the world's boss
+export interface BossStatus {
+  health: number;
+  maxHealth: number;
+  phase: BossPhase;
+}
+
+export type BossCommand =
+  | { type: 'TELEGRAPH'; attack: BossAttack }
+  | { type: 'MISSILES'; lanes: number[] }
+  | { type: 'MINIONS'; lanes: number[] }
+  | { type: 'CHARGE_GEMS'; lanes: number[] }
+  | { type: 'DEFEATED' };
+
+export const isBossLevel = (level: number) => level % BOSS_LEVEL_INTERVAL === 0;
+
+export const getBossHealth = (level: number) => 6 + 2 * Math.floor(level / BOSS_LEVEL_INTERVAL);
+
+export const createBoss = (level: number): BossState => {
+  const maxHealth = getBossHealth(level);
+  return {
+    health: maxHealth,
+    maxHealth,
+    phase: 'ENTER',
+    phaseTime: 0,
+    attack: 'BARRAGE',
+    lanes: [],
+    beamX: null,
+    lastHitTime: -Infinity,
+    time: 0
+  };
+};
+
+const allLanes = (laneCount: number) => {
+  const max = Math.floor(laneCount / 2);
+  return Array.from({ length: laneCount }, (_, i) => i - max);
+};
+
+const pickLanes = (laneCount: number, count: number, rng: SeededRandom) =>
+  rng.shuffle(allLanes(laneCount)).slice(0, Math.min(count, laneCount));
+
+const enterPhase = (boss: BossState, phase: BossPhase) => {
+  boss.phase = phase;
+  boss.phaseTime = 0;
+};
+
+// Picks the next attack and the lanes it will hit
+const telegraph = (boss: BossState, laneCount: number, rng: SeededRandom): BossCommand => {
+  boss.attack = rng.pick(ATTACKS);
+  const maxX = Math.floor(laneCount / 2) * LANE_WIDTH;
+
+  switch (boss.attack) {
+      case 'BARRAGE':
+          // Every lane but one
+          boss.lanes = pickLanes(laneCount, laneCount - 1, rng);
+          break;
+      case 'MINIONS':
+          boss.lanes = pickLanes(laneCount, MINION_COUNT, rng);
+          break;
+      case 'BEAM': {
+          // Sweeps from one edge of the track to the other
+          const fromLeft = rng.next() < 0.5;
+          boss.lanes = [Math.round((fromLeft ? -maxX : maxX) / LANE_WIDTH)];
+          break;
+      }
+  }
+  enterPhase(boss, 'TELEGRAPH');
+  return { type: 'TELEGRAPH', attack: boss.attack };
+};
+
+// Advances the phase machine by dtMs. Returns what the world should spawn or resolve.
+export const stepBoss = (boss: BossState, dtMs: number, laneCount: number, rng: SeededRandom): BossCommand[] => {
+  const commands: BossCommand[] = [];
+  const maxX = Math.floor(laneCount / 2) * LANE_WIDTH;
+  boss.time += dtMs;
+  boss.phaseTime += dtMs;
+
+  switch (boss.phase) {
+      case 'ENTER':
+          if (boss.phaseTime >= PHASE_DURATION.ENTER) commands.push(telegraph(boss, laneCount, rng));
+          break;
+
+      case 'TELEGRAPH':
+          if (boss.phaseTime >= PHASE_DURATION.TELEGRAPH) {
+              enterPhase(boss, 'ATTACK');
+              if (boss.attack === 'BARRAGE') commands.push({ type: 'MISSILES', lanes: boss.lanes });
+              if (boss.attack === 'MINIONS') commands.push({ type: 'MINIONS', lanes: boss.lanes });
+              if (boss.attack === 'BEAM') boss.beamX = boss.lanes[0] * LANE_WIDTH;
+          }
+          break;
+
+      case 'ATTACK': {
+          let done: boolean;
+          if (boss.attack === 'BEAM') {
+              const direction = boss.lanes[0] < 0 ? 1 : -1;
+              boss.beamX = boss.lanes[0] * LANE_WIDTH + direction * BEAM_SWEEP_SPEED * boss.phaseTime / 1000;
+              done = Math.abs(boss.beamX) > maxX + LANE_WIDTH / 2;
+          } else {
+              done = boss.phaseTime >= ATTACK_DURATION[boss.attack];
+          }
+          if (done) {
+              boss.beamX = null;
+              boss.lanes = pickLanes(laneCount, CHARGE_GEM_COUNT, rng);
+              enterPhase(boss, 'EXPOSED');
+              commands.push({ type: 'CHARGE_GEMS', lanes: boss.lanes });
+          }
+          break;
+      }
+
+      case 'EXPOSED':
+          if (boss.phaseTime >= PHASE_DURATION.EXPOSED) commands.push(telegraph(boss, laneCount, rng));
+          break;
+
+      case 'DEFEATED':
+          // Sent once; the world removes the boss on this command
+          if (boss.phaseTime >= PHASE_DURATION.DEFEATED && boss.phaseTime - dtMs < PHASE_DURATION.DEFEATED) {
+              commands.push({ type: 'DEFEATED' });
+          }
+          break;
+  }
+  return commands;
+};
+
+// Damage only lands while the core is exposed. Returns true if it did.
+export const damageBoss = (boss: BossState, amount: number): boolean => {
+  if (boss.phase !== 'EXPOSED') return false;
+  boss.health = Math.max(0, boss.health - amount);
+  boss.lastHitTime = boss.time;
+  if (boss.health === 0) {
+      boss.lanes = [];
+      enterPhase(boss, 'DEFEATED');
+  }
+  return true;
+};
+
+// The beam only hits a player standing in it; jumping clears it
+export const isBeamHitting = (boss: BossState, x: number, y: number) =>
+  boss.beamX !== null && Math.abs(boss.beamX - x) < BEAM_HALF_WIDTH + 0.4 && y < BEAM_HEIGHT;
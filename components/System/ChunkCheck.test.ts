@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { ObjectType } from '../../types';
+import { ChunkCell, ChunkDefinition, ChunkRow } from './Chunks';
+import { analyzeChunk, getJumpWindow, JUMP_AIRTIME } from './ChunkCheck';
+import { OBSTACLE_HEIGHT } from './Collision';
+
+const _: ChunkCell[] = [];
+const X: ChunkCell[] = [{ type: ObjectType.OBSTACLE }];
+
+const chunk = (rows: ChunkRow[]): ChunkDefinition => ({ id: 'test', name: 'Test', minLevel: 1, minLanes: 3, weight: 1, rows });
+
+describe('getJumpWindow', () => {
+  it('brackets the apex of a jump', () => {
+    const [start, end] = getJumpWindow(OBSTACLE_HEIGHT)!;
+    expect(start).toBeGreaterThan(0);
+    expect(end).toBeLessThan(JUMP_AIRTIME);
+    expect(start + end).toBeCloseTo(JUMP_AIRTIME);
+  });
+
+  it('is null above the apex', () => {
+    expect(getJumpWindow(3)).toBeNull();
+  });
+});
+
+describe('analyzeChunk', () => {
+  it('flags rows without an open lane', () => {
+    const issues = analyzeChunk(chunk([{ cells: [X, _, X] }, { cells: [X, X, X] }]));
+    expect(issues.filter(issue => issue.kind === 'NO_OPEN_LANE')).toEqual([{ kind: 'NO_OPEN_LANE', row: 1 }]);
+  });
+
+  it('accepts a single obstacle at run speed', () => {
+    expect(analyzeChunk(chunk([{ cells: [X, _, _] }]))).toEqual([]);
+  });
+
+  it('flags hazards a jump cannot clear', () => {
+    const highAlien: ChunkCell[] = [{ type: ObjectType.ALIEN, height: 2.2 }];
+    expect(analyzeChunk(chunk([{ cells: [highAlien, _, _] }]))).toEqual([{ kind: 'TOO_HIGH', row: 0, lane: 0 }]);
+
+    // Too slow to stay above the obstacle while it passes
+    expect(analyzeChunk(chunk([{ cells: [X, _, _] }]), 5)).toEqual([{ kind: 'TOO_HIGH', row: 0, lane: 0 }]);
+  });
+
+  it('ignores aliens hovering above the player', () => {
+    const overhead: ChunkCell[] = [{ type: ObjectType.ALIEN, height: 3 }];
+    expect(analyzeChunk(chunk([{ cells: [overhead, _, _] }]))).toEqual([]);
+  });
+
+  it('flags back to back hazards neither one nor two jumps clear', () => {
+    const rows = (gap: number) => chunk([{ cells: [X, _, _] }, { cells: [X, _, _], gap }]);
+
+    expect(analyzeChunk(rows(0.1))).toEqual([]); // One jump spans both
+    expect(analyzeChunk(rows(0.5))).toEqual([{ kind: 'TOO_CLOSE', row: 1, lane: 0 }]);
+    expect(analyzeChunk(rows(1))).toEqual([]); // Land and jump again
+  });
+});
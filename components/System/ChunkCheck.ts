@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ObjectType } from '../../types';
+import { ChunkCell, ChunkDefinition, blocksLane, isChunkHazard } from './Chunks';
+import { GRAVITY, JUMP_FORCE, getLevelStartSpeed, getRowGap } from './World';
+import { PLAYER_HEIGHT, OBSTACLE_HEIGHT, getVerticalBounds, getZReach } from './Collision';
+
+// Playability checks for the chunk editor. validateChunk() decides whether the
+// spawner may use a chunk at all; this explains, row by row, what a player
+// would run into. Jumps are checked for a single jump (no double jump item)
+// with the same physics the world step uses.
+
+export type ChunkIssueKind =
+  | 'NO_OPEN_LANE' // Every lane of the row is blocked (error)
+  | 'TOO_HIGH' // A single jump cannot clear the hazard at this speed
+  | 'TOO_CLOSE'; // Same lane as the previous row's hazard: neither one jump nor two clear both
+
+export interface ChunkIssue {
+  kind: ChunkIssueKind;
+  row: number; // Index into chunk.rows
+  lane?: number; // Column inside the chunk, if the issue is about one cell
+}
+
+export const isChunkError = (issue: ChunkIssue) => issue.kind === 'NO_OPEN_LANE';
+
+// Time a single jump takes from take-off to landing
+export const JUMP_AIRTIME = 2 * JUMP_FORCE / GRAVITY;
+
+// When, after take-off, the player's feet are above `height`. Null if a jump never gets that high.
+export const getJumpWindow = (height: number): [number, number] | null => {
+  const discriminant = JUMP_FORCE * JUMP_FORCE - 2 * GRAVITY * height;
+  if (discriminant <= 0) return null;
+  const root = Math.sqrt(discriminant);
+  return [(JUMP_FORCE - root) / GRAVITY, (JUMP_FORCE + root) / GRAVITY];
+};
+
+interface GroundBlock {
+  top: number; // Height the player's feet must clear
+  reach: number; // Distance along z over which the hazards touch the player
+}
+
+// What the hazards in one cell take to jump, or null if running through on the ground is safe.
+// Barriers are left out: they are slid under, never jumped.
+const groundBlock = (cells: ChunkCell[]): GroundBlock | null => {
+  let block: GroundBlock | null = null;
+  for (const cell of cells.filter(cell => isChunkHazard(cell) && cell.type !== ObjectType.BARRIER)) {
+    const [bottom, top] = getVerticalBounds(cell.type, cell.height ?? (cell.type === ObjectType.ALIEN ? 1.5 : OBSTACLE_HEIGHT / 2))!;
+    if (bottom >= PLAYER_HEIGHT) continue; // Passes over the player's head
+    const reach = getZReach(cell.type);
+    block = block ? { top: Math.max(block.top, top), reach: Math.max(block.reach, reach) } : { top, reach };
+  }
+  return block;
+};
+
+// Row by row issues of a chunk played at `speed` (by default the slowest
+// speed of its first level, where jumps are the hardest to time)
+export const analyzeChunk = (chunk: ChunkDefinition, speed = getLevelStartSpeed(chunk.minLevel)): ChunkIssue[] => {
+  const issues: ChunkIssue[] = [];
+  const rowGap = getRowGap(speed);
+
+  chunk.rows.forEach((row, index) => {
+    if (row.cells.every(blocksLane)) {
+      issues.push({ kind: 'NO_OPEN_LANE', row: index });
+    }
+
+    row.cells.forEach((cells, lane) => {
+      const block = groundBlock(cells);
+      if (!block) return;
+
+      const hitTime = 2 * block.reach / speed; // How long the hazard stays in reach
+      const window = getJumpWindow(block.top);
+      if (!window || window[1] - window[0] < hitTime) {
+        issues.push({ kind: 'TOO_HIGH', row: index, lane });
+        return;
+      }
+
+      // Back to back hazards in the same lane: either one jump spans both, or
+      // the player lands and takes off again in between
+      const previous = index > 0 ? groundBlock(chunk.rows[index - 1].cells[lane] ?? []) : null;
+      const previousWindow = previous && getJumpWindow(previous.top);
+      if (!previous || !previousWindow) return;
+
+      const distance = rowGap * (row.gap ?? 1);
+      const spanWindow = getJumpWindow(Math.max(previous.top, block.top))!;
+      const oneJump = (spanWindow[1] - spanWindow[0]) * speed >= distance + previous.reach + block.reach;
+      const twoJumps = distance / speed >= JUMP_AIRTIME - previousWindow[1] + hitTime + window[0];
+      if (!oneJump && !twoJumps) {
+        issues.push({ kind: 'TOO_CLOSE', row: index, lane });
+      }
+    });
+  });
+
+  return issues;
+};
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { ObjectType } from '../../types';
+import { SeededRandom } from './Random';
+import { CHUNK_LIBRARY, ChunkDefinition, ChunkRow, validateChunk, getEligibleChunks, pickChunk, placeChunk, chunkWidth, parseChunk } from './Chunks';
+
+const X = [{ type: ObjectType.OBSTACLE as const }];
+
+const chunk = (overrides: Partial<ChunkDefinition>): ChunkDefinition => ({
+  id: 'test',
+  name: 'Test',
+  minLevel: 1,
+  minLanes: 3,
+  weight: 1,
+  rows: [{ cells: [X, [], X] }],
+  ...overrides
+});
+
+describe('chunk library', () => {
+  it('only contains valid chunks', () => {
+    for (const entry of CHUNK_LIBRARY) {
+      expect(validateChunk(entry), entry.id).toBeNull();
+    }
+  });
+
+  it('has unique ids', () => {
+    const ids = CHUNK_LIBRARY.map(entry => entry.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('validateChunk', () => {
+  it('rejects a row without an open lane', () => {
+    expect(validateChunk(chunk({ rows: [{ cells: [X, X, X] }] }))).toMatch(/blocks every lane/);
+  });
+
+  it('counts gem-only lanes as open', () => {
+    expect(validateChunk(chunk({ rows: [{ cells: [X, [{ type: ObjectType.GEM }], X] }] }))).toBeNull();
+  });
+
+  it('rejects ragged rows and tracks narrower than the chunk', () => {
+    expect(validateChunk(chunk({ rows: [{ cells: [X, []] }, { cells: [X, [], []] }] }))).toMatch(/expected 2/);
+    expect(validateChunk(chunk({ minLanes: 1 }))).toMatch(/minLanes/);
+  });
+});
+
+describe('getEligibleChunks', () => {
+  it('filters by level and lane count', () => {
+    const wide = chunk({ id: 'wide', minLanes: 5, rows: [{ cells: [X, [], [], [], X] }] });
+    const late = chunk({ id: 'late', minLevel: 4 });
+    const library = [chunk({}), wide, late];
+
+    expect(getEligibleChunks(1, 3, library).map(c => c.id)).toEqual(['test']);
+    expect(getEligibleChunks(4, 5, library).map(c => c.id)).toEqual(['test', 'wide', 'late']);
+  });
+});
+
+describe('pickChunk', () => {
+  it('falls back to the random row when nothing is eligible', () => {
+    expect(pickChunk([], new SeededRandom(1))).toBeNull();
+  });
+
+  it('mixes random rows and chunks', () => {
+    const rng = new SeededRandom(7);
+    const picks = Array.from({ length: 500 }, () => pickChunk(CHUNK_LIBRARY, rng));
+
+    expect(picks.filter(p => p === null).length).toBeGreaterThan(0);
+    expect(picks.filter(p => p !== null).length).toBeGreaterThan(0);
+  });
+});
+
+describe('placeChunk', () => {
+  it('keeps every cell on the track', () => {
+    const rng = new SeededRandom(3);
+    for (const entry of CHUNK_LIBRARY) {
+      for (const laneCount of [3, 5, 7, 9].filter(n => n >= entry.minLanes)) {
+        const maxLane = Math.floor(laneCount / 2);
+        for (let i = 0; i < 20; i++) {
+          const rows = placeChunk(entry, laneCount, rng);
+          expect(rows).toHaveLength(entry.rows.length);
+          for (const { lane } of rows.flatMap(row => row.cells)) {
+            expect(Math.abs(lane)).toBeLessThanOrEqual(maxLane);
+          }
+        }
+      }
+    }
+  });
+
+  it('mirrors the chunk some of the time', () => {
+    const stairs = CHUNK_LIBRARY.find(entry => entry.id === 'gem-stairs')!;
+    const rng = new SeededRandom(11);
+    const firstLanes = new Set<number>();
+    for (let i = 0; i < 50; i++) firstLanes.add(placeChunk(stairs, chunkWidth(stairs), rng)[0].cells[0].lane);
+
+    expect([...firstLanes].sort()).toEqual([-1, 1]);
+  });
+
+  it('can keep the authored orientation', () => {
+    const stairs = CHUNK_LIBRARY.find(entry => entry.id === 'gem-stairs')!;
+    const rng = new SeededRandom(11);
+    for (let i = 0; i < 20; i++) {
+      expect(placeChunk(stairs, chunkWidth(stairs), rng, false)[0].cells[0].lane).toBe(-1);
+    }
+  });
+});
+
+describe('parseChunk', () => {
+  it('reads back an exported chunk', () => {
+    const gemRow: ChunkRow = { cells: [X, [{ type: ObjectType.GEM, height: 2, rarity: 'RARE' as const }], [{ type: ObjectType.LETTER }]] };
+    const original = chunk({ rows: [gemRow] });
+
+    expect(parseChunk(JSON.stringify(original))).toEqual(original);
+  });
+
+  it('rejects text that is not a chunk', () => {
+    expect(parseChunk('not json')).toBeNull();
+    expect(parseChunk(JSON.stringify({ ...chunk({}), rows: [{ cells: [[{ type: 'PORTAL' }]] }] }))).toBeNull();
+    expect(parseChunk(JSON.stringify(chunk({ rows: [{ cells: [[{ type: ObjectType.OBSTACLE, rarity: 'RARE' }]] }] })))).toBeNull();
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ObjectType, GemRarity, GEM_RARITIES } from '../../types';
+import { SeededRandom } from './Random';
+
+// Authored obstacle patterns. A chunk is a few rows laid out across a band of
+// adjacent lanes; the spawner drops it somewhere on the track (optionally
+// mirrored) and emits one row per spawn slot, just like a random row.
+// Everything here is plain JSON so chunks can be saved and shared.
+
+export type ChunkObjectType = ObjectType.OBSTACLE | ObjectType.ALIEN | ObjectType.BARRIER | ObjectType.GEM | ObjectType.LETTER;
+
+export const CHUNK_OBJECT_TYPES: ChunkObjectType[] = [ObjectType.OBSTACLE, ObjectType.ALIEN, ObjectType.BARRIER, ObjectType.GEM, ObjectType.LETTER];
+
+export interface ChunkCell {
+  type: ChunkObjectType;
+  height?: number; // y of the object; defaults per type
+  rarity?: GemRarity; // Gems only; rolled like a random gem when missing
+}
+
+export interface ChunkRow {
+  cells: ChunkCell[][]; // One entry per lane, left to right. [] = empty lane
+  gap?: number; // Distance before this row, in multiples of the usual row gap (default 1)
+}
+
+export interface ChunkDefinition {
+  id: string;
+  name: string;
+  minLevel: number;
+  minLanes: number; // Smallest track it fits on, at least the chunk width
+  weight: number; // Relative to RANDOM_ROW_WEIGHT
+  rows: ChunkRow[];
+}
+
+// Weight of the classic random row against the chunk weights
+export const RANDOM_ROW_WEIGHT = 10;
+
+export const MAX_CELL_HEIGHT = 4;
+
+// Shorthands for the library below
+const _: ChunkCell[] = [];
+const X: ChunkCell[] = [{ type: ObjectType.OBSTACLE }];
+const A: ChunkCell[] = [{ type: ObjectType.ALIEN }];
+const G: ChunkCell[] = [{ type: ObjectType.GEM }];
+const gemAt = (height: number): ChunkCell => ({ type: ObjectType.GEM, height });
+const overObstacle = (height: number): ChunkCell[] => [{ type: ObjectType.OBSTACLE }, gemAt(height)];
+const B: ChunkCell[] = [{ type: ObjectType.BARRIER }];
+const underBarrier: ChunkCell[] = [{ type: ObjectType.BARRIER }, gemAt(0.4)];
+
+export const CHUNK_LIBRARY: ChunkDefinition[] = [
+  {
+    id: 'gem-tunnel',
+    name: 'Gem Tunnel',
+    minLevel: 1,
+    minLanes: 3,
+    weight: 2,
+    rows: [
+      { cells: [X, G, X] },
+      { cells: [X, G, X], gap: 0.6 },
+      { cells: [X, G, X], gap: 0.6 }
+    ]
+  },
+  {
+    id: 'gem-stairs',
+    name: 'Gem Stairs',
+    minLevel: 1,
+    minLanes: 3,
+    weight: 2,
+    rows: [
+      { cells: [overObstacle(2.2), _, _] },
+      { cells: [_, overObstacle(2.6), _] },
+      { cells: [_, _, overObstacle(3.0)] }
+    ]
+  },
+  {
+    id: 'zig-zag',
+    name: 'Zig-Zag Corridor',
+    minLevel: 2,
+    minLanes: 3,
+    weight: 2,
+    rows: [
+      { cells: [G, X, X] },
+      { cells: [X, G, X] },
+      { cells: [X, X, G] },
+      { cells: [X, G, X] },
+      { cells: [G, X, X] }
+    ]
+  },
+  {
+    // Slide, hop, slide: the barriers cannot be jumped
+    id: 'low-bridge',
+    name: 'Low Bridge',
+    minLevel: 2,
+    minLanes: 3,
+    weight: 1.5,
+    rows: [
+      { cells: [underBarrier, X, _] },
+      { cells: [_, B, X], gap: 1.2 },
+      { cells: [X, _, underBarrier], gap: 1.2 }
+    ]
+  },
+  {
+    // Hop the first obstacle, then cross over before the wall closes
+    id: 'jump-switch',
+    name: 'Jump & Switch',
+    minLevel: 3,
+    minLanes: 3,
+    weight: 1.5,
+    rows: [
+      { cells: [overObstacle(2.5), X, _] },
+      { cells: [_, X, X], gap: 1.2 },
+      { cells: [X, X, G], gap: 1.2 }
+    ]
+  },
+  {
+    id: 'alien-gate',
+    name: 'Alien Gate',
+    minLevel: 4,
+    minLanes: 5,
+    weight: 1,
+    rows: [
+      { cells: [A, _, _, _, A] },
+      { cells: [_, X, G, X, _] },
+      { cells: [G, _, A, _, G], gap: 1.2 }
+    ]
+  },
+  {
+    id: 'wide-wall',
+    name: 'Wide Wall',
+    minLevel: 5,
+    minLanes: 7,
+    weight: 1,
+    rows: [
+      { cells: [X, X, X, G, X, X, X] },
+      { cells: [X, G, X, X, X, G, X], gap: 1.3 },
+      { cells: [_, X, _, X, _, X, _], gap: 1.3 }
+    ]
+  }
+];
+
+export const chunkWidth = (chunk: ChunkDefinition) => chunk.rows[0]?.cells.length ?? 0;
+
+export const isChunkHazard = (cell: ChunkCell) =>
+  cell.type === ObjectType.OBSTACLE || cell.type === ObjectType.ALIEN || cell.type === ObjectType.BARRIER;
+
+export const blocksLane = (cells: ChunkCell[]) => cells.some(isChunkHazard);
+
+// Why the chunk cannot be used, or null if it is fine
+export const validateChunk = (chunk: ChunkDefinition): string | null => {
+  const width = chunkWidth(chunk);
+  if (chunk.rows.length === 0 || width === 0) return 'empty';
+  if (chunk.minLanes < width) return 'minLanes is smaller than the chunk width';
+  if (!(chunk.weight > 0)) return 'weight must be positive';
+
+  for (const [index, row] of chunk.rows.entries()) {
+    if (row.cells.length !== width) return `row ${index + 1} has ${row.cells.length} lanes, expected ${width}`;
+    // The passable-lane guarantee: every row keeps at least one lane free of hazards
+    if (row.cells.every(blocksLane)) return `row ${index + 1} blocks every lane`;
+    if (row.gap !== undefined && !(row.gap > 0)) return `row ${index + 1} has no gap`;
+    const badHeight = row.cells.flat().some(cell => cell.height !== undefined && (cell.height < 0 || cell.height > MAX_CELL_HEIGHT));
+    if (badHeight) return `row ${index + 1} has a height outside 0-${MAX_CELL_HEIGHT}`;
+  }
+  return null;
+};
+
+export const getEligibleChunks = (level: number, laneCount: number, library: ChunkDefinition[] = CHUNK_LIBRARY) =>
+  library.filter(chunk => level >= chunk.minLevel && laneCount >= chunk.minLanes && validateChunk(chunk) === null);
+
+// Weighted pick between the random row (null) and the eligible chunks
+export const pickChunk = (chunks: ChunkDefinition[], rng: SeededRandom): ChunkDefinition | null => {
+  if (chunks.length === 0) return null;
+  const total = chunks.reduce((sum, chunk) => sum + chunk.weight, RANDOM_ROW_WEIGHT);
+  let roll = rng.next() * total - RANDOM_ROW_WEIGHT;
+  if (roll < 0) return null;
+  for (const chunk of chunks) {
+    roll -= chunk.weight;
+    if (roll < 0) return chunk;
+  }
+  return chunks[chunks.length - 1];
+};
+
+export interface PlacedCell {
+  lane: number; // Track lane, 0 = center
+  cell: ChunkCell;
+}
+
+export interface PlacedRow {
+  gap: number;
+  cells: PlacedCell[];
+}
+
+// Drops the chunk on a random band of lanes, mirrored half of the time
+export const placeChunk = (chunk: ChunkDefinition, laneCount: number, rng: SeededRandom, allowMirror = true): PlacedRow[] => {
+  const width = chunkWidth(chunk);
+  const maxLane = Math.floor(laneCount / 2);
+  const firstLane = rng.int(-maxLane, maxLane - width + 1);
+  const mirrored = allowMirror && rng.next() < 0.5;
+
+  return chunk.rows.map(row => {
+    const columns = mirrored ? [...row.cells].reverse() : row.cells;
+    return {
+      gap: row.gap ?? 1,
+      cells: columns.flatMap((cells, column) => cells.map(cell => ({ lane: firstLane + column, cell })))
+    };
+  });
+};
+
+const isCell = (value: any): value is ChunkCell =>
+  CHUNK_OBJECT_TYPES.includes(value?.type) &&
+  (value.height === undefined || typeof value.height === 'number') &&
+  (value.rarity === undefined || (value.type === ObjectType.GEM && value.rarity in GEM_RARITIES));
+
+const isRow = (value: any): value is ChunkRow =>
+  Array.isArray(value?.cells) &&
+  value.cells.every((cells: any) => Array.isArray(cells) && cells.every(isCell)) &&
+  (value.gap === undefined || typeof value.gap === 'number');
+
+// Reads an exported chunk back. Null if the text is not a chunk at all;
+// whether the chunk is usable is up to validateChunk().
+export const parseChunk = (text: string): ChunkDefinition | null => {
+  try {
+    const data = JSON.parse(text);
+    if (typeof data?.id !== 'string' || typeof data.name !== 'string') return null;
+    if (typeof data.minLevel !== 'number' || typeof data.minLanes !== 'number' || typeof data.weight !== 'number') return null;
+    if (!Array.isArray(data.rows) || !data.rows.every(isRow)) return null;
+    return data as ChunkDefinition;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { GameObject, ObjectType, LANE_WIDTH } from '../../types';
+import { PLAYER_HEIGHT, SLIDE_HEIGHT, getHitbox, getPlayerBox, getObjectBox, collides } from './Collision';
+import { BARRIER_HEIGHT } from './World';
+
+const object = (type: ObjectType, x: number, y: number, z: number): GameObject =>
+  ({ id: type, type, position: [x, y, z], active: true });
+
+const standing = getPlayerBox(0, 0, PLAYER_HEIGHT);
+
+describe('collides', () => {
+  it('catches an object that passed the player within one tick', () => {
+    const missile = object(ObjectType.MISSILE, 0, 1, 6);
+
+    expect(collides(standing, missile, 6)).toBe(false);
+    expect(collides(standing, missile, -6)).toBe(true);
+  });
+
+  it('misses objects in another lane', () => {
+    expect(collides(standing, object(ObjectType.OBSTACLE, LANE_WIDTH, 0.8, 0), 0)).toBe(false);
+  });
+
+  it('lets a sliding player pass under a barrier but not a jumping one', () => {
+    const barrier = object(ObjectType.BARRIER, 0, BARRIER_HEIGHT, 0);
+
+    expect(collides(getPlayerBox(0, 0, SLIDE_HEIGHT), barrier, 0)).toBe(false);
+    expect(collides(getPlayerBox(0, 2.5, PLAYER_HEIGHT), barrier, 0)).toBe(true);
+  });
+
+  it('only collects a raised gem mid-jump', () => {
+    const gem = object(ObjectType.GEM, 0, 2.5, 0);
+
+    expect(collides(standing, gem, 0)).toBe(false);
+    expect(collides(getPlayerBox(0, 1.5, PLAYER_HEIGHT), gem, 0)).toBe(true);
+  });
+
+  it('triggers a portal from any lane', () => {
+    expect(collides(getPlayerBox(2 * LANE_WIDTH, 0, PLAYER_HEIGHT), object(ObjectType.SHOP_PORTAL, 0, 0, 0), 0)).toBe(true);
+  });
+});
+
+describe('getHitbox', () => {
+  it('puts every object on its layer', () => {
+    expect(getHitbox(ObjectType.LASER_GATE)?.layer).toBe('HAZARD');
+    expect(getHitbox(ObjectType.LETTER)?.layer).toBe('PICKUP');
+    expect(getHitbox(ObjectType.SHOP_PORTAL)?.layer).toBe('TRIGGER');
+  });
+
+  it('stretches the box over the distance moved', () => {
+    const box = getObjectBox(object(ObjectType.OBSTACLE, 0, 0.8, 4), -10)!;
+    const { halfDepth } = getHitbox(ObjectType.OBSTACLE)!;
+
+    expect(box.minZ).toBeCloseTo(-10 - halfDepth);
+    expect(box.maxZ).toBeCloseTo(4 + halfDepth);
+  });
+});
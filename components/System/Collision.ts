@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, ObjectType } from '../../types';
+
+// Hit testing between the player and the track objects. Every object type
+// has a box shape and a layer that decides what touching it does. Boxes are
+// swept along z from the previous tick's position to the current one, so a
+// fast object cannot skip past the player between two ticks.
+
+export type CollisionLayer = 'HAZARD' | 'PICKUP' | 'TRIGGER';
+
+export interface HitboxShape {
+  layer: CollisionLayer;
+  halfWidth: number; // x; Infinity spans the whole track
+  halfDepth: number; // z
+  vertical: (y: number) => [number, number]; // [bottom, top] for an object at height y
+}
+
+export interface Box {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export const PLAYER_HEIGHT = 1.8;
+export const SLIDE_HEIGHT = 0.8; // Hitbox height while sliding
+export const PLAYER_HALF_WIDTH = 0.3;
+export const PLAYER_HALF_DEPTH = 0.4;
+
+export const OBSTACLE_HEIGHT = 1.6;
+
+const around = (half: number) => (y: number): [number, number] => [y - half, y + half];
+
+export const HITBOXES: Partial<Record<ObjectType, HitboxShape>> = {
+  // Always stands on the track, whatever height it was placed at
+  [ObjectType.OBSTACLE]: { layer: 'HAZARD', halfWidth: 0.6, halfDepth: 0.9, vertical: () => [0, OBSTACLE_HEIGHT] },
+  [ObjectType.ALIEN]: { layer: 'HAZARD', halfWidth: 0.6, halfDepth: 0.6, vertical: around(0.5) },
+  [ObjectType.MISSILE]: { layer: 'HAZARD', halfWidth: 0.3, halfDepth: 1.5, vertical: () => [0.5, 1.5] },
+  // The field above the bar reaches past any jump: the only way through is under it
+  [ObjectType.BARRIER]: { layer: 'HAZARD', halfWidth: 0.9, halfDepth: 0.2, vertical: y => [y, Infinity] },
+  [ObjectType.LASER_GATE]: { layer: 'HAZARD', halfWidth: 0.7, halfDepth: 0.1, vertical: around(0.15) },
+  // Pickups are generous so grazing one still collects it
+  [ObjectType.GEM]: { layer: 'PICKUP', halfWidth: 0.6, halfDepth: 1.2, vertical: around(0.7) },
+  [ObjectType.LETTER]: { layer: 'PICKUP', halfWidth: 0.6, halfDepth: 1.2, vertical: around(0.7) },
+  [ObjectType.SHOP_PORTAL]: { layer: 'TRIGGER', halfWidth: Infinity, halfDepth: 0.5, vertical: () => [-Infinity, Infinity] }
+};
+
+// Null for types that never touch the player (e.g. the boss, which hits through its beam)
+export const getHitbox = (type: ObjectType): HitboxShape | null => HITBOXES[type] ?? null;
+
+// [bottom, top] an object at height y covers, or null if it has no hitbox
+export const getVerticalBounds = (type: ObjectType, y: number): [number, number] | null =>
+  getHitbox(type)?.vertical(y) ?? null;
+
+// How far from the player along z an object of this type still touches it
+export const getZReach = (type: ObjectType) => (getHitbox(type)?.halfDepth ?? 0) + PLAYER_HALF_DEPTH;
+
+export const getPlayerBox = (x: number, y: number, height: number): Box => ({
+  minX: x - PLAYER_HALF_WIDTH,
+  maxX: x + PLAYER_HALF_WIDTH,
+  minY: y,
+  maxY: y + height,
+  minZ: -PLAYER_HALF_DEPTH,
+  maxZ: PLAYER_HALF_DEPTH
+});
+
+// World space box of an object, stretched over the distance it moved since prevZ
+export const getObjectBox = (obj: GameObject, prevZ: number = obj.position[2]): Box | null => {
+  const shape = getHitbox(obj.type);
+  if (!shape) return null;
+  const [x, y, z] = obj.position;
+  const [minY, maxY] = shape.vertical(y);
+  return {
+    minX: x - shape.halfWidth,
+    maxX: x + shape.halfWidth,
+    minY,
+    maxY,
+    minZ: Math.min(prevZ, z) - shape.halfDepth,
+    maxZ: Math.max(prevZ, z) + shape.halfDepth
+  };
+};
+
+export const overlaps = (a: Box, b: Box) =>
+  a.minX < b.maxX && a.maxX > b.minX &&
+  a.minY < b.maxY && a.maxY > b.minY &&
+  a.minZ < b.maxZ && a.maxZ > b.minZ;
+
+// Whether obj touched the player at any point while moving from prevZ to its current z
+export const collides = (player: Box, obj: GameObject, prevZ: number) => {
+  const box = getObjectBox(obj, prevZ);
+  return box !== null && overlaps(player, box);
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InputAction } from '../../types';
+import { ControlsController, PAUSE_BUTTON } from './Controls';
+
+// Just enough of the Gamepad API for polling
+const pad = (pressed: number[], stick = 0) => ({
+  index: 0,
+  connected: true,
+  axes: [stick, 0],
+  buttons: Array.from({ length: 17 }, (_, i) => ({ pressed: pressed.includes(i) }))
+}) as unknown as Gamepad;
+
+describe('ControlsController', () => {
+  let controls: ControlsController;
+
+  beforeEach(() => {
+    controls = new ControlsController();
+  });
+
+  it('maps the default keys regardless of case', () => {
+    expect(controls.actionForKey('ArrowLeft')).toBe(InputAction.LANE_LEFT);
+    expect(controls.actionForKey('A')).toBe(InputAction.LANE_LEFT);
+    expect(controls.actionForKey('Z')).toBe(InputAction.SONIC_BLAST);
+    expect(controls.actionForKey('q')).toBeNull();
+  });
+
+  it('slides on the down arrow, with time warp moved off it', () => {
+    expect(controls.actionForKey('ArrowDown')).toBe(InputAction.SLIDE);
+    expect(controls.actionForKey('S')).toBe(InputAction.SLIDE);
+    expect(controls.actionForKey('Shift')).toBe(InputAction.TIME_WARP);
+  });
+
+  it('moves a key that is bound elsewhere', () => {
+    controls.setKeyBinding(InputAction.SONIC_BLAST, 1, 'W');
+
+    expect(controls.actionForKey('w')).toBe(InputAction.SONIC_BLAST);
+    expect(controls.getKeys(InputAction.JUMP)).toEqual(['ArrowUp', null]);
+  });
+
+  it('keeps the pause keys and button reserved', () => {
+    expect(controls.setKeyBinding(InputAction.JUMP, 0, 'P')).toBe(false);
+    expect(controls.setButtonBinding(InputAction.JUMP, 0, PAUSE_BUTTON)).toBe(false);
+    expect(controls.getKeys(InputAction.JUMP)).toEqual(['ArrowUp', 'w']);
+  });
+
+  it('turns only fresh button presses into actions', () => {
+    expect(controls.poll([pad([0])]).actions).toEqual([InputAction.JUMP]);
+    expect(controls.poll([pad([0])]).actions).toEqual([]);
+    expect(controls.poll([pad([])]).actions).toEqual([]);
+    expect(controls.poll([pad([0, 3])]).actions).toEqual([InputAction.JUMP, InputAction.SONIC_BLAST]);
+  });
+
+  it('steers with the left stick and pauses with Start', () => {
+    expect(controls.poll([pad([], -0.9)]).actions).toEqual([InputAction.LANE_LEFT]);
+    expect(controls.poll([pad([], -0.9)]).actions).toEqual([]);
+    expect(controls.poll([pad([PAUSE_BUTTON], 0.9)])).toEqual({ actions: [InputAction.LANE_RIGHT], pause: true });
+  });
+
+  it('hands a captured button to the settings screen instead of the game', () => {
+    const captured: number[] = [];
+    controls.captureButton(button => captured.push(button));
+
+    expect(controls.poll([pad([5])]).actions).toEqual([]);
+    expect(captured).toEqual([5]);
+
+    controls.setButtonBinding(InputAction.TIME_WARP, 1, 5);
+    expect(controls.poll([pad([])]).actions).toEqual([]);
+    expect(controls.poll([pad([5])]).actions).toEqual([InputAction.TIME_WARP]);
+  });
+
+  it('restores the defaults', () => {
+    controls.setKeyBinding(InputAction.LANE_LEFT, 0, null);
+    controls.resetDefaults();
+    expect(controls.actionForKey('ArrowLeft')).toBe(InputAction.LANE_LEFT);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { InputAction } from '../../types';
+import { loadVersioned, saveVersioned } from './Storage';
+
+const CONTROLS_KEY = 'controls';
+const CONTROLS_VERSION = 2;
+
+// Every action has a primary and a secondary slot per device
+export const BINDING_SLOTS = 2;
+type Slots<T> = (T | null)[];
+
+export type KeyBindings = Record<InputAction, Slots<string>>;
+export type ButtonBindings = Record<InputAction, Slots<number>>;
+
+interface ControlsData {
+  keys: KeyBindings;
+  buttons: ButtonBindings;
+}
+
+export const DEFAULT_KEYS: KeyBindings = {
+  [InputAction.LANE_LEFT]: ['ArrowLeft', 'a'],
+  [InputAction.LANE_RIGHT]: ['ArrowRight', 'd'],
+  [InputAction.JUMP]: ['ArrowUp', 'w'],
+  [InputAction.SLIDE]: ['ArrowDown', 's'],
+  [InputAction.IMMORTALITY]: [' ', 'Enter'],
+  [InputAction.TIME_WARP]: ['Shift', 'x'],
+  [InputAction.SONIC_BLAST]: ['z', null]
+};
+
+// Button indices of the W3C "standard" gamepad mapping
+export const DEFAULT_BUTTONS: ButtonBindings = {
+  [InputAction.LANE_LEFT]: [14, null],
+  [InputAction.LANE_RIGHT]: [15, null],
+  [InputAction.JUMP]: [0, 12],
+  [InputAction.SLIDE]: [1, 13],
+  [InputAction.IMMORTALITY]: [2, null],
+  [InputAction.TIME_WARP]: [4, null],
+  [InputAction.SONIC_BLAST]: [3, null]
+};
+
+// Pause is fixed so a bad binding can never lock the player out of the menu
+export const PAUSE_KEYS = ['Escape', 'p'];
+export const PAUSE_BUTTON = 9;
+
+// The left stick always steers between lanes, on top of the button bindings
+const STICK_AXIS = 0;
+const STICK_THRESHOLD = 0.5;
+const STICK_LEFT = -1;
+const STICK_RIGHT = -2;
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'SPACE',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓'
+};
+
+const BUTTON_LABELS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'SELECT', 'START', 'L3', 'R3', 'D↑', 'D↓', 'D←', 'D→', 'HOME'];
+
+// Letters match regardless of Shift / Caps Lock
+export const normalizeKey = (key: string) => key.length === 1 ? key.toLowerCase() : key;
+
+export const formatKey = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+export const formatButton = (button: number) => BUTTON_LABELS[button] ?? `B${button}`;
+
+const copyBindings = <T>(bindings: Record<InputAction, Slots<T>>) =>
+  Object.fromEntries(Object.entries(bindings).map(([action, slots]) => [action, [...slots]])) as Record<InputAction, Slots<T>>;
+
+const defaults = (): ControlsData => ({ keys: copyBindings(DEFAULT_KEYS), buttons: copyBindings(DEFAULT_BUTTONS) });
+
+// Frees `taken` in every stored slot, so the defaults of a new action can claim it
+const release = <T>(bindings: Partial<Record<InputAction, Slots<T>>> | undefined, taken: Slots<T>) =>
+  bindings && Object.fromEntries(
+    Object.entries(bindings).map(([action, slots]) => [action, (slots as Slots<T>).map(bound => taken.includes(bound) ? null : bound)])
+  ) as Partial<Record<InputAction, Slots<T>>>;
+
+// Version 1 predates sliding, whose defaults (↓ and D-pad down) were time warp's
+const migrate = (data: any, fromVersion: number): Partial<ControlsData> | null => {
+  if (fromVersion !== 1) return null;
+  return {
+    keys: release<string>(data?.keys, DEFAULT_KEYS[InputAction.SLIDE]) as KeyBindings,
+    buttons: release<number>(data?.buttons, DEFAULT_BUTTONS[InputAction.SLIDE]) as ButtonBindings
+  };
+};
+
+export interface GamepadPoll {
+  actions: InputAction[];
+  pause: boolean;
+}
+
+const readGamepads = (): (Gamepad | null)[] => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return Array.from(navigator.getGamepads());
+};
+
+// Keyboard and gamepad bindings onto the abstract InputAction set. Gamepads
+// have no events for buttons, so they are polled once per rendered frame and
+// only the press edge of a button turns into an action.
+export class ControlsController {
+  data: ControlsData | null = null;
+  held = new Map<number, Set<number>>(); // Pad index -> buttons down last poll
+  buttonCapture: ((button: number) => void) | null = null;
+
+  // Lazy so the module can be imported where localStorage is unavailable
+  load(): ControlsData {
+    if (!this.data) {
+      const stored = loadVersioned<Partial<ControlsData>>(CONTROLS_KEY, CONTROLS_VERSION, {}, migrate);
+      // Actions added after the bindings were saved fall back to their defaults
+      const data = defaults();
+      this.data = {
+        keys: { ...data.keys, ...stored.keys },
+        buttons: { ...data.buttons, ...stored.buttons }
+      };
+    }
+    return this.data;
+  }
+
+  save() {
+    saveVersioned(CONTROLS_KEY, CONTROLS_VERSION, this.load());
+  }
+
+  getKeys(action: InputAction) {
+    return this.load().keys[action];
+  }
+
+  getButtons(action: InputAction) {
+    return this.load().buttons[action];
+  }
+
+  actionForKey(key: string): InputAction | null {
+    const normalized = normalizeKey(key);
+    const { keys } = this.load();
+    const match = Object.values(InputAction).find(action => keys[action].includes(normalized));
+    return match ?? null;
+  }
+
+  actionForButton(button: number): InputAction | null {
+    const { buttons } = this.load();
+    const match = Object.values(InputAction).find(action => buttons[action].includes(button));
+    return match ?? null;
+  }
+
+  isReservedKey(key: string) {
+    return PAUSE_KEYS.includes(normalizeKey(key));
+  }
+
+  // Binding a key that another slot already uses moves it here. Passing null
+  // clears the slot. Returns false for the reserved pause keys.
+  setKeyBinding(action: InputAction, slot: number, key: string | null): boolean {
+    if (key !== null && this.isReservedKey(key)) return false;
+    const { keys } = this.load();
+    const normalized = key === null ? null : normalizeKey(key);
+
+    if (normalized !== null) {
+      for (const other of Object.values(InputAction)) {
+        keys[other] = keys[other].map(bound => bound === normalized ? null : bound);
+      }
+    }
+    keys[action][slot] = normalized;
+    this.save();
+    return true;
+  }
+
+  setButtonBinding(action: InputAction, slot: number, button: number | null): boolean {
+    if (button === PAUSE_BUTTON) return false;
+    const { buttons } = this.load();
+
+    if (button !== null) {
+      for (const other of Object.values(InputAction)) {
+        buttons[other] = buttons[other].map(bound => bound === button ? null : bound);
+      }
+    }
+    buttons[action][slot] = button;
+    this.save();
+    return true;
+  }
+
+  resetDefaults() {
+    this.data = defaults();
+    this.save();
+  }
+
+  // Short label of the primary binding, e.g. for the HUD skill buttons
+  describe(action: InputAction) {
+    const key = this.getKeys(action).find(bound => bound !== null);
+    return key ? formatKey(key) : '-';
+  }
+
+  // The next fresh button press goes to the callback instead of the game
+  captureButton(callback: (button: number) => void) {
+    this.buttonCapture = callback;
+  }
+
+  cancelCapture() {
+    this.buttonCapture = null;
+  }
+
+  poll(pads: (Gamepad | null)[] = readGamepads()): GamepadPoll {
+    const result: GamepadPoll = { actions: [], pause: false };
+
+    for (const pad of pads) {
+      if (!pad || !pad.connected) continue;
+
+      const down = new Set<number>();
+      pad.buttons.forEach((button, index) => {
+        if (button.pressed) down.add(index);
+      });
+      const stick = pad.axes[STICK_AXIS] ?? 0;
+      if (stick <= -STICK_THRESHOLD) down.add(STICK_LEFT);
+      if (stick >= STICK_THRESHOLD) down.add(STICK_RIGHT);
+
+      const previous = this.held.get(pad.index) ?? new Set<number>();
+      this.held.set(pad.index, down);
+
+      for (const button of down) {
+        if (previous.has(button)) continue;
+
+        if (button === STICK_LEFT) result.actions.push(InputAction.LANE_LEFT);
+        else if (button === STICK_RIGHT) result.actions.push(InputAction.LANE_RIGHT);
+        else if (this.buttonCapture) {
+          const capture = this.buttonCapture;
+          this.buttonCapture = null;
+          capture(button);
+        } else if (button === PAUSE_BUTTON) result.pause = true;
+        else {
+          const action = this.actionForButton(button);
+          if (action) result.actions.push(action);
+        }
+      }
+    }
+
+    return result;
+  }
+}
+
+export const controls = new ControlsController();
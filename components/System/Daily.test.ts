@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { getWordPack } from './Words';
+import { DailyController, getDailyDate, getDailySeed, getDailyModifiers } from './Daily';
+
+describe('daily course', () => {
+  it('names days by their UTC date', () => {
+    expect(getDailyDate(new Date('2026-03-01T23:30:00Z'))).toBe('2026-03-01');
+    expect(getDailyDate(new Date('2026-03-01T23:30:00-05:00'))).toBe('2026-03-02');
+  });
+
+  it('gives every day its own fixed seed', () => {
+    expect(getDailySeed('2026-03-01')).toBe(getDailySeed('2026-03-01'));
+    expect(getDailySeed('2026-03-01')).not.toBe(getDailySeed('2026-03-02'));
+  });
+
+  it('rolls the same modifiers from the same seed', () => {
+    const seed = getDailySeed('2026-03-01');
+    const modifiers = getDailyModifiers(seed);
+
+    expect(getDailyModifiers(seed)).toEqual(modifiers);
+    expect(getWordPack(modifiers.wordChoice.packId).id).toBe(modifiers.wordChoice.packId);
+    expect(modifiers.lives).toBeGreaterThanOrEqual(2);
+    expect(modifiers.lives).toBeLessThanOrEqual(4);
+  });
+});
+
+describe('DailyController', () => {
+  it('keeps the best score and attempts per day', () => {
+    const results = new DailyController();
+    results.startAttempt('2026-03-01');
+    expect(results.submit('2026-03-01', 500, false)).toBe(true);
+    results.startAttempt('2026-03-01');
+    expect(results.submit('2026-03-01', 300, true)).toBe(false);
+    results.startAttempt('2026-03-02');
+
+    expect(results.getResult('2026-03-01')).toEqual({ best: 500, attempts: 2, cleared: true });
+    expect(results.getResult('2026-03-02')).toEqual({ best: 0, attempts: 1, cleared: false });
+    expect(results.getResult('2026-03-03')).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { SeededRandom } from './Random';
+import { WordChoice, WORD_PACKS } from './Words';
+import { Inventory, ItemId } from './Items';
+import { loadVersioned, saveVersioned } from './Storage';
+
+// The daily challenge: one course per calendar day. The seed and the run
+// modifiers are derived from the date alone, so everyone playing on the same
+// day gets the same course, the same shop rolls and the same start.
+
+const DAILY_KEY = 'daily';
+const DAILY_VERSION = 1;
+const MAX_DAYS = 366; // Older results are dropped
+
+export const DAILY_LEVELS = 5;
+
+// Items a daily run may start with
+const STARTING_ITEMS: ItemId[] = ['SHIELD', 'MAGNET', 'DOUBLE_JUMP', 'GEM_BOOSTER', 'DRONE'];
+
+export interface DailyModifiers {
+  wordChoice: WordChoice;
+  lives: number;
+  currency: number; // Gems to start with
+  item: ItemId | null; // Owned from the start
+}
+
+export interface DailyResult {
+  best: number;
+  attempts: number;
+  cleared: boolean; // Any attempt reached the last level's end
+}
+
+// Days are UTC dates (YYYY-MM-DD), so the course changes at the same moment everywhere
+export const getDailyDate = (date: Date = new Date()) => date.toISOString().slice(0, 10);
+
+// FNV-1a over the date string
+export const getDailySeed = (day: string) => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < day.length; i++) {
+    hash ^= day.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Rolled from the run seed, so a replay of a daily run starts the same way
+export const getDailyModifiers = (seed: number): DailyModifiers => {
+  // Own stream: the course and shop streams are left untouched
+  const rng = new SeededRandom(seed ^ 0x5BD1E995);
+  const pack = rng.pick(WORD_PACKS);
+  return {
+    wordChoice: { packId: pack.id, wordIndex: pack.words.length > 1 ? null : 0 },
+    lives: rng.int(2, 4),
+    currency: rng.int(0, 4) * 50,
+    item: rng.next() < 0.5 ? rng.pick(STARTING_ITEMS) : null
+  };
+};
+
+export const getDailyInventory = (modifiers: DailyModifiers): Inventory =>
+  modifiers.item ? { [modifiers.item]: 1 } : {};
+
+export class DailyController {
+  data: Record<string, DailyResult> | null = null;
+
+  // Lazy so the module can be imported where localStorage is unavailable
+  load(): Record<string, DailyResult> {
+    if (!this.data) {
+      this.data = loadVersioned<Record<string, DailyResult>>(DAILY_KEY, DAILY_VERSION, {});
+    }
+    return this.data;
+  }
+
+  getResult(day: string): DailyResult | null {
+    return this.load()[day] ?? null;
+  }
+
+  // Counted when the run starts, so abandoned attempts count too
+  startAttempt(day: string) {
+    const data = this.load();
+    const result = data[day] ?? { best: 0, attempts: 0, cleared: false };
+    data[day] = { ...result, attempts: result.attempts + 1 };
+    this.save();
+  }
+
+  // Returns whether the score is a new best for the day
+  submit(day: string, score: number, cleared: boolean): boolean {
+    const data = this.load();
+    const result = data[day] ?? { best: 0, attempts: 1, cleared: false };
+    const isBest = score > result.best;
+    data[day] = { best: Math.max(result.best, score), attempts: result.attempts, cleared: result.cleared || cleared };
+    this.save();
+    return isBest;
+  }
+
+  private save() {
+    const data = this.load();
+    const days = Object.keys(data).sort();
+    days.slice(0, Math.max(0, days.length - MAX_DAYS)).forEach(day => delete data[day]);
+    saveVersioned(DAILY_KEY, DAILY_VERSION, data);
+  }
+}
+
+export const daily = new DailyController();
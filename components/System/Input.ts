@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { InputAction } from '../../types';
+
+// Live input is queued here by the keyboard / touch / HUD handlers and only
+// applied at the next simulation tick, so its effect never depends on when
+// in a frame the browser delivered the event.
+export class InputQueue {
+  pending: InputAction[] = [];
+
+  push(action: InputAction) {
+    this.pending.push(action);
+  }
+
+  drain(): InputAction[] {
+    const actions = this.pending;
+    this.pending = [];
+    return actions;
+  }
+
+  clear() {
+    this.pending = [];
+  }
+}
+
+export const input = new InputQueue();
@@ -0,0 +1,275 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ArrowUpCircle, Activity, PlusCircle, Shield, Magnet, Disc, Clock, Sparkles, Clover, Radio, Bot, Cross, CreditCard, Trophy } from 'lucide-react';
+import { ShopItem } from '../../types';
+import type { GameState } from '../../store';
+import { SeededRandom } from './Random';
+
+export type ItemId =
+  | 'DOUBLE_JUMP'
+  | 'MAX_LIFE'
+  | 'HEAL'
+  | 'IMMORTAL'
+  | 'MAGNET'
+  | 'SHIELD'
+  | 'TIME_WARP'
+  | 'GEM_BOOSTER'
+  | 'LUCK_CHARM'
+  | 'SONIC_BLAST'
+  | 'DRONE'
+  | 'REVIVE'
+  | 'DISCOUNT'
+  | 'EXCHANGE';
+
+// Owned stack per item. Items without a maxStack are applied on purchase and never stored.
+export type Inventory = Partial<Record<ItemId, number>>;
+
+// Runtime effects of an owned item. Multipliers from several items stack.
+export interface ItemHooks {
+  gemMultiplier?: (stack: number) => number;
+  priceMultiplier?: (stack: number) => number;
+  obstacleChance?: (stack: number) => number;
+  extraJumps?: (stack: number) => number;
+  magnet?: (stack: number) => { range: number; speed: number };
+  absorbsHit?: boolean; // Spends one stack instead of a life
+  revives?: boolean; // Spends one stack to refill lives on a lethal hit
+}
+
+export interface ItemDefinition extends ShopItem {
+  id: ItemId;
+  inShop?: boolean; // false = never rolled into the shop lineup
+  blockedLabel?: string; // Shown when canBuy() fails
+  shopName?: (stack: number) => string;
+  price?: (state: GameState) => number; // Overrides cost (and discounts)
+  canBuy?: (state: GameState) => boolean;
+  onPurchase?: (state: GameState) => Partial<GameState>;
+  hooks?: ItemHooks;
+  accent?: string; // Tailwind classes for inventory icons and badges
+  badge?: (stack: number) => string; // In-run indicator label for passive items
+}
+
+export const ITEMS: ItemDefinition[] = [
+  {
+    id: 'DOUBLE_JUMP',
+    name: 'ダブルジャンプ',
+    description: '空中で2回目のジャンプが可能になる。',
+    cost: 200,
+    icon: ArrowUpCircle,
+    maxStack: 1,
+    accent: 'text-blue-400 bg-blue-900/30 border-blue-500/50',
+    hooks: { extraJumps: () => 1 }
+  },
+  {
+    id: 'MAX_LIFE',
+    name: '最大ライフUP',
+    description: 'ハートの最大値を1つ増やす (最大10)。',
+    cost: 300,
+    icon: Activity,
+    canBuy: state => state.maxLives < 10,
+    onPurchase: state => ({ maxLives: state.maxLives + 1, lives: state.lives + 1 })
+  },
+  {
+    id: 'HEAL',
+    name: '修理キット',
+    description: 'ライフを1つ回復する。',
+    cost: 100,
+    icon: PlusCircle,
+    blockedLabel: 'MAX LIFE',
+    canBuy: state => state.lives < state.maxLives,
+    onPurchase: state => ({ lives: Math.min(state.lives + 1, state.maxLives) })
+  },
+  {
+    id: 'IMMORTAL',
+    name: '無敵モード',
+    description: 'スペース/タップで2.5秒間無敵 (クールダウン30秒)。',
+    cost: 600,
+    icon: Shield,
+    maxStack: 1,
+    accent: 'text-yellow-400 bg-yellow-900/30 border-yellow-500/50',
+    onPurchase: () => ({ lastImmortalTime: -Infinity }) // Ready to use right away
+  },
+  {
+    id: 'MAGNET',
+    name: 'マグネット',
+    description: 'LvUPで範囲と速度UP (最大Lv5)。',
+    cost: 400,
+    icon: Magnet,
+    maxStack: 5,
+    shopName: level => `マグネット (Lv.${level + 1})`,
+    hooks: {
+      // Range: Lv1=10, Lv2=15, Lv3=20, Lv4=25, Lv5=35. Speed: 4 to 12.
+      magnet: level => ({ range: 5 + (level * 5) + (level === 5 ? 5 : 0), speed: 2 + (level * 2) })
+    },
+    accent: 'text-pink-400 bg-pink-900/30 border-pink-500/50',
+    badge: level => `マグネット Lv.${level}`
+  },
+  {
+    id: 'SHIELD',
+    name: 'エネルギーシールド',
+    description: 'ダメージを1回防ぐ (最大3つまで保持)。',
+    cost: 150,
+    icon: Disc,
+    maxStack: 3,
+    hooks: { absorbsHit: true },
+    accent: 'text-cyan-400 bg-cyan-900/30 border-cyan-500/50',
+    badge: count => `シールド x${count}`
+  },
+  {
+    id: 'TIME_WARP',
+    name: 'タイムワープ',
+    description: 'Shiftキーで5秒間時間を遅くする (解放スキル)。',
+    cost: 500,
+    icon: Clock,
+    maxStack: 1,
+    accent: 'text-purple-400 bg-purple-900/30 border-purple-500/50'
+  },
+  {
+    id: 'GEM_BOOSTER',
+    name: 'ジェムブースター',
+    description: '獲得するジェムの価値が2倍になる。',
+    cost: 800,
+    icon: Sparkles,
+    maxStack: 1,
+    hooks: { gemMultiplier: () => 2 },
+    accent: 'text-yellow-400 bg-yellow-900/30 border-yellow-500/50',
+    badge: () => 'ブースター'
+  },
+  {
+    id: 'LUCK_CHARM',
+    name: 'ラックチャーム',
+    description: '障害物が減り、ジェムが出やすくなる。',
+    cost: 400,
+    icon: Clover,
+    maxStack: 1,
+    hooks: { obstacleChance: () => 0.8 },
+    accent: 'text-green-400 bg-green-900/30 border-green-500/50',
+    badge: () => 'お守り'
+  },
+  {
+    id: 'SONIC_BLAST',
+    name: 'ソニックブラスト',
+    description: 'Zキーで前方の敵を一掃 (15秒毎)。',
+    cost: 1000,
+    icon: Radio,
+    maxStack: 1,
+    accent: 'text-orange-400 bg-orange-900/30 border-orange-500/50',
+    onPurchase: () => ({ lastSonicBlastTime: -Infinity })
+  },
+  {
+    id: 'DRONE',
+    name: 'アタックドローン',
+    description: '前方の敵を自動攻撃するドローンを配備。',
+    cost: 6000,
+    icon: Bot,
+    maxStack: 1,
+    accent: 'text-red-400 bg-red-900/30 border-red-500/50',
+    badge: () => 'ドローン'
+  },
+  {
+    id: 'REVIVE',
+    name: '蘇生アンク',
+    description: '死亡時に一度だけ自動で復活する。',
+    cost: 4000,
+    icon: Cross,
+    maxStack: 1, // Consumed on use, can be bought again afterwards
+    hooks: { revives: true },
+    accent: 'text-purple-400 bg-purple-900/30 border-purple-500/50',
+    badge: () => '蘇生アンク'
+  },
+  {
+    id: 'DISCOUNT',
+    name: 'VIPカード',
+    description: 'ショップ価格が永久に20%OFFになる。',
+    cost: 8000,
+    icon: CreditCard,
+    maxStack: 1,
+    accent: 'text-yellow-400 bg-yellow-900/30 border-yellow-500/50',
+    hooks: { priceMultiplier: () => 0.8 }
+  },
+  {
+    // Filler for empty shop slots
+    id: 'EXCHANGE',
+    name: 'スコア換金',
+    description: '全ジェムをスコアに変換 (1ジェム=100点)',
+    cost: 0,
+    icon: Trophy,
+    inShop: false,
+    blockedLabel: 'EMPTY',
+    price: state => state.currency,
+    canBuy: state => state.currency > 0,
+    onPurchase: state => ({ score: state.score + (state.currency * 100) })
+  }
+];
+
+const ITEMS_BY_ID = new Map<string, ItemDefinition>(ITEMS.map(item => [item.id, item]));
+
+export const getItem = (id: string) => ITEMS_BY_ID.get(id);
+
+export const getStack = (inventory: Inventory, id: ItemId) => inventory[id] ?? 0;
+
+export const hasItem = (inventory: Inventory, id: ItemId) => getStack(inventory, id) > 0;
+
+const ownedItems = (inventory: Inventory) => ITEMS.filter(item => hasItem(inventory, item.id));
+
+type MultiplierHook = 'gemMultiplier' | 'priceMultiplier' | 'obstacleChance';
+
+export const itemMultiplier = (inventory: Inventory, hook: MultiplierHook) =>
+  ownedItems(inventory).reduce((total, item) => {
+    const modifier = item.hooks?.[hook];
+    return modifier ? total * modifier(getStack(inventory, item.id)) : total;
+  }, 1);
+
+export const extraJumps = (inventory: Inventory) =>
+  ownedItems(inventory).reduce((total, item) => total + (item.hooks?.extraJumps?.(getStack(inventory, item.id)) ?? 0), 0);
+
+export const getMagnet = (inventory: Inventory) => {
+  const item = ownedItems(inventory).find(owned => owned.hooks?.magnet);
+  return item ? item.hooks!.magnet!(getStack(inventory, item.id)) : null;
+};
+
+// First owned item with the given flag, e.g. the shield that soaks the next hit
+export const findItemWith = (inventory: Inventory, flag: 'absorbsHit' | 'revives') =>
+  ownedItems(inventory).find(item => item.hooks?.[flag]);
+
+export const consumeItem = (inventory: Inventory, id: ItemId): Inventory => ({
+  ...inventory,
+  [id]: Math.max(0, getStack(inventory, id) - 1)
+});
+
+export const getItemPrice = (item: ItemDefinition, state: GameState) =>
+  item.price ? item.price(state) : Math.floor(item.cost * itemMultiplier(state.inventory, 'priceMultiplier'));
+
+// Why the item cannot be bought right now, or null if it can (money aside)
+export const getBlockReason = (item: ItemDefinition, state: GameState): string | null => {
+  if (item.requires && !hasItem(state.inventory, item.requires as ItemId)) return 'LOCKED';
+  if (item.maxStack && getStack(state.inventory, item.id) >= item.maxStack) {
+    return item.maxStack === 1 ? 'SOLD' : 'MAX';
+  }
+  if (item.canBuy && !item.canBuy(state)) return item.blockedLabel ?? 'MAX';
+  return null;
+};
+
+// Candidates for the shop lineup
+export const getShopPool = (state: GameState) =>
+  ITEMS.filter(item => item.inShop !== false && getBlockReason(item, state) === null);
+
+const SHOP_SLOTS = 3;
+
+// Lineup for one shop visit: a shuffle of the pool (on the seeded shop stream,
+// so a shared seed reproduces it), topped up with Score Exchange
+export const rollShopLineup = (state: GameState, rng: SeededRandom): ItemId[] => {
+  const lineup = rng.shuffle(getShopPool(state)).slice(0, SHOP_SLOTS).map(item => item.id);
+  while (lineup.length < SHOP_SLOTS) lineup.push('EXCHANGE');
+  return lineup;
+};
+
+// Cheat mode starts with every item at its cap
+export const fullInventory = (): Inventory =>
+  ITEMS.reduce<Inventory>((inventory, item) => {
+    if (item.maxStack) inventory[item.id] = item.maxStack;
+    return inventory;
+  }, {});
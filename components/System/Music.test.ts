@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { GameStatus, RUN_SPEED_BASE } from '../../types';
+import { MUSIC_PATTERNS, patternForStatus, tempoFor } from './Music';
+
+describe('music patterns', () => {
+  it('are one bar of 16 steps per track', () => {
+    for (const pattern of Object.values(MUSIC_PATTERNS)) {
+      expect(pattern.bass).toHaveLength(16);
+      for (const track of [pattern.kick, pattern.snare, pattern.hat]) {
+        expect(track).toMatch(/^[x.]{16}$/);
+      }
+    }
+  });
+
+  it('keeps the run track through a pause and is silent in menus', () => {
+    expect(patternForStatus(GameStatus.PLAYING)).toBe('RUN');
+    expect(patternForStatus(GameStatus.PAUSED)).toBe('RUN');
+    expect(patternForStatus(GameStatus.SHOP)).toBe('SHOP');
+    expect(patternForStatus(GameStatus.VICTORY)).toBe('VICTORY');
+    expect(patternForStatus(GameStatus.MENU)).toBeNull();
+  });
+
+  it('speeds up with the run, within limits', () => {
+    const run = MUSIC_PATTERNS.RUN;
+    expect(tempoFor(run, 0)).toBe(run.bpm);
+    expect(tempoFor(run, RUN_SPEED_BASE)).toBeCloseTo(run.bpm);
+    expect(tempoFor(run, RUN_SPEED_BASE * 1.5)).toBeGreaterThan(run.bpm);
+    expect(tempoFor(run, RUN_SPEED_BASE * 100)).toBe(160);
+  });
+});
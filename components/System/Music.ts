@@ -0,0 +1,334 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameStatus, RUN_SPEED_BASE } from '../../types';
+
+// Procedural synthwave soundtrack. Everything is synthesized from oscillators
+// and a noise buffer, scheduled a little ahead of time with the usual Web
+// Audio lookahead loop so timer jitter never shifts a note.
+
+export type MusicPatternId = 'RUN' | 'SHOP' | 'GAME_OVER' | 'VICTORY';
+
+export interface MusicPattern {
+  bpm: number; // Tempo at base run speed
+  root: number; // MIDI note of the key
+  chords: number[][]; // One chord per bar, semitones above root
+  bass: (number | null)[]; // 16 steps, semitones above the chord root
+  arpOctave: number; // Octaves above root for the arpeggio, 0 = no arpeggio
+  arpRate: number; // Steps per arpeggio note
+  kick: string; // 16 steps, 'x' = hit
+  snare: string;
+  hat: string;
+}
+
+const STEPS_PER_BAR = 16;
+
+export const MUSIC_PATTERNS: Record<MusicPatternId, MusicPattern> = {
+  RUN: {
+    bpm: 112,
+    root: 33, // A1
+    chords: [[0, 3, 7, 10], [-4, 0, 3, 7], [-7, -3, 0, 5], [-2, 2, 5, 9]], // Am7 Fmaj7 Dm7 G
+    bass: [0, null, 12, 0, null, 0, 12, null, 0, null, 12, 0, null, 0, 12, 7],
+    arpOctave: 3,
+    arpRate: 1,
+    kick: 'x...x...x...x...',
+    snare: '....x.......x...',
+    hat: '..x...x...x...xx'
+  },
+  SHOP: {
+    bpm: 92,
+    root: 36, // C2
+    chords: [[0, 4, 7, 11], [-3, 0, 4, 7], [5, 9, 12, 16], [7, 11, 14, 17]], // Cmaj7 Am F G7
+    bass: [0, null, null, null, 7, null, null, null, 0, null, null, 12, null, null, 7, null],
+    arpOctave: 2,
+    arpRate: 2,
+    kick: 'x.......x.......',
+    snare: '........x.......',
+    hat: 'x.x.x.x.x.x.x.x.'
+  },
+  GAME_OVER: {
+    bpm: 70,
+    root: 33, // A1
+    chords: [[0, 3, 7], [-4, 0, 3], [-7, -3, 0], [-5, -1, 2]], // Am F Dm E
+    bass: [0, null, null, null, null, null, null, null, null, null, null, null, null, null, null, null],
+    arpOctave: 2,
+    arpRate: 4,
+    kick: '................',
+    snare: '................',
+    hat: '................'
+  },
+  VICTORY: {
+    bpm: 128,
+    root: 36, // C2
+    chords: [[0, 4, 7, 12], [5, 9, 12, 17], [7, 11, 14, 19], [0, 4, 7, 12]], // C F G C
+    bass: [0, null, 0, null, 12, null, 0, null, 0, null, 0, null, 12, null, 7, null],
+    arpOctave: 3,
+    arpRate: 1,
+    kick: 'x...x...x...x...',
+    snare: '....x.......x.x.',
+    hat: 'xxxxxxxxxxxxxxxx'
+  }
+};
+
+// What should be playing for a game status; null = silence
+export const patternForStatus = (status: GameStatus): MusicPatternId | null => {
+  switch (status) {
+    case GameStatus.PLAYING:
+    case GameStatus.PAUSED:
+      return 'RUN';
+    case GameStatus.SHOP: return 'SHOP';
+    case GameStatus.GAME_OVER: return 'GAME_OVER';
+    case GameStatus.VICTORY: return 'VICTORY';
+    default: return null;
+  }
+};
+
+// The run track speeds up with the player, gently and within reason
+export const tempoFor = (pattern: MusicPattern, speed: number) => {
+  if (speed <= 0) return pattern.bpm;
+  const bpm = pattern.bpm * Math.sqrt(speed / RUN_SPEED_BASE);
+  return Math.min(160, Math.max(pattern.bpm * 0.8, bpm));
+};
+
+export interface MusicState {
+  status: GameStatus;
+  speed: number;
+  isTimeWarpActive: boolean;
+}
+
+const midiToFreq = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+const LOOKAHEAD = 0.12; // Seconds scheduled ahead of the clock
+const SCHEDULE_INTERVAL = 25; // ms
+const CROSSFADE = 1.5; // Seconds
+const OPEN_CUTOFF = 16000;
+const WARP_CUTOFF = 700;
+
+interface Layer {
+  id: MusicPatternId;
+  gain: GainNode;
+  step: number;
+  nextTime: number;
+  endTime: number | null; // Set once the layer is fading out
+}
+
+export class MusicSequencer {
+  ctx: AudioContext | null = null;
+  filter: BiquadFilterNode | null = null;
+  bus: GainNode | null = null; // Ducked to silence while paused
+  noise: AudioBuffer | null = null;
+  layers: Layer[] = [];
+  timer: ReturnType<typeof setInterval> | null = null;
+
+  tempo = MUSIC_PATTERNS.RUN.bpm;
+  halfTime = false;
+  paused = false;
+
+  // Called by the AudioController once its context exists
+  attach(ctx: AudioContext, output: AudioNode) {
+    if (this.ctx) return;
+    this.ctx = ctx;
+
+    this.filter = ctx.createBiquadFilter();
+    this.filter.type = 'lowpass';
+    this.filter.frequency.value = OPEN_CUTOFF;
+    this.bus = ctx.createGain();
+    this.filter.connect(this.bus);
+    this.bus.connect(output);
+
+    const length = ctx.sampleRate;
+    this.noise = ctx.createBuffer(1, length, ctx.sampleRate);
+    const data = this.noise.getChannelData(0);
+    for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+  }
+
+  sync({ status, speed, isTimeWarpActive }: MusicState) {
+    if (!this.ctx || !this.filter || !this.bus) return;
+    const t = this.ctx.currentTime;
+    const id = patternForStatus(status);
+
+    const current = this.layers.find(layer => layer.endTime === null);
+    if (current?.id !== id) {
+      if (current) this.fadeOut(current, t);
+      if (id) this.layers.push(this.createLayer(id, t));
+    }
+
+    if (id) this.tempo = tempoFor(MUSIC_PATTERNS[id], speed);
+
+    // Time warp: half-time groove behind a lowpass filter
+    const halfTime = isTimeWarpActive && status === GameStatus.PLAYING;
+    if (halfTime !== this.halfTime) {
+      this.halfTime = halfTime;
+      this.filter.frequency.setTargetAtTime(halfTime ? WARP_CUTOFF : OPEN_CUTOFF, t, 0.15);
+    }
+
+    const paused = status === GameStatus.PAUSED;
+    if (paused !== this.paused) {
+      this.paused = paused;
+      this.bus.gain.setTargetAtTime(paused ? 0 : 1, t, 0.08);
+      // Pick the groove back up from now instead of catching up on missed steps
+      if (!paused) this.layers.forEach(layer => { layer.nextTime = t + 0.05; });
+    }
+
+    this.updateTimer();
+  }
+
+  createLayer(id: MusicPatternId, t: number): Layer {
+    const gain = this.ctx!.createGain();
+    gain.gain.setValueAtTime(0.0001, t);
+    gain.gain.exponentialRampToValueAtTime(1, t + CROSSFADE);
+    gain.connect(this.filter!);
+    return { id, gain, step: 0, nextTime: t + 0.05, endTime: null };
+  }
+
+  fadeOut(layer: Layer, t: number) {
+    layer.gain.gain.cancelScheduledValues(t);
+    layer.gain.gain.setValueAtTime(Math.max(0.0001, layer.gain.gain.value), t);
+    layer.gain.gain.exponentialRampToValueAtTime(0.0001, t + CROSSFADE);
+    layer.endTime = t + CROSSFADE;
+  }
+
+  updateTimer() {
+    if (this.layers.length > 0 && !this.timer) {
+      this.timer = setInterval(() => this.schedule(), SCHEDULE_INTERVAL);
+    } else if (this.layers.length === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  stepDuration() {
+    return (60 / this.tempo / 4) * (this.halfTime ? 2 : 1);
+  }
+
+  schedule() {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+
+    this.layers = this.layers.filter(layer => {
+      if (layer.endTime !== null && t >= layer.endTime) {
+        layer.gain.disconnect();
+        return false;
+      }
+      return true;
+    });
+
+    if (!this.paused) {
+      for (const layer of this.layers) {
+        while (layer.nextTime < t + LOOKAHEAD) {
+          if (layer.endTime === null || layer.nextTime < layer.endTime) {
+            this.playStep(layer, layer.nextTime);
+          }
+          layer.step++;
+          layer.nextTime += this.stepDuration();
+        }
+      }
+    }
+
+    this.updateTimer();
+  }
+
+  playStep(layer: Layer, time: number) {
+    const pattern = MUSIC_PATTERNS[layer.id];
+    const step = layer.step % STEPS_PER_BAR;
+    const bar = Math.floor(layer.step / STEPS_PER_BAR) % pattern.chords.length;
+    const chord = pattern.chords[bar];
+    const duration = this.stepDuration();
+
+    const bass = pattern.bass[step];
+    if (bass !== null) this.playBass(layer.gain, midiToFreq(pattern.root + chord[0] + bass), time, duration);
+
+    if (pattern.arpOctave > 0 && step % pattern.arpRate === 0) {
+      const tone = chord[(step / pattern.arpRate) % chord.length];
+      this.playArp(layer.gain, midiToFreq(pattern.root + 12 * pattern.arpOctave + tone), time, duration * pattern.arpRate);
+    }
+
+    if (pattern.kick[step] === 'x') this.playKick(layer.gain, time);
+    if (pattern.snare[step] === 'x') this.playNoise(layer.gain, time, 'bandpass', 1800, 0.35, 0.18);
+    // Hats drop out of the half-time variant
+    if (pattern.hat[step] === 'x' && !this.halfTime) this.playNoise(layer.gain, time, 'highpass', 8000, 0.12, 0.05);
+  }
+
+  playBass(output: AudioNode, freq: number, time: number, duration: number) {
+    const ctx = this.ctx!;
+    const osc = ctx.createOscillator();
+    const filter = ctx.createBiquadFilter();
+    const gain = ctx.createGain();
+
+    osc.type = 'sawtooth';
+    osc.frequency.value = freq;
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(1200, time);
+    filter.frequency.exponentialRampToValueAtTime(200, time + duration);
+
+    gain.gain.setValueAtTime(0.25, time);
+    gain.gain.exponentialRampToValueAtTime(0.01, time + duration * 0.95);
+
+    osc.connect(filter);
+    filter.connect(gain);
+    gain.connect(output);
+    osc.start(time);
+    osc.stop(time + duration);
+  }
+
+  playArp(output: AudioNode, freq: number, time: number, duration: number) {
+    const ctx = this.ctx!;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = 'square';
+    osc.frequency.value = freq;
+
+    gain.gain.setValueAtTime(0.06, time);
+    gain.gain.exponentialRampToValueAtTime(0.005, time + duration * 0.9);
+
+    osc.connect(gain);
+    gain.connect(output);
+    osc.start(time);
+    osc.stop(time + duration);
+  }
+
+  playKick(output: AudioNode, time: number) {
+    const ctx = this.ctx!;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(140, time);
+    osc.frequency.exponentialRampToValueAtTime(40, time + 0.12);
+
+    gain.gain.setValueAtTime(0.6, time);
+    gain.gain.exponentialRampToValueAtTime(0.01, time + 0.2);
+
+    osc.connect(gain);
+    gain.connect(output);
+    osc.start(time);
+    osc.stop(time + 0.2);
+  }
+
+  playNoise(output: AudioNode, time: number, type: BiquadFilterType, frequency: number, volume: number, duration: number) {
+    const ctx = this.ctx!;
+    const source = ctx.createBufferSource();
+    const filter = ctx.createBiquadFilter();
+    const gain = ctx.createGain();
+
+    source.buffer = this.noise;
+    filter.type = type;
+    filter.frequency.value = frequency;
+
+    gain.gain.setValueAtTime(volume, time);
+    gain.gain.exponentialRampToValueAtTime(0.01, time + duration);
+
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(output);
+    // Random offset so consecutive hits do not sound identical
+    source.start(time, Math.random() * 0.5);
+    source.stop(time + duration);
+  }
+}
+
+export const music = new MusicSequencer();
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { ObjectType } from '../../types';
+import { ObjectPool } from './Pool';
+
+describe('ObjectPool', () => {
+  it('reuses released slots', () => {
+    const pool = new ObjectPool();
+    const gem = pool.acquire(ObjectType.GEM, 0, 1.2, -100);
+    pool.release(gem);
+
+    expect(pool.acquire(ObjectType.OBSTACLE, 2, 0.8, -50)).toBe(gem);
+    expect(pool.available).toBe(0);
+  });
+
+  it('clears everything a slot was used for', () => {
+    const pool = new ObjectPool();
+    const letter = pool.acquire(ObjectType.LETTER, 0, 1, -100);
+    Object.assign(letter, { value: 'G', color: '#ff0000', targetIndex: 0, active: false });
+    const { id } = letter;
+    pool.release(letter);
+
+    const obstacle = pool.acquire(ObjectType.OBSTACLE, 2, 0.8, -50);
+    expect(obstacle).toEqual({
+      ...obstacle,
+      type: ObjectType.OBSTACLE,
+      position: [2, 0.8, -50],
+      active: true,
+      value: undefined,
+      color: undefined,
+      targetIndex: undefined
+    });
+    expect(obstacle.id).not.toBe(id);
+  });
+});
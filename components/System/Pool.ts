@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, ObjectType } from '../../types';
+
+// Recycled GameObject slots. Objects that leave the track go back to the
+// pool and the spawner takes them out again, so a long run allocates a few
+// hundred objects once instead of a fresh one (and a uuid) per spawn.
+
+type ObjectExtras = Omit<GameObject, 'id' | 'type' | 'position' | 'active'>;
+
+// Every optional field, so a recycled slot keeps nothing of its last use
+const CLEARED: Record<keyof ObjectExtras, undefined> = {
+  value: undefined,
+  color: undefined,
+  targetIndex: undefined,
+  points: undefined,
+  hasFired: undefined,
+  isCharge: undefined,
+  targetX: undefined,
+  strafes: undefined,
+  sweepDirection: undefined
+};
+
+export class ObjectPool {
+  private free: GameObject[] = [];
+  private nextId = 0;
+
+  // A fresh, active object. Ids stay unique per spawn, not per slot.
+  acquire(type: ObjectType, x: number, y: number, z: number): GameObject {
+    const id = `obj-${this.nextId++}`;
+    const obj = this.free.pop();
+    if (!obj) return { id, type, position: [x, y, z], active: true };
+
+    Object.assign(obj, CLEARED);
+    obj.id = id;
+    obj.type = type;
+    obj.position[0] = x;
+    obj.position[1] = y;
+    obj.position[2] = z;
+    obj.active = true;
+    return obj;
+  }
+
+  // The caller must drop every reference to obj
+  release(obj: GameObject) {
+    this.free.push(obj);
+  }
+
+  get available() {
+    return this.free.length;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { ObjectType } from '../../types';
+import { ProfilerController, HISTORY_SIZE } from './Profiler';
+
+const info = { drawCalls: 10, triangles: 1000, geometries: 5, objects: { [ObjectType.GEM]: 2 } };
+
+describe('ProfilerController', () => {
+  it('keeps the latest frame times, oldest first', () => {
+    const profiler = new ProfilerController();
+    for (let i = 0; i < HISTORY_SIZE + 10; i++) profiler.sample(i, i, info);
+
+    const history = profiler.history();
+    expect(history).toHaveLength(HISTORY_SIZE);
+    expect(history[0]).toBe(10);
+    expect(history[HISTORY_SIZE - 1]).toBe(HISTORY_SIZE + 9);
+  });
+
+  it('records frames and the commits made during the recording', () => {
+    const profiler = new ProfilerController();
+    profiler.enabled = true;
+    profiler.onRender('HUD', 'update', 2);
+    profiler.sample(0, 16, info);
+
+    profiler.startRecording(100, 'high');
+    profiler.onRender('HUD', 'update', 3);
+    profiler.onRender('Player', 'mount', 1);
+    profiler.particles = 40;
+    profiler.sample(116, 16, info);
+    profiler.sample(133, 17, info);
+    const trace = profiler.stopRecording()!;
+
+    expect(profiler.isRecording).toBe(false);
+    expect(trace.quality).toBe('high');
+    expect(trace.frames.map(frame => frame.time)).toEqual([16, 33]);
+    expect(trace.frames.map(frame => frame.commits)).toEqual([2, 0]);
+    expect(trace.frames[0].particles).toBe(40);
+    expect(trace.commits).toEqual({ HUD: { count: 1, duration: 3 }, Player: { count: 1, duration: 1 } });
+  });
+
+  it('ignores commits while the overlay is closed', () => {
+    const profiler = new ProfilerController();
+    profiler.onRender('HUD', 'mount', 2);
+
+    expect(profiler.commits).toEqual({});
+    expect(profiler.commitsAvailable).toBe(true);
+  });
+
+  it('marks commits as uncounted when no profiler ever reported', () => {
+    const profiler = new ProfilerController();
+    profiler.startRecording(0, 'high');
+    profiler.sample(16, 16, info);
+    const trace = profiler.stopRecording()!;
+
+    expect(trace.frames[0].commits).toBeNull();
+    expect(trace.commits).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { ObjectType } from '../../types';
+
+const TRACE_VERSION = 2;
+export const HISTORY_SIZE = 240; // Frames kept for the graphs, ~4 s at 60 fps
+const MAX_TRACE_FRAMES = 60 * 60 * 10; // Recording stops itself after ~10 minutes
+
+export type ObjectCounts = Partial<Record<ObjectType, number>>;
+
+export interface FrameSample {
+  time: number; // ms since recording started (or since the page loaded outside a recording)
+  frameTime: number; // ms
+  drawCalls: number;
+  triangles: number;
+  geometries: number;
+  objects: ObjectCounts; // Active track objects
+  particles: number; // Live particles
+  commits: number | null; // React commits since the previous frame; null where they cannot be counted
+}
+
+export interface CommitStats {
+  count: number;
+  duration: number; // ms spent rendering, summed
+}
+
+export interface PerfTrace {
+  version: number;
+  recordedAt: string;
+  userAgent: string;
+  quality: string;
+  frames: FrameSample[];
+  commits: Record<string, CommitStats> | null; // Per React profiler id, over the recording; null where they cannot be counted
+}
+
+// Collects per-frame performance numbers for the developer overlay: frame
+// times, what the renderer drew and how often React committed. A recording
+// keeps every frame so two builds can be compared from the downloaded traces.
+export class ProfilerController {
+  frameTimes = new Float32Array(HISTORY_SIZE);
+  cursor = 0;
+  frames = 0;
+  latest: FrameSample | null = null;
+  particles = 0; // Written by the particle system every frame
+  commits: Record<string, CommitStats> = {};
+  pendingCommits = 0;
+
+  recording: FrameSample[] | null = null;
+  recordingStart = 0;
+  recordingQuality = '';
+  commitsAtStart: Record<string, CommitStats> = {};
+
+  enabled = false; // Commits are only counted while the overlay is open
+  reported = false; // Whether any <Profiler> has ever reported
+
+  // Matches React's <Profiler onRender>; only fires in development and profiling builds
+  onRender = (id: string, _phase: string, actualDuration: number) => {
+    this.reported = true;
+    if (!this.enabled) return;
+    const stats = this.commits[id] ?? (this.commits[id] = { count: 0, duration: 0 });
+    stats.count++;
+    stats.duration += actualDuration;
+    this.pendingCommits++;
+  };
+
+  // Every <Profiler> reports its own mount, so a build where none ever has
+  // is a production build
+  get commitsAvailable() {
+    return this.reported;
+  }
+
+  sample(now: number, frameTime: number, info: Pick<FrameSample, 'drawCalls' | 'triangles' | 'geometries' | 'objects'>) {
+    this.frameTimes[this.cursor] = frameTime;
+    this.cursor = (this.cursor + 1) % HISTORY_SIZE;
+    this.frames = Math.min(this.frames + 1, HISTORY_SIZE);
+
+    this.latest = {
+      time: this.recording ? now - this.recordingStart : now,
+      frameTime,
+      ...info,
+      particles: this.particles,
+      commits: this.commitsAvailable ? this.pendingCommits : null
+    };
+    this.pendingCommits = 0;
+
+    if (this.recording) {
+      this.recording.push(this.latest);
+      if (this.recording.length >= MAX_TRACE_FRAMES) this.download(this.stopRecording()!);
+    }
+  }
+
+  // Frame times oldest first
+  history(): number[] {
+    const result: number[] = [];
+    for (let i = HISTORY_SIZE - this.frames; i < HISTORY_SIZE; i++) {
+      result.push(this.frameTimes[(this.cursor + i) % HISTORY_SIZE]);
+    }
+    return result;
+  }
+
+  averageFrameTime() {
+    const history = this.history();
+    return history.length ? history.reduce((sum, time) => sum + time, 0) / history.length : 0;
+  }
+
+  get isRecording() {
+    return this.recording !== null;
+  }
+
+  startRecording(now: number, quality: string) {
+    this.recording = [];
+    this.recordingStart = now;
+    this.recordingQuality = quality;
+    this.commitsAtStart = Object.fromEntries(Object.entries(this.commits).map(([id, stats]) => [id, { ...stats }]));
+  }
+
+  stopRecording(): PerfTrace | null {
+    if (!this.recording) return null;
+    const commits: Record<string, CommitStats> = {};
+    for (const [id, stats] of Object.entries(this.commits)) {
+      const before = this.commitsAtStart[id] ?? { count: 0, duration: 0 };
+      commits[id] = { count: stats.count - before.count, duration: stats.duration - before.duration };
+    }
+
+    const trace: PerfTrace = {
+      version: TRACE_VERSION,
+      recordedAt: new Date().toISOString(),
+      userAgent: typeof navigator === 'undefined' ? '' : navigator.userAgent,
+      quality: this.recordingQuality,
+      frames: this.recording,
+      commits: this.commitsAvailable ? commits : null
+    };
+    this.recording = null;
+    return trace;
+  }
+
+  download(trace: PerfTrace) {
+    const blob = new Blob([JSON.stringify(trace)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `gemini-runner-trace-${trace.recordedAt.replace(/[:.]/g, '-')}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const profiler = new ProfilerController();
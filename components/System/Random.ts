@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Mulberry32: tiny, fast and good enough for gameplay rolls
+export class SeededRandom {
+  state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Float in [0, 1), drop-in replacement for Math.random()
+  next() {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Integer in [min, max] (inclusive)
+  int(min: number, max: number) {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  // Fisher-Yates, in place. Unlike sort(() => Math.random() - 0.5) this is unbiased
+  // and does not depend on the engine's sort implementation.
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
+
+export interface RandomState {
+  seed: number;
+  spawn: number;
+  shop: number;
+}
+
+export class RandomController {
+  seed = 0;
+  // Separate streams so shop refreshes never shift the course layout
+  spawn = new SeededRandom(0);
+  shop = new SeededRandom(0);
+
+  reseed(seed: number) {
+    this.seed = seed >>> 0;
+    this.spawn = new SeededRandom(this.seed);
+    this.shop = new SeededRandom(this.seed ^ 0x9E3779B9);
+  }
+
+  // Stream positions, so a saved run continues the same sequence
+  getState(): RandomState {
+    return { seed: this.seed, spawn: this.spawn.state, shop: this.shop.state };
+  }
+
+  setState(state: RandomState) {
+    this.seed = state.seed >>> 0;
+    this.spawn = new SeededRandom(state.spawn);
+    this.shop = new SeededRandom(state.shop);
+  }
+}
+
+// Fresh seed for a new run. Kept to 8 hex digits so it is easy to share.
+export const generateSeed = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+export const formatSeed = (seed: number) => (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+
+export const parseSeed = (text: string): number | null => {
+  const cleaned = text.trim().replace(/^#/, '');
+  if (!/^[0-9a-fA-F]{1,8}$/.test(cleaned)) return null;
+  return parseInt(cleaned, 16) >>> 0;
+};
+
+export const random = new RandomController();
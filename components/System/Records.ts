@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameMode, ObjectType } from '../../types';
+import { loadVersioned, saveVersioned } from './Storage';
+
+const RECORDS_KEY = 'records';
+const RECORDS_VERSION = 1;
+export const LEADERBOARD_SIZE = 10;
+const HISTORY_SIZE = 20;
+
+// What ended the run: the hazard that took the last life, or a clear
+export type RunEndCause = ObjectType | 'CLEARED';
+
+export interface RunRecord {
+  score: number;
+  distance: number;
+  level: number;
+  gemsCollected: number;
+  gameMode: GameMode;
+  targetLevels: number | null; // null = endless
+  seed: number;
+  cause: RunEndCause | null;
+  endedAt: string; // ISO date
+}
+
+interface RecordsData {
+  leaderboards: Record<string, RunRecord[]>;
+  history: RunRecord[];
+}
+
+export interface SubmitResult {
+  rank: number | null; // 1-based leaderboard position, null if it did not place
+  isBest: boolean;
+}
+
+export const leaderboardKey = (gameMode: GameMode, targetLevels: number | null) =>
+  `${gameMode}:${targetLevels === null || targetLevels === Infinity ? 'endless' : targetLevels}`;
+
+export class RecordsController {
+  data: RecordsData | null = null;
+
+  // Lazy so the module can be imported where localStorage is unavailable
+  load(): RecordsData {
+    if (!this.data) {
+      this.data = loadVersioned<RecordsData>(RECORDS_KEY, RECORDS_VERSION, { leaderboards: {}, history: [] });
+    }
+    return this.data;
+  }
+
+  submit(run: RunRecord): SubmitResult {
+    const data = this.load();
+    const key = leaderboardKey(run.gameMode, run.targetLevels);
+    const board = data.leaderboards[key] ?? [];
+
+    // Ties keep the older run ahead
+    let index = board.findIndex(entry => run.score > entry.score);
+    if (index === -1) index = board.length;
+
+    const rank = index < LEADERBOARD_SIZE ? index + 1 : null;
+    if (rank !== null) {
+      board.splice(index, 0, run);
+      data.leaderboards[key] = board.slice(0, LEADERBOARD_SIZE);
+    }
+
+    data.history = [run, ...data.history].slice(0, HISTORY_SIZE);
+    saveVersioned(RECORDS_KEY, RECORDS_VERSION, data);
+
+    return { rank, isBest: rank === 1 && run.score > 0 };
+  }
+
+  getLeaderboard(gameMode: GameMode, targetLevels: number | null): RunRecord[] {
+    return this.load().leaderboards[leaderboardKey(gameMode, targetLevels)] ?? [];
+  }
+
+  getHistory(): RunRecord[] {
+    return this.load().history;
+  }
+}
+
+export const records = new RecordsController();
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameMode, InputAction, FIXED_TIMESTEP } from '../../types';
+import { formatSeed } from './Random';
+import { WordChoice } from './Words';
+
+const REPLAY_VERSION = 1;
+
+export interface ReplayInput {
+  tick: number;
+  action: InputAction;
+}
+
+export type ShopAction =
+  | { type: 'BUY'; item: string }
+  | { type: 'REFRESH' }
+  | { type: 'CLOSE' };
+
+export interface ReplayShopInput {
+  tick: number; // Simulation tick at which the shop was open
+  action: ShopAction;
+}
+
+export interface ReplayResult {
+  score: number;
+  distance: number;
+  level: number;
+}
+
+export interface ReplayData {
+  version: number;
+  timestep: number;
+  seed: number;
+  gameMode: GameMode;
+  targetLevels: number | null; // null = endless (JSON has no Infinity)
+  wordChoice?: WordChoice; // Missing in replays recorded before word packs: GEMINI
+  recordedAt: string;
+  inputs: ReplayInput[];
+  shop: ReplayShopInput[];
+  result?: ReplayResult;
+}
+
+export interface RunInfo {
+  seed: number;
+  gameMode: GameMode;
+  targetLevels: number;
+  wordChoice: WordChoice;
+}
+
+export type ReplayMode = 'IDLE' | 'RECORDING' | 'PLAYING';
+
+export class ReplayController {
+  mode: ReplayMode = 'IDLE';
+  data: ReplayData | null = null;
+  queued: ReplayData | null = null;
+  inputCursor = 0;
+  // Outcome of the last finished playback compared to the recorded result
+  matched: boolean | null = null;
+
+  get isPlaying() {
+    return this.mode === 'PLAYING';
+  }
+
+  // Makes the next beginRun() play `data` back instead of recording
+  queuePlayback(data: ReplayData) {
+    this.queued = data;
+  }
+
+  // Called at the start of every run. Returns true if the run is a playback.
+  beginRun(info: RunInfo) {
+    this.inputCursor = 0;
+    this.matched = null;
+
+    if (this.queued) {
+      this.data = this.queued;
+      this.queued = null;
+      this.mode = 'PLAYING';
+      return true;
+    }
+
+    this.mode = 'RECORDING';
+    this.data = {
+      version: REPLAY_VERSION,
+      timestep: FIXED_TIMESTEP,
+      seed: info.seed,
+      gameMode: info.gameMode,
+      targetLevels: info.targetLevels === Infinity ? null : info.targetLevels,
+      wordChoice: info.wordChoice,
+      recordedAt: new Date().toISOString(),
+      inputs: [],
+      shop: []
+    };
+    return false;
+  }
+
+  stop() {
+    this.mode = 'IDLE';
+    this.queued = null;
+  }
+
+  // Returns the actions to apply on this tick: the recorded ones during
+  // playback (live input is ignored), otherwise the live ones (recorded).
+  actionsFor(tick: number, live: InputAction[]): InputAction[] {
+    if (this.mode === 'PLAYING' && this.data) {
+      const actions: InputAction[] = [];
+      const inputs = this.data.inputs;
+      while (this.inputCursor < inputs.length && inputs[this.inputCursor].tick <= tick) {
+        actions.push(inputs[this.inputCursor].action);
+        this.inputCursor++;
+      }
+      return actions;
+    }
+
+    if (this.mode === 'RECORDING' && this.data) {
+      live.forEach(action => this.data!.inputs.push({ tick, action }));
+    }
+    return live;
+  }
+
+  recordShop(tick: number, action: ShopAction) {
+    if (this.mode === 'RECORDING' && this.data) {
+      this.data.shop.push({ tick, action });
+    }
+  }
+
+  // The simulation is frozen while shopping, so one visit = one tick
+  shopActionsFor(tick: number): ShopAction[] {
+    if (this.mode !== 'PLAYING' || !this.data) return [];
+    return this.data.shop.filter(e => e.tick === tick).map(e => e.action);
+  }
+
+  finishRun(result: ReplayResult) {
+    if (!this.data) return;
+    if (this.mode === 'RECORDING') {
+      this.data.result = result;
+    } else if (this.mode === 'PLAYING' && this.data.result) {
+      const expected = this.data.result;
+      this.matched = expected.score === result.score
+        && expected.distance === result.distance
+        && expected.level === result.level;
+    }
+  }
+
+  get canExport() {
+    return this.mode === 'RECORDING' && !!this.data?.result;
+  }
+
+  download() {
+    if (!this.data) return;
+    const blob = new Blob([JSON.stringify(this.data)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `gemini-runner-${formatSeed(this.data.seed)}-${this.data.result?.score ?? 0}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const parseReplay = (text: string): ReplayData | null => {
+  try {
+    const data = JSON.parse(text);
+    if (data?.version !== REPLAY_VERSION) return null;
+    if (data.timestep !== FIXED_TIMESTEP) return null;
+    if (typeof data.seed !== 'number' || !Object.values(GameMode).includes(data.gameMode)) return null;
+    if (!Array.isArray(data.inputs) || !Array.isArray(data.shop)) return null;
+    return data as ReplayData;
+  } catch {
+    return null;
+  }
+};
+
+export const replay = new ReplayController();
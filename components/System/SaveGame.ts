@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameMode } from '../../types';
+import { RandomState } from './Random';
+import { Inventory } from './Items';
+import { WordChoice } from './Words';
+import { loadVersioned, saveVersioned, removeStored } from './Storage';
+
+const SAVE_KEY = 'run';
+const SAVE_VERSION = 2;
+
+// Everything needed to put the player back at the start of the level they
+// reached. Transient state (active abilities, cooldowns, objects on the
+// track) is intentionally not saved.
+export interface RunSnapshot {
+  gameMode: GameMode;
+  targetLevels: number | null; // null = endless
+  wordChoice?: WordChoice; // Missing in saves from before word packs: GEMINI
+  dailyDate?: string; // Daily challenge runs only
+  random: RandomState;
+  level: number;
+  laneCount: number;
+  speed: number;
+  score: number;
+  currency: number;
+  lives: number;
+  maxLives: number;
+  collectedLetters: number[];
+  gemsCollected: number;
+  distance: number;
+  inventory: Inventory;
+
+  shopPortal: boolean; // Shop portal still ahead of the player
+  savedAt: string; // ISO date
+}
+
+export const saveRun = (snapshot: RunSnapshot) => saveVersioned(SAVE_KEY, SAVE_VERSION, snapshot);
+
+export const loadRun = (): RunSnapshot | null => loadVersioned<RunSnapshot | null>(SAVE_KEY, SAVE_VERSION, null);
+
+export const clearRun = () => removeStored(SAVE_KEY);
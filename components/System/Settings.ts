@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { useMemo } from 'react';
+import { create } from 'zustand';
+import { loadVersioned, saveVersioned } from './Storage';
+import { QUALITY_STEPS, useQualityStep } from './AdaptiveQuality';
+
+const SETTINGS_KEY = 'settings';
+const SETTINGS_VERSION = 1;
+
+export type QualityPreset = 'low' | 'medium' | 'high';
+
+export interface Settings {
+  masterVolume: number; // 0..1
+  sfxVolume: number;
+  musicVolume: number;
+  quality: QualityPreset;
+  adaptiveQuality: boolean; // Scale the preset down while the frame rate drops
+  reducedMotion: boolean; // No camera easing, flicker or pulsing UI
+  highContrast: boolean; // Hazards drawn in a bright, uniform palette
+  showHitboxes: boolean; // Debug: draw the collision boxes in the scene
+  showPerf: boolean; // Debug: performance overlay and profiler
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  masterVolume: 0.4,
+  sfxVolume: 1,
+  musicVolume: 0.6,
+  quality: 'high',
+  adaptiveQuality: true,
+  reducedMotion: false,
+  highContrast: false,
+  showHitboxes: false,
+  showPerf: false
+};
+
+export interface QualityProfile {
+  starCount: number;
+  particleCount: number;
+  postprocessing: 'none' | 'bloom' | 'full';
+  bloomLevels: number;
+  shadows: boolean;
+  dpr: [number, number];
+}
+
+export const QUALITY_PROFILES: Record<QualityPreset, QualityProfile> = {
+  low: { starCount: 800, particleCount: 150, postprocessing: 'none', bloomLevels: 0, shadows: false, dpr: [1, 1] },
+  medium: { starCount: 1500, particleCount: 300, postprocessing: 'bloom', bloomLevels: 6, shadows: true, dpr: [1, 1.25] },
+  high: { starCount: 3000, particleCount: 600, postprocessing: 'full', bloomLevels: 8, shadows: true, dpr: [1, 1.5] }
+};
+
+// A preset lowered by an adaptive quality step (0 leaves it as is)
+export const scaleQuality = (profile: QualityProfile, step: number): QualityProfile => {
+  if (step === 0) return profile;
+  const { dprScale, bloomLevels, density, shadows } = QUALITY_STEPS[step];
+  const maxDpr = profile.dpr[1] * dprScale;
+  return {
+    starCount: Math.round(profile.starCount * density),
+    particleCount: Math.round(profile.particleCount * density),
+    postprocessing: profile.postprocessing,
+    bloomLevels: Math.min(profile.bloomLevels, bloomLevels),
+    shadows: profile.shadows && shadows,
+    dpr: [Math.min(profile.dpr[0], maxDpr), maxDpr]
+  };
+};
+
+// Hazard colors used when highContrast is on
+export const HIGH_CONTRAST_HAZARDS = {
+  obstacle: '#ff6a00',
+  obstacleGlow: '#ffff00',
+  alien: '#ff0000',
+  alienDome: '#ffffff',
+  missile: '#ffffff',
+  missileRing: '#ff0000',
+  barrier: '#ffff00',
+  barrierField: '#ff00ff',
+  laser: '#ffffff'
+};
+
+interface SettingsState extends Settings {
+  update: (patch: Partial<Settings>) => void;
+  reset: () => void;
+}
+
+const pickSettings = (state: Settings): Settings => ({
+  masterVolume: state.masterVolume,
+  sfxVolume: state.sfxVolume,
+  musicVolume: state.musicVolume,
+  quality: state.quality,
+  adaptiveQuality: state.adaptiveQuality,
+  reducedMotion: state.reducedMotion,
+  highContrast: state.highContrast,
+  showHitboxes: state.showHitboxes,
+  showPerf: state.showPerf
+});
+
+// Unknown or missing fields (older saves) fall back to the defaults
+const loadSettings = (): Settings => ({
+  ...DEFAULT_SETTINGS,
+  ...loadVersioned<Partial<Settings>>(SETTINGS_KEY, SETTINGS_VERSION, {})
+});
+
+export const useSettings = create<SettingsState>((set, get) => ({
+  ...loadSettings(),
+
+  update: (patch) => {
+    set(patch);
+    saveVersioned(SETTINGS_KEY, SETTINGS_VERSION, pickSettings(get()));
+  },
+
+  reset: () => {
+    set(DEFAULT_SETTINGS);
+    saveVersioned(SETTINGS_KEY, SETTINGS_VERSION, DEFAULT_SETTINGS);
+  }
+}));
+
+export const useQuality = () => {
+  const quality = useSettings(state => state.quality);
+  const adaptive = useSettings(state => state.adaptiveQuality);
+  const step = useQualityStep(state => state.step);
+  return useMemo(() => scaleQuality(QUALITY_PROFILES[quality], adaptive ? step : 0), [quality, adaptive, step]);
+};
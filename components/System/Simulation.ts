@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { useEffect, useRef } from 'react';
+import { FIXED_TIMESTEP } from '../../types';
+
+type StepCallback = (dt: number, tick: number) => void;
+
+// Where a (re)started run picks up. A fresh run starts at level 1, distance 0;
+// a resumed save starts at its checkpoint.
+export interface RunStart {
+  level: number;
+  distance: number;
+  shopPortal: boolean; // Checkpoint was taken before the shop portal was reached
+}
+
+export const NEW_RUN: RunStart = { level: 1, distance: 0, shopPortal: false };
+
+interface Stepper {
+  order: number;
+  callback: StepCallback;
+}
+
+interface Timer {
+  due: number;
+  callback: () => void;
+}
+
+// Maximum ticks per rendered frame. Anything beyond is dropped so a long hitch
+// (tab switch, GC pause) slows the game down instead of fast-forwarding it.
+const MAX_STEPS_PER_FRAME = 5;
+
+// Fixed-timestep clock shared by every piece of game logic.
+// Rendering still happens per frame, but all rules advance in whole ticks so a
+// run is fully determined by its seed and the inputs applied at each tick.
+export class SimulationClock {
+  tick = 0;
+  accumulator = 0;
+  steppers: Stepper[] = [];
+  timers: Timer[] = [];
+  resetListeners = new Set<(start: RunStart) => void>();
+
+  // Simulation time in ms. Replaces Date.now() for cooldowns and durations.
+  now() {
+    return this.tick * FIXED_TIMESTEP * 1000;
+  }
+
+  // Lower order runs first
+  addStepper(callback: StepCallback, order: number) {
+    const stepper = { order, callback };
+    this.steppers.push(stepper);
+    this.steppers.sort((a, b) => a.order - b.order);
+    return () => {
+      this.steppers = this.steppers.filter(s => s !== stepper);
+    };
+  }
+
+  onReset(listener: (start: RunStart) => void) {
+    this.resetListeners.add(listener);
+    return () => { this.resetListeners.delete(listener); };
+  }
+
+  // setTimeout replacement measured in simulation time
+  after(ms: number, callback: () => void) {
+    this.timers.push({ due: this.now() + ms, callback });
+  }
+
+  step() {
+    const now = this.now();
+    if (this.timers.length > 0) {
+      const due = this.timers.filter(t => t.due <= now);
+      if (due.length > 0) {
+        this.timers = this.timers.filter(t => t.due > now);
+        due.forEach(t => t.callback());
+      }
+    }
+
+    for (const s of this.steppers) {
+      s.callback(FIXED_TIMESTEP, this.tick);
+    }
+    this.tick++;
+  }
+
+  // Called once per rendered frame. `canStep` is re-checked between ticks so a
+  // tick that ends the run (or opens the shop) stops the remaining ones.
+  advance(delta: number, canStep: () => boolean) {
+    this.accumulator += delta;
+    let steps = 0;
+    while (this.accumulator >= FIXED_TIMESTEP && steps < MAX_STEPS_PER_FRAME) {
+      if (!canStep()) {
+        this.accumulator = 0;
+        break;
+      }
+      this.step();
+      this.accumulator -= FIXED_TIMESTEP;
+      steps++;
+    }
+    if (steps === MAX_STEPS_PER_FRAME) this.accumulator = 0;
+    return steps;
+  }
+
+  reset(start: RunStart = NEW_RUN) {
+    this.tick = 0;
+    this.accumulator = 0;
+    this.timers = [];
+    this.resetListeners.forEach(l => l(start));
+  }
+}
+
+export const simulation = new SimulationClock();
+
+// Registers a per-tick callback for the lifetime of the component.
+// The latest callback is always used, so it may close over fresh props.
+export const useFixedStep = (callback: StepCallback, order: number) => {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    return simulation.addStepper((dt, tick) => callbackRef.current(dt, tick), order);
+  }, [order]);
+};
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Thin localStorage wrapper. Every entry is stored as { version, data } so a
+// schema change can migrate (or discard) old saves instead of crashing on them.
+
+interface Envelope<T> {
+  version: number;
+  data: T;
+}
+
+const STORAGE_PREFIX = 'gemini-runner:';
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    // Access can throw in private mode / sandboxed iframes
+    return null;
+  }
+};
+
+export const loadVersioned = <T>(
+  key: string,
+  version: number,
+  fallback: T,
+  migrate?: (data: any, fromVersion: number) => T | null
+): T => {
+  const storage = getStorage();
+  if (!storage) return fallback;
+
+  try {
+    const raw = storage.getItem(STORAGE_PREFIX + key);
+    if (!raw) return fallback;
+
+    const envelope = JSON.parse(raw) as Envelope<T>;
+    if (envelope.version === version) return envelope.data;
+
+    const migrated = migrate ? migrate(envelope.data, envelope.version) : null;
+    return migrated ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveVersioned = <T>(key: string, version: number, data: T) => {
+  const storage = getStorage();
+  if (!storage) return;
+
+  try {
+    const envelope: Envelope<T> = { version, data };
+    storage.setItem(STORAGE_PREFIX + key, JSON.stringify(envelope));
+  } catch {
+    // Quota exceeded: persistence is best effort
+  }
+};
+
+export const removeStored = (key: string) => {
+  getStorage()?.removeItem(STORAGE_PREFIX + key);
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { WORD_PACKS, MAX_WORD_LENGTH, DEFAULT_WORD_CHOICE, GEMINI_WORD, getTargetWord } from './Words';
+
+describe('word packs', () => {
+  it('have a color per letter and fit the HUD tracker', () => {
+    for (const pack of WORD_PACKS) {
+      expect(pack.words.length, pack.id).toBeGreaterThan(0);
+      for (const word of pack.words) {
+        expect(word.colors).toHaveLength(word.letters.length);
+        expect(word.letters.length).toBeGreaterThan(0);
+        expect(word.letters.length).toBeLessThanOrEqual(MAX_WORD_LENGTH);
+      }
+    }
+  });
+
+  it('have unique ids', () => {
+    const ids = WORD_PACKS.map(pack => pack.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('split localized words into whole characters', () => {
+    const japanese = WORD_PACKS.find(pack => pack.id === 'japanese')!;
+    expect(japanese.words[0].letters).toEqual(['ほ', 'し']);
+  });
+});
+
+describe('getTargetWord', () => {
+  it('defaults to GEMINI', () => {
+    expect(getTargetWord(DEFAULT_WORD_CHOICE, 3)).toBe(GEMINI_WORD);
+  });
+
+  it('keeps a fixed word or rotates per level', () => {
+    const space = WORD_PACKS.find(pack => pack.id === 'space')!;
+    expect(getTargetWord({ packId: 'space', wordIndex: 2 }, 5)).toBe(space.words[2]);
+    expect(getTargetWord({ packId: 'space', wordIndex: null }, 2)).toBe(space.words[1]);
+    expect(getTargetWord({ packId: 'space', wordIndex: null }, space.words.length + 1)).toBe(space.words[0]);
+  });
+
+  it('falls back for unknown packs', () => {
+    expect(getTargetWord({ packId: 'gone', wordIndex: 0 }, 1)).toBe(GEMINI_WORD);
+  });
+});
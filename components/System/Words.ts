@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// The letter objective. Each level asks for one target word; collecting all
+// of its letters clears the level. Words come in packs so themed or localized
+// sets can be added as plain data.
+
+export interface TargetWord {
+  letters: string[]; // One glyph per pickup, so multi-byte scripts work too
+  colors: string[]; // Per letter, same length as letters
+}
+
+export interface WordPack {
+  id: string;
+  name: string;
+  words: TargetWord[];
+}
+
+// Which word a run collects: a fixed word of a pack, or the pack in order, one word per level
+export interface WordChoice {
+  packId: string;
+  wordIndex: number | null; // null = rotate through the pack per level
+}
+
+export const MAX_WORD_LENGTH = 8;
+
+// Neon palette cycled over words without hand-picked colors
+const NEON = ['#2979ff', '#ff1744', '#ffea00', '#00e676', '#d500f9', '#00e5ff'];
+
+const word = (text: string, colors: string[] = NEON): TargetWord => {
+  const letters = Array.from(text);
+  return { letters, colors: letters.map((_, i) => colors[i % colors.length]) };
+};
+
+// Google-ish Neon Colors: Blue, Red, Yellow, Blue, Green, Red
+export const GEMINI_WORD = word('GEMINI', ['#2979ff', '#ff1744', '#ffea00', '#2979ff', '#00e676', '#ff1744']);
+
+export const WORD_PACKS: WordPack[] = [
+  {
+    id: 'gemini',
+    name: 'GEMINI',
+    words: [GEMINI_WORD]
+  },
+  {
+    id: 'space',
+    name: 'SPACE',
+    words: [word('STAR'), word('COMET'), word('ORBIT'), word('NEBULA'), word('GALAXY'), word('QUASAR'), word('PULSAR'), word('COSMOS')]
+  },
+  {
+    id: 'synth',
+    name: 'SYNTHWAVE',
+    words: [word('NEON'), word('LASER'), word('PIXEL'), word('SYNTH'), word('ARCADE'), word('CHROME'), word('VECTOR'), word('RETRO')]
+  },
+  {
+    id: 'japanese',
+    name: '日本語',
+    words: [word('ほし'), word('つき'), word('ぎんが'), word('うちゅう'), word('すいせい'), word('ながれぼし')]
+  }
+];
+
+export const DEFAULT_WORD_CHOICE: WordChoice = { packId: 'gemini', wordIndex: 0 };
+
+export const getWordPack = (id: string) => WORD_PACKS.find(pack => pack.id === id) ?? WORD_PACKS[0];
+
+// Target word of a level. Unknown packs and out-of-range words fall back
+// rather than fail, so an old save or replay still loads.
+export const getTargetWord = (choice: WordChoice, level: number): TargetWord => {
+  const { words } = getWordPack(choice.packId);
+  const index = choice.wordIndex ?? (level - 1);
+  return words[((index % words.length) + words.length) % words.length];
+};
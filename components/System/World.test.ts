@@ -0,0 +1,301 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useStore, GameState } from '../../store';
+import { GameObject, GameMode, GameStatus, ObjectType, InputAction, LANE_WIDTH } from '../../types';
+import { random } from './Random';
+import { ChunkDefinition } from './Chunks';
+import { createWorld, spawnRow, stepWorld, getLetterInterval, findIncomingMissile, isSliding, MISSILE_WARNING_RANGE, BARRIER_HEIGHT, SLIDE_DURATION, DRIFT_START_Z, LASER_HEIGHT } from './World';
+
+const stateWith = (overrides: Partial<GameState>): GameState => ({ ...useStore.getState(), ...overrides });
+
+// Spawns rows on an empty track, so every call lays out one full row
+const spawnRows = (state: GameState, count: number) => {
+  const world = createWorld();
+  world.nextLetterDistance = Infinity;
+  const rows: GameObject[][] = [];
+  for (let i = 0; i < count; i++) {
+    const row: GameObject[] = [];
+    spawnRow(world, state, row);
+    rows.push(row);
+  }
+  return rows;
+};
+
+describe('spawnRow', () => {
+  beforeEach(() => {
+    useStore.getState().startGame(5, 1);
+    random.reseed(42);
+  });
+
+  it('always leaves an open lane between obstacles', () => {
+    for (const laneCount of [3, 5, 7, 9]) {
+      // High levels push the multi-lane chance towards 100%
+      const rows = spawnRows(stateWith({ laneCount, level: 10 }), 500);
+      for (const row of rows) {
+        const blocked = new Set(row.filter(o => o.type === ObjectType.OBSTACLE).map(o => o.position[0]));
+        expect(blocked.size).toBeLessThan(laneCount);
+      }
+    }
+  });
+
+  it('keeps objects inside the track', () => {
+    const rows = spawnRows(stateWith({ laneCount: 5, level: 6 }), 300);
+    for (const obj of rows.flat()) {
+      expect(Math.abs(obj.position[0])).toBeLessThanOrEqual(2 * LANE_WIDTH + 1e-9);
+    }
+  });
+
+  it('only spawns letters that have not been collected', () => {
+    const collectedLetters = [0, 2, 3];
+    const state = stateWith({ collectedLetters });
+    const world = createWorld();
+
+    for (let i = 0; i < 100; i++) {
+      world.nextLetterDistance = 0;
+      const row: GameObject[] = [];
+      spawnRow(world, state, row);
+
+      expect(row).toHaveLength(1);
+      expect(row[0].type).toBe(ObjectType.LETTER);
+      expect(collectedLetters).not.toContain(row[0].targetIndex);
+    }
+  });
+
+  it('spawns a gem instead of a letter once the word is complete', () => {
+    const world = createWorld();
+    world.nextLetterDistance = 0;
+    const row: GameObject[] = [];
+    spawnRow(world, stateWith({ collectedLetters: [0, 1, 2, 3, 4, 5] }), row);
+
+    expect(row.map(o => o.type)).toEqual([ObjectType.GEM]);
+  });
+
+  it('lays out a started chunk one row per call', () => {
+    const world = createWorld();
+    world.nextLetterDistance = Infinity;
+    world.chunkRows = [
+      { gap: 1, cells: [{ lane: 0, cell: { type: ObjectType.OBSTACLE } }] },
+      { gap: 1, cells: [{ lane: 1, cell: { type: ObjectType.GEM, height: 2.5 } }] }
+    ];
+    const state = stateWith({ laneCount: 3 });
+
+    const first: GameObject[] = [];
+    spawnRow(world, state, first);
+    const second: GameObject[] = [];
+    spawnRow(world, state, second);
+
+    expect(first.map(o => [o.type, o.position[0]])).toEqual([[ObjectType.OBSTACLE, 0]]);
+    expect(second.map(o => [o.type, o.position[0], o.position[1]])).toEqual([[ObjectType.GEM, LANE_WIDTH, 2.5]]);
+    expect(world.chunkRows).toHaveLength(0);
+  });
+
+  it('turns letter cells into a missing letter', () => {
+    const world = createWorld();
+    world.nextLetterDistance = Infinity;
+    world.chunkRows = [{ gap: 1, cells: [{ lane: 0, cell: { type: ObjectType.LETTER } }] }];
+    const row: GameObject[] = [];
+    spawnRow(world, stateWith({ collectedLetters: [0, 1, 2, 3, 4] }), row);
+
+    expect(row.map(o => [o.type, o.targetIndex])).toEqual([[ObjectType.LETTER, 5]]);
+  });
+
+  it('repeats the edited chunk during a preview', () => {
+    const editorChunk: ChunkDefinition = { id: 'test', name: 'Test', minLevel: 1, minLanes: 3, weight: 1, rows: [{ cells: [[{ type: ObjectType.OBSTACLE }], [], []] }] };
+    const world = createWorld();
+    world.nextLetterDistance = 0; // Letters are not mixed in
+    const state = stateWith({ laneCount: 3, isPreview: true, editorChunk });
+
+    for (let i = 0; i < 20; i++) {
+      const row: GameObject[] = [];
+      spawnRow(world, state, row);
+      expect(row.map(o => [o.type, o.position[0]])).toEqual([[ObjectType.OBSTACLE, -LANE_WIDTH]]);
+    }
+  });
+
+  it('spawns nothing during a boss fight', () => {
+    const rows = spawnRows(stateWith({ bossFight: { health: 6, maxHealth: 6, phase: 'ENTER' } }), 20);
+    expect(rows.flat()).toHaveLength(0);
+  });
+
+  it('schedules the next letter one interval later', () => {
+    const world = createWorld();
+    world.nextLetterDistance = 0;
+    spawnRow(world, stateWith({ level: 3 }), []);
+
+    expect(world.nextLetterDistance).toBeCloseTo(getLetterInterval(3));
+  });
+});
+
+describe('stepWorld', () => {
+  beforeEach(() => {
+    useStore.setState({ gameMode: GameMode.NORMAL });
+    useStore.getState().startGame(5, 7);
+  });
+
+  it('produces the same run from the same seed and inputs', () => {
+    const play = () => {
+      useStore.getState().startGame(5, 7);
+      const world = createWorld();
+      for (let tick = 0; tick < 3000 && useStore.getState().status === GameStatus.PLAYING; tick++) {
+        const actions = tick % 50 === 0 ? [tick % 100 ? InputAction.LANE_LEFT : InputAction.JUMP] : [];
+        stepWorld(world, 1 / 60, actions, useStore);
+      }
+      const { score, lives, status } = useStore.getState();
+      return { score, lives, status, distance: world.distance, objects: world.objects.length };
+    };
+
+    expect(play()).toEqual(play());
+  });
+
+  it('lands a jump back on the ground', () => {
+    const world = createWorld();
+    stepWorld(world, 1 / 60, [InputAction.JUMP], useStore);
+    expect(world.player.isJumping).toBe(true);
+
+    for (let i = 0; i < 120; i++) stepWorld(world, 1 / 60, [], useStore);
+    expect(world.player.isJumping).toBe(false);
+    expect(world.player.y).toBe(0);
+  });
+
+  it('slides under a barrier but cannot jump over it', () => {
+    const barrier = (): GameObject => ({ id: 'bar', type: ObjectType.BARRIER, position: [0, BARRIER_HEIGHT, -3], active: true });
+    const runInto = (action: InputAction) => {
+      useStore.getState().startGame(5, 7);
+      const world = createWorld();
+      world.objects = [barrier()];
+      stepWorld(world, 1 / 60, [action], useStore);
+      for (let i = 0; i < 10; i++) stepWorld(world, 1 / 60, [], useStore);
+      return useStore.getState().lives;
+    };
+
+    expect(runInto(InputAction.SLIDE)).toBe(3);
+    expect(runInto(InputAction.JUMP)).toBe(2);
+  });
+
+  it('gets back up after a slide, or right away on a jump', () => {
+    const world = createWorld();
+    stepWorld(world, 1 / 60, [InputAction.SLIDE], useStore);
+    expect(isSliding(world.player)).toBe(true);
+
+    for (let i = 0; i < Math.ceil(SLIDE_DURATION / (1000 / 60)) + 1; i++) stepWorld(world, 1 / 60, [], useStore);
+    expect(isSliding(world.player)).toBe(false);
+
+    stepWorld(world, 1 / 60, [InputAction.SLIDE], useStore);
+    stepWorld(world, 1 / 60, [InputAction.JUMP], useStore);
+    expect(isSliding(world.player)).toBe(false);
+    expect(world.player.isJumping).toBe(true);
+  });
+
+  it('advises a slide for a barrier in Assist mode', () => {
+    useStore.setState({ gameMode: GameMode.ASSIST });
+    useStore.getState().startGame(5, 7);
+    const world = createWorld();
+    const speed = useStore.getState().speed;
+    world.objects = [{ id: 'bar', type: ObjectType.BARRIER, position: [0, BARRIER_HEIGHT, -speed * 0.5], active: true }];
+    stepWorld(world, 1 / 60, [], useStore);
+
+    expect(useStore.getState().assistHint).toBe('SLIDE');
+  });
+
+  it('recycles objects that leave the track', () => {
+    useStore.setState({ gameMode: GameMode.CHEAT });
+    useStore.getState().startGame(5, 7);
+    const world = createWorld();
+    const objects = world.objects;
+    const slots = new Set<GameObject>();
+    const spawns = new Set<string>();
+    for (let i = 0; i < 1200; i++) {
+      stepWorld(world, 1 / 60, [], useStore);
+      world.objects.forEach(obj => { slots.add(obj); spawns.add(obj.id); });
+    }
+
+    expect(world.objects).toBe(objects);
+    expect(slots.size).toBeLessThan(spawns.size);
+    // Every slot ever used is either on the track or back in the pool
+    expect(slots.size).toBe(world.objects.length + world.pool.available);
+  });
+
+  it('keeps the player inside the track', () => {
+    const world = createWorld();
+    const actions = [InputAction.LANE_LEFT, InputAction.LANE_LEFT, InputAction.LANE_LEFT];
+    stepWorld(world, 1 / 60, actions, useStore);
+
+    expect(world.player.lane).toBe(-1);
+    expect(useStore.getState().playerLane).toBe(-1);
+  });
+});
+
+describe('moving hazards', () => {
+  // Steps with the player parked in the center, the track itself kept empty
+  const track = (objects: GameObject[], ticks: number) => {
+    useStore.getState().startGame(5, 7);
+    useStore.setState({ gameMode: GameMode.CHEAT, laneCount: 5 });
+    const world = createWorld();
+    world.objects = objects;
+    world.nextLetterDistance = Infinity;
+    for (let i = 0; i < ticks; i++) {
+      world.objects = world.objects.filter(o => objects.includes(o));
+      stepWorld(world, 1 / 60, [], useStore);
+    }
+    return objects;
+  };
+
+  it('drifts an obstacle to its target lane only once it is close', () => {
+    const far: GameObject = { id: 'far', type: ObjectType.OBSTACLE, position: [0, 0.8, -110], active: true, targetX: LANE_WIDTH };
+    const near: GameObject = { id: 'near', type: ObjectType.OBSTACLE, position: [0, 0.8, DRIFT_START_Z + 5], active: true, targetX: LANE_WIDTH };
+    track([far, near], 60);
+
+    expect(far.position[0]).toBe(0);
+    expect(near.position[0]).toBe(LANE_WIDTH);
+  });
+
+  it('has a strafing alien follow the player until it fires', () => {
+    const alien: GameObject = { id: 'alien', type: ObjectType.ALIEN, position: [2 * LANE_WIDTH, 1.5, -200], active: true, hasFired: false, strafes: true };
+    track([alien], 90);
+
+    expect(alien.position[0]).toBeCloseTo(0);
+  });
+
+  it('sweeps a laser gate back and forth inside the track', () => {
+    const laser: GameObject = { id: 'laser', type: ObjectType.LASER_GATE, position: [0, LASER_HEIGHT, -500], active: true, sweepDirection: 1 };
+    const seen: number[] = [];
+    for (let i = 0; i < 8; i++) {
+      track([laser], 30);
+      seen.push(laser.position[0]);
+    }
+
+    expect(Math.max(...seen.map(Math.abs))).toBeLessThanOrEqual(2 * LANE_WIDTH);
+    expect(seen.some(x => x > 0)).toBe(true);
+    expect(seen.some(x => x < 0)).toBe(true);
+  });
+});
+
+describe('findIncomingMissile', () => {
+  const missile = (id: string, z: number, active = true): GameObject =>
+    ({ id, type: ObjectType.MISSILE, position: [0, 1, z], active });
+
+  it('picks the closest live missile in front of the player', () => {
+    const world = createWorld();
+    world.objects = [
+      missile('far', -60),
+      missile('dead', -5, false),
+      missile('near', -20),
+      missile('passed', 3),
+      missile('out of range', -MISSILE_WARNING_RANGE - 1)
+    ];
+
+    expect(findIncomingMissile(world)?.id).toBe('near');
+  });
+
+  it('ignores other hazards', () => {
+    const world = createWorld();
+    world.objects = [{ id: 'rock', type: ObjectType.OBSTACLE, position: [0, 0, -10], active: true }];
+
+    expect(findIncomingMissile(world)).toBeNull();
+  });
+});
@@ -0,0 +1,912 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, ObjectType, GameMode, InputAction, GemRarity, AssistHint, LANE_WIDTH, RUN_SPEED_BASE, SPAWN_DISTANCE, REMOVE_DISTANCE, GEM_RARITIES } from '../../types';
+import type { GameState } from '../../store';
+import { random } from './Random';
+import { RunStart, NEW_RUN } from './Simulation';
+import { hasItem, itemMultiplier, getMagnet, extraJumps } from './Items';
+import { ObjectPool } from './Pool';
+import { PlacedRow, PlacedCell, getEligibleChunks, pickChunk, placeChunk } from './Chunks';
+import { TargetWord, GEMINI_WORD } from './Words';
+import { OBSTACLE_HEIGHT, PLAYER_HEIGHT, SLIDE_HEIGHT, getHitbox, getPlayerBox, collides } from './Collision';
+import { BossState, BossCommand, BOSS_Z, BOSS_EXPOSED_Y, createBoss, stepBoss, damageBoss, isBeamHitting, SONIC_BLAST_BOSS_DAMAGE, DRONE_BOSS_DAMAGE, CHARGE_GEM_DAMAGE } from './Boss';
+
+// Game rules with no React, three.js or DOM dependency. The components render
+// from a WorldState and play back the events a step emits; tests and tools can
+// drive the same step() in Node.
+
+// Physics Constants
+export const GRAVITY = 50;
+export const JUMP_FORCE = 16; // Results in ~2.56 height (v^2 / 2g)
+
+export const SLIDE_DURATION = 650; // ms
+export const BARRIER_HEIGHT = 1.0; // Underside of an overhead barrier, between SLIDE_HEIGHT and PLAYER_HEIGHT
+export const MISSILE_SPEED = 30; // Extra speed added to world speed
+
+// Run speed bumps, as fractions of RUN_SPEED_BASE
+export const LETTER_SPEEDUP = 0.025;
+export const LEVEL_SPEEDUP = 0.10;
+
+const BASE_LETTER_INTERVAL = 150;
+const DAMAGE_INVINCIBILITY = 1500; // ms of damage flicker after a hit
+const DRONE_INTERVAL = 2000; // Fires every 2 seconds
+const PREVIEW_REPEAT_GAP = 2; // Extra row gaps between passes of a previewed chunk
+const CHARGE_GEM_COLOR = '#ff66ff';
+const BARRIER_MIN_LEVEL = 2;
+const BARRIER_CHANCE = 0.3; // Share of random row obstacles that are barriers instead
+
+// Moving hazards
+export const DRIFT_START_Z = -50; // Drifting obstacles stay put (telegraphed) until this close
+const DRIFT_SPEED = 5; // Units per second sideways
+const DRIFT_MIN_LEVEL = 3;
+const DRIFT_CHANCE = 0.2;
+const STRAFE_SPEED = 4;
+const STRAFE_MIN_LEVEL = 4;
+const STRAFE_CHANCE = 0.5;
+export const LASER_HEIGHT = 0.5;
+const LASER_SWEEP_SPEED = 6;
+const LASER_MIN_LEVEL = 4;
+const LASER_CHANCE = 0.1; // Per random row
+
+// Speed a level starts at when every letter of the previous ones was collected
+export const getLevelStartSpeed = (level: number, wordLength: number = GEMINI_WORD.letters.length) =>
+    RUN_SPEED_BASE * (1 + Math.max(0, level - 1) * (wordLength * LETTER_SPEEDUP + LEVEL_SPEEDUP));
+
+// Distance between two spawned rows at a given run speed
+// TIGHTEN THE GAP: Reduce minGap scaling
+// Base gap 12 -> 8, speed factor 0.4 -> 0.35 for tighter, more intense play
+export const getRowGap = (speed: number) => 8 + (speed * 0.35);
+
+// Revised Scaling: Gentler increase (1.15x instead of 1.5x) to support 10 levels
+export const getLetterInterval = (level: number) => {
+    return BASE_LETTER_INTERVAL * Math.pow(1.15, Math.max(0, level - 1));
+};
+
+export interface PlayerState {
+  lane: number;
+  x: number;
+  y: number;
+  velocityY: number;
+  isJumping: boolean;
+  jumpsPerformed: number;
+  spin: number; // Double jump flip, radians
+  slideTime: number; // ms of slide left, 0 when upright
+  isInvincible: boolean; // Damage flicker window
+  lastDamageTime: number;
+}
+
+export interface WorldState {
+  time: number; // ms since the run (re)started
+  player: PlayerState;
+  objects: GameObject[];
+  distance: number;
+  nextLetterDistance: number;
+  lastDroneFire: number;
+  level: number; // Level the track was last laid out for
+  chunkRows: PlacedRow[]; // Rows of the authored chunk still to be laid out
+  boss: BossState | null; // Mothership fight in progress
+  revision: number; // Bumped whenever objects are added or removed
+  pool: ObjectPool; // Slots of removed objects, reused by the spawner
+}
+
+export type WorldEvent =
+  | { type: 'JUMP'; double: boolean }
+  | { type: 'SLIDE' }
+  | { type: 'DAMAGE' }
+  | { type: 'GEM' }
+  | { type: 'LETTER' }
+  | { type: 'SONIC_BLAST' }
+  | { type: 'DRONE_SHOT'; position: [number, number, number] }
+  | { type: 'MISSILE_LAUNCH'; position: [number, number, number] }
+  | { type: 'PORTAL' }
+  | { type: 'BOSS_WARNING' }
+  | { type: 'BOSS_HIT'; position: [number, number, number] }
+  | { type: 'BOSS_DEFEATED'; position: [number, number, number] }
+  | { type: 'BURST'; position: [number, number, number]; color: string; burstScale?: number };
+
+// The parts of the store the rules read and drive
+export interface WorldHost {
+  getState: () => GameState;
+}
+
+const createPlayer = (): PlayerState => ({
+  lane: 0,
+  x: 0,
+  y: 0,
+  velocityY: 0,
+  isJumping: false,
+  jumpsPerformed: 0,
+  spin: 0,
+  slideTime: 0,
+  isInvincible: false,
+  lastDamageTime: 0
+});
+
+const createShopPortal = (pool: ObjectPool) => pool.acquire(ObjectType.SHOP_PORTAL, 0, 0, -100);
+
+export const createWorld = (start: RunStart = NEW_RUN): WorldState => {
+  const world: WorldState = {
+    time: 0,
+    player: createPlayer(),
+    objects: [],
+    distance: 0,
+    nextLetterDistance: 0,
+    lastDroneFire: -Infinity,
+    level: 1,
+    chunkRows: [],
+    boss: null,
+    revision: 0,
+    pool: new ObjectPool()
+  };
+  resetWorld(world, start);
+  return world;
+};
+
+export const resetWorld = (world: WorldState, start: RunStart = NEW_RUN) => {
+  world.time = 0;
+  world.player = createPlayer();
+  world.objects.forEach(obj => world.pool.release(obj));
+  world.objects = [];
+  world.distance = start.distance;
+  world.nextLetterDistance = start.distance + getLetterInterval(start.level);
+  world.lastDroneFire = -Infinity;
+  world.level = start.level;
+  world.chunkRows = [];
+  world.boss = null;
+
+  // Resumed save: the shop portal had not been reached yet
+  if (start.shopPortal) {
+    world.objects.push(createShopPortal(world.pool));
+  }
+  world.revision++;
+};
+
+// Back on the ground, e.g. when leaving the shop
+export const landPlayer = (player: PlayerState) => {
+  player.isJumping = false;
+  player.jumpsPerformed = 0;
+  player.velocityY = 0;
+  player.spin = 0;
+  player.y = 0;
+  player.slideTime = 0;
+};
+
+export const isSliding = (player: PlayerState) => player.slideTime > 0;
+
+export const getPlayerHeight = (player: PlayerState) => isSliding(player) ? SLIDE_HEIGHT : PLAYER_HEIGHT;
+
+const isHazard = (obj: GameObject) => getHitbox(obj.type)?.layer === 'HAZARD';
+
+// What the Assist mode alert should advise against a hazard
+export const getAssistHint = (type: ObjectType): AssistHint => type === ObjectType.BARRIER ? 'SLIDE' : 'JUMP';
+
+// How far ahead an incoming missile starts the audio warning
+export const MISSILE_WARNING_RANGE = 120;
+
+// Closest live missile still in front of the player, if any is in warning range
+export const findIncomingMissile = (world: WorldState): GameObject | null => {
+  let closest: GameObject | null = null;
+  for (const obj of world.objects) {
+      if (!obj.active || obj.type !== ObjectType.MISSILE) continue;
+      const z = obj.position[2];
+      if (z < -MISSILE_WARNING_RANGE || z > 0) continue;
+      if (!closest || z > closest.position[2]) closest = obj;
+  }
+  return closest;
+};
+
+const burst = (events: WorldEvent[], obj: GameObject, color: string, burstScale?: number) => {
+  events.push({ type: 'BURST', position: [...obj.position] as [number, number, number], color, burstScale });
+};
+
+const getRandomLane = (laneCount: number) => {
+    const max = Math.floor(laneCount / 2);
+    return random.spawn.int(-max, max);
+};
+
+export const createGem = (pool: ObjectPool, x: number, z: number, y: number = 1.2, rarity: GemRarity = 'COMMON'): GameObject => {
+    const gem = pool.acquire(ObjectType.GEM, x, y, z);
+    gem.color = GEM_RARITIES[rarity].color;
+    gem.points = GEM_RARITIES[rarity].points;
+    return gem;
+};
+
+// Generate a random Gem with properties based on rarity
+export const createRandomGem = (pool: ObjectPool, x: number, z: number, y: number = 1.2): GameObject => {
+    const rand = random.spawn.next();
+    let rarity: GemRarity = 'COMMON'; // Cyan
+
+    // 60% Cyan, 30% Gold, 9% Purple, 1% Green
+    if (rand > 0.99) {
+        // Emerald: special healing logic handled in collection
+        rarity = 'HEALING';
+    } else if (rand > 0.90) {
+        // Amethyst
+        rarity = 'RARE';
+    } else if (rand > 0.60) {
+        // Gold
+        rarity = 'UNCOMMON';
+    }
+
+    return createGem(pool, x, z, y, rarity);
+};
+
+const createObstacle = (pool: ObjectPool, x: number, z: number, y: number = OBSTACLE_HEIGHT / 2) => {
+    const obstacle = pool.acquire(ObjectType.OBSTACLE, x, y, z);
+    obstacle.color = '#ff0054';
+    return obstacle;
+};
+
+const createAlien = (pool: ObjectPool, x: number, z: number, y: number = 1.5, strafes?: boolean) => {
+    const alien = pool.acquire(ObjectType.ALIEN, x, y, z);
+    alien.color = '#00ff00';
+    alien.hasFired = false;
+    alien.strafes = strafes;
+    return alien;
+};
+
+const createMissile = (pool: ObjectPool, x: number, z: number) => {
+    const missile = pool.acquire(ObjectType.MISSILE, x, 1.0, z);
+    missile.color = '#ff0000';
+    return missile;
+};
+
+const createLaserGate = (pool: ObjectPool, x: number, z: number, sweepDirection: number) => {
+    const laser = pool.acquire(ObjectType.LASER_GATE, x, LASER_HEIGHT, z);
+    laser.color = '#ff2200';
+    laser.sweepDirection = sweepDirection;
+    return laser;
+};
+
+const createBarrier = (pool: ObjectPool, x: number, z: number, y: number = BARRIER_HEIGHT) => {
+    const barrier = pool.acquire(ObjectType.BARRIER, x, y, z);
+    barrier.color = '#ffaa00';
+    return barrier;
+};
+
+// One of the letters still missing from the word, or null once it is complete
+const createNeededLetter = (pool: ObjectPool, x: number, z: number, word: TargetWord, collectedLetters: number[]): GameObject | null => {
+    const availableIndices = word.letters.map((_, i) => i).filter(i => !collectedLetters.includes(i));
+    if (availableIndices.length === 0) return null;
+
+    const chosenIndex = random.spawn.pick(availableIndices);
+    const letter = pool.acquire(ObjectType.LETTER, x, 1.0, z);
+    letter.color = word.colors[chosenIndex];
+    letter.value = word.letters[chosenIndex];
+    letter.targetIndex = chosenIndex;
+    return letter;
+};
+
+// Destroy all hazards in front of the player
+export const blastHazards = (world: WorldState, events: WorldEvent[]) => {
+  let blasted = false;
+  world.objects.forEach(obj => {
+      // Check if in range (z < 5 (player is at 0) and z > -150)
+      if (obj.active && isHazard(obj) && obj.position[2] < 5 && obj.position[2] > -150) {
+          obj.active = false;
+          blasted = true;
+          burst(events, obj, '#ff8800', 2);
+      }
+  });
+  if (blasted) world.revision++;
+};
+
+// --- Moving hazards ---
+
+const approach = (from: number, to: number, step: number) =>
+  Math.abs(to - from) <= step ? to : from + Math.sign(to - from) * step;
+
+// Sideways movement of a hazard for one tick. dt is already slowed by time warp.
+const moveHazard = (obj: GameObject, state: GameState, dt: number) => {
+  if (obj.type === ObjectType.OBSTACLE && obj.targetX !== undefined && obj.position[2] > DRIFT_START_Z) {
+      obj.position[0] = approach(obj.position[0], obj.targetX, DRIFT_SPEED * dt);
+  } else if (obj.type === ObjectType.ALIEN && obj.strafes && !obj.hasFired) {
+      obj.position[0] = approach(obj.position[0], state.playerLane * LANE_WIDTH, STRAFE_SPEED * dt);
+  } else if (obj.type === ObjectType.LASER_GATE) {
+      // Bounces between the outer lanes
+      const maxX = Math.floor(state.laneCount / 2) * LANE_WIDTH;
+      const direction = obj.sweepDirection ?? 1;
+      const x = obj.position[0] + direction * LASER_SWEEP_SPEED * dt;
+      if (Math.abs(x) >= maxX) {
+          obj.position[0] = Math.sign(x) * maxX;
+          obj.sweepDirection = -direction;
+      } else {
+          obj.position[0] = x;
+      }
+  }
+};
+
+// --- Boss ---
+
+// Where the exposed core hangs, for effects and sound
+export const BOSS_CORE_POSITION: [number, number, number] = [0, BOSS_EXPOSED_Y, BOSS_Z];
+
+// Damages the boss if its core is exposed. Returns true if the hit landed.
+const hitBoss = (world: WorldState, amount: number, events: WorldEvent[]) => {
+  if (!world.boss || !damageBoss(world.boss, amount)) return false;
+  events.push({ type: 'BOSS_HIT', position: [...BOSS_CORE_POSITION] as [number, number, number] });
+  events.push({ type: 'BURST', position: [...BOSS_CORE_POSITION] as [number, number, number], color: '#ff3366', burstScale: 1.5 });
+  return true;
+};
+
+const runBossCommand = (world: WorldState, host: WorldHost, command: BossCommand, spawns: GameObject[], events: WorldEvent[]) => {
+  switch (command.type) {
+      case 'TELEGRAPH':
+          events.push({ type: 'BOSS_WARNING' });
+          break;
+      case 'MISSILES':
+          command.lanes.forEach(lane => {
+              const missile = createMissile(world.pool, lane * LANE_WIDTH, BOSS_Z);
+              spawns.push(missile);
+              events.push({ type: 'MISSILE_LAUNCH', position: [...missile.position] as [number, number, number] });
+          });
+          break;
+      case 'MINIONS':
+          command.lanes.forEach(lane => {
+              spawns.push(createAlien(world.pool, lane * LANE_WIDTH, BOSS_Z));
+          });
+          break;
+      case 'CHARGE_GEMS':
+          // Close enough to reach the player while the core is still open
+          command.lanes.forEach(lane => {
+              const gem = createGem(world.pool, lane * LANE_WIDTH, BOSS_Z / 2);
+              gem.color = CHARGE_GEM_COLOR;
+              gem.points = 0;
+              gem.isCharge = true;
+              spawns.push(gem);
+          });
+          break;
+      case 'DEFEATED':
+          world.boss = null;
+          events.push({ type: 'BOSS_DEFEATED', position: [...BOSS_CORE_POSITION] as [number, number, number] });
+          events.push({ type: 'BURST', position: [...BOSS_CORE_POSITION] as [number, number, number], color: '#ffaa00', burstScale: 4 });
+          host.getState().defeatBoss();
+          break;
+  }
+};
+
+// Runs the boss fight the store asked for: creates the boss on the first
+// tick, resolves beam hits and keeps the HUD's copy of the health current
+const stepBossFight = (world: WorldState, host: WorldHost, dt: number, spawns: GameObject[], events: WorldEvent[]) => {
+  const state = host.getState();
+  if (!state.bossFight) return;
+  if (!world.boss) world.boss = createBoss(state.level);
+
+  const boss = world.boss;
+  stepBoss(boss, dt * 1000, state.laneCount, random.spawn).forEach(command => runBossCommand(world, host, command, spawns, events));
+  if (!world.boss) return;
+
+  const player = world.player;
+  if (!player.isInvincible && isBeamHitting(boss, player.x, player.y)) hitPlayer(world, host, ObjectType.BOSS, events);
+
+  const { bossFight, setBossFight } = host.getState();
+  if (bossFight && (bossFight.health !== boss.health || bossFight.phase !== boss.phase)) {
+      setBossFight({ health: boss.health, maxHealth: boss.maxHealth, phase: boss.phase });
+  }
+};
+
+// --- Player ---
+
+const changeLane = (world: WorldState, host: WorldHost, direction: number) => {
+  const { laneCount, setPlayerLane } = host.getState();
+  const maxLane = Math.floor(laneCount / 2);
+  const player = world.player;
+  player.lane = Math.max(Math.min(player.lane + direction, maxLane), -maxLane);
+  setPlayerLane(player.lane);
+};
+
+const triggerJump = (world: WorldState, host: WorldHost, events: WorldEvent[]) => {
+  const player = world.player;
+  const maxJumps = 1 + extraJumps(host.getState().inventory);
+
+  player.slideTime = 0; // Jumping gets back up
+
+  if (!player.isJumping) {
+      events.push({ type: 'JUMP', double: false });
+      player.isJumping = true;
+      player.jumpsPerformed = 1;
+      player.velocityY = JUMP_FORCE;
+  } else if (player.jumpsPerformed < maxJumps) {
+      events.push({ type: 'JUMP', double: true });
+      player.jumpsPerformed += 1;
+      player.velocityY = JUMP_FORCE;
+      player.spin = 0;
+  }
+};
+
+const triggerSlide = (world: WorldState, events: WorldEvent[]) => {
+  const player = world.player;
+  // Mid-air, dive back down to slide on landing
+  if (player.isJumping) player.velocityY = Math.min(player.velocityY, -JUMP_FORCE);
+  player.slideTime = SLIDE_DURATION;
+  events.push({ type: 'SLIDE' });
+};
+
+const applyAction = (world: WorldState, host: WorldHost, action: InputAction, events: WorldEvent[]) => {
+  const { activateImmortality, activateTimeWarp, triggerSonicBlast } = host.getState();
+  switch (action) {
+      case InputAction.LANE_LEFT: changeLane(world, host, -1); break;
+      case InputAction.LANE_RIGHT: changeLane(world, host, 1); break;
+      case InputAction.JUMP: triggerJump(world, host, events); break;
+      case InputAction.SLIDE: triggerSlide(world, events); break;
+      case InputAction.IMMORTALITY: activateImmortality(); break;
+      case InputAction.TIME_WARP: activateTimeWarp(); break;
+      case InputAction.SONIC_BLAST:
+          if (triggerSonicBlast()) {
+              events.push({ type: 'SONIC_BLAST' });
+              blastHazards(world, events);
+              hitBoss(world, SONIC_BLAST_BOSS_DAMAGE, events);
+          }
+          break;
+  }
+};
+
+const stepPlayer = (world: WorldState, host: WorldHost, dt: number) => {
+  const { laneCount, isTimeWarpActive, setPlayerLane, gameMode, isShopInvincible, isImmortalityActive } = host.getState();
+  const player = world.player;
+
+  // Lane count shrinks back to 3 on a new run
+  const maxLane = Math.floor(laneCount / 2);
+  if (Math.abs(player.lane) > maxLane) {
+      player.lane = Math.max(Math.min(player.lane, maxLane), -maxLane);
+      setPlayerLane(player.lane);
+  }
+
+  const timeFactor = isTimeWarpActive ? 0.5 : 1.0;
+  const adjustedDelta = dt * timeFactor;
+
+  const targetX = player.lane * LANE_WIDTH;
+  player.x += (targetX - player.x) * (dt * 15);
+
+  if (player.slideTime > 0) player.slideTime = Math.max(0, player.slideTime - adjustedDelta * 1000);
+
+  if (player.isJumping) {
+      player.y += player.velocityY * adjustedDelta;
+      player.velocityY -= GRAVITY * adjustedDelta;
+
+      if (player.y <= 0) {
+          player.y = 0;
+          player.isJumping = false;
+          player.jumpsPerformed = 0;
+          player.velocityY = 0;
+      }
+
+      if (player.jumpsPerformed === 2) {
+           player.spin -= adjustedDelta * 15;
+           if (player.spin < -Math.PI * 2) player.spin = -Math.PI * 2;
+      }
+  }
+
+  // Check damage invincibility timeout
+  if (player.isInvincible && gameMode !== GameMode.CHEAT && !isShopInvincible && !isImmortalityActive) {
+       if (world.time - player.lastDamageTime > DAMAGE_INVINCIBILITY) {
+          player.isInvincible = false;
+       }
+  }
+};
+
+const hitPlayer = (world: WorldState, host: WorldHost, cause: ObjectType, events: WorldEvent[]) => {
+  const { takeDamage, isImmortalityActive, gameMode, isShopInvincible } = host.getState();
+  const player = world.player;
+  const protectedHit = player.isInvincible || isImmortalityActive || isShopInvincible || gameMode === GameMode.CHEAT;
+
+  const result = takeDamage(cause);
+  if (result === 'REVIVED') blastHazards(world, events);
+  if (protectedHit || result === 'ABSORBED') return;
+
+  events.push({ type: 'DAMAGE' });
+  player.isInvincible = true;
+  player.lastDamageTime = world.time;
+};
+
+// --- Track ---
+
+const fireDrone = (world: WorldState, events: WorldEvent[]) => {
+  if (world.time - world.lastDroneFire <= DRONE_INTERVAL) return;
+
+  let targetObj: GameObject | null = null;
+  let minDist = 999;
+
+  // Find closest hazard in front of player
+  for (const obj of world.objects) {
+       if (obj.active && isHazard(obj) && obj.position[2] < 0 && obj.position[2] > -40) {
+            const d = Math.abs(obj.position[2]);
+            if (d < minDist) {
+                minDist = d;
+                targetObj = obj;
+            }
+       }
+  }
+
+  if (targetObj) {
+      targetObj.active = false;
+      world.lastDroneFire = world.time;
+      world.revision++;
+
+      // Visual Effect for Drone Shot
+      events.push({ type: 'DRONE_SHOT', position: [...targetObj.position] as [number, number, number] });
+      burst(events, targetObj, '#00ccff', 0.5);
+  } else if (hitBoss(world, DRONE_BOSS_DAMAGE, events)) {
+      // Nothing close to clear: shoot the exposed boss core instead
+      world.lastDroneFire = world.time;
+      events.push({ type: 'DRONE_SHOT', position: [...BOSS_CORE_POSITION] as [number, number, number] });
+  }
+};
+
+// Called when the level changed since the last step: clear the track and spawn the shop portal
+const startLevel = (world: WorldState, level: number) => {
+  world.level = level;
+  if (level > 1) {
+      world.objects = world.objects.filter(obj => {
+          if (obj.position[2] > -80) return true;
+          world.pool.release(obj);
+          return false;
+      });
+      world.objects.push(createShopPortal(world.pool));
+      world.chunkRows = [];
+      world.boss = null;
+      world.nextLetterDistance = world.distance - SPAWN_DISTANCE + getLetterInterval(level);
+      world.revision++;
+  }
+};
+
+const createChunkObject = ({ pool }: WorldState, { lane, cell }: PlacedCell, z: number, state: GameState): GameObject => {
+  const x = lane * LANE_WIDTH;
+  switch (cell.type) {
+      case ObjectType.GEM:
+          return cell.rarity ? createGem(pool, x, z, cell.height, cell.rarity) : createRandomGem(pool, x, z, cell.height);
+      case ObjectType.LETTER:
+          return createNeededLetter(pool, x, z, state.targetWord, state.collectedLetters) ?? createRandomGem(pool, x, z, cell.height);
+      case ObjectType.ALIEN:
+          return createAlien(pool, x, z, cell.height);
+      case ObjectType.OBSTACLE:
+          return createObstacle(pool, x, z, cell.height);
+      case ObjectType.BARRIER:
+          return createBarrier(pool, x, z, cell.height);
+  }
+};
+
+// Appends the next row to `objects` if the track ahead has room. Returns true if anything spawned.
+export const spawnRow = (world: WorldState, state: GameState, objects: GameObject[]) => {
+  const { speed, laneCount, level, collectedLetters, targetWord, inventory, isPreview, editorChunk } = state;
+
+  let furthestZ = 0;
+  const staticObjects = objects.filter(o => o.type !== ObjectType.MISSILE);
+
+  if (staticObjects.length > 0) {
+      furthestZ = Math.min(...staticObjects.map(o => o.position[2]));
+  } else {
+      furthestZ = -20;
+  }
+
+  if (furthestZ <= -SPAWN_DISTANCE) return false;
+
+  // The track stays clear while the boss fights
+  if (world.boss || state.bossFight) return false;
+
+  const minGap = getRowGap(speed);
+  const spawnZ = Math.min(furthestZ - minGap, -SPAWN_DISTANCE);
+
+  // Editor preview: the chunk under edit on repeat, with a breather between passes
+  if (isPreview && editorChunk && world.chunkRows.length === 0) {
+      world.chunkRows = placeChunk(editorChunk, laneCount, random.spawn, false);
+      world.chunkRows[0].gap += PREVIEW_REPEAT_GAP;
+  }
+
+  // An authored chunk in progress finishes before anything else spawns
+  const chunkRow = world.chunkRows.shift();
+  if (chunkRow) {
+      const rowZ = Math.min(furthestZ - minGap * chunkRow.gap, -SPAWN_DISTANCE);
+      chunkRow.cells.forEach(cell => objects.push(createChunkObject(world, cell, rowZ, state)));
+      return true;
+  }
+
+  const isLetterDue = world.distance >= world.nextLetterDistance;
+
+  // Chance to spawn *something* (vs empty space)
+  const baseSpawnCheck = 0.9;
+
+  if (isLetterDue) {
+      const lane = getRandomLane(laneCount);
+      const letter = createNeededLetter(world.pool, lane * LANE_WIDTH, spawnZ, targetWord, collectedLetters);
+
+      if (letter) {
+          objects.push(letter);
+          world.nextLetterDistance += getLetterInterval(level);
+      } else {
+         objects.push(createRandomGem(world.pool, lane * LANE_WIDTH, spawnZ));
+      }
+      return true;
+  }
+
+  if (random.spawn.next() >= baseSpawnCheck) return false;
+
+  // Authored chunk or a random row, by weight
+  const chunk = pickChunk(getEligibleChunks(level, laneCount), random.spawn);
+  if (chunk) {
+      world.chunkRows = placeChunk(chunk, laneCount, random.spawn);
+      const firstRow = world.chunkRows.shift()!;
+      firstRow.cells.forEach(cell => objects.push(createChunkObject(world, cell, spawnZ, state)));
+      return true;
+  }
+
+  // Laser gate: a row of its own, sweeping over the whole track
+  if (level >= LASER_MIN_LEVEL && random.spawn.next() < LASER_CHANCE) {
+      objects.push(createLaserGate(world.pool, getRandomLane(laneCount) * LANE_WIDTH, spawnZ, random.spawn.next() < 0.5 ? 1 : -1));
+      return true;
+  }
+
+  // Scaling Obstacle Probability:
+  // Base 20%, increases by 6% per level (capped at 80%) to significantly increase difficulty
+  const baseObstacleProb = 0.20 + (level * 0.06);
+  let obstacleProb = Math.min(0.8, baseObstacleProb);
+
+  // Luck Charm reduces obstacle probability by 20% relative
+  obstacleProb *= itemMultiplier(inventory, 'obstacleChance');
+
+  const isObstacle = random.spawn.next() < obstacleProb;
+
+  if (!isObstacle) {
+      const lane = getRandomLane(laneCount);
+      objects.push(createRandomGem(world.pool, lane * LANE_WIDTH, spawnZ));
+      return true;
+  }
+
+  const availableLanes: number[] = [];
+  const maxLane = Math.floor(laneCount / 2);
+
+  // Alien Spawn Rate also scales with level
+  // Level 2 start: 20%. Level 10: 40%.
+  const alienBase = 0.2 + (level * 0.02);
+  const spawnAlien = level >= 2 && random.spawn.next() < Math.min(0.5, alienBase);
+
+  for (let i = -maxLane; i <= maxLane; i++) availableLanes.push(i);
+  random.spawn.shuffle(availableLanes);
+
+  if (spawnAlien) {
+      let alienCount = 1;
+      const pAlien = random.spawn.next();
+      if (pAlien > 0.7) alienCount = Math.min(2, availableLanes.length);
+      if (pAlien > 0.9 && availableLanes.length >= 3) alienCount = 3;
+
+      for (let k = 0; k < alienCount; k++) {
+          const lane = availableLanes[k];
+          const strafes = level >= STRAFE_MIN_LEVEL && random.spawn.next() < STRAFE_CHANCE;
+          objects.push(createAlien(world.pool, lane * LANE_WIDTH, spawnZ, 1.5, strafes));
+      }
+
+      // Spawn Gems in the remaining empty lanes
+      for (let k = alienCount; k < availableLanes.length; k++) {
+           if (random.spawn.next() < 0.4) {
+               const lane = availableLanes[k];
+               objects.push(createRandomGem(world.pool, lane * LANE_WIDTH, spawnZ));
+           }
+      }
+      return true;
+  }
+
+  let countToSpawn = 1;
+  const p = random.spawn.next();
+
+  // Increased probability of multi-lane blockades at higher levels
+  const multiLaneChance = level > 3 ? 0.4 + (level * 0.05) : 0.2; // Cap at ~0.9
+
+  if (p < multiLaneChance) {
+       // High level multi-spawn
+       if (availableLanes.length >= 3) countToSpawn = 3;
+       else countToSpawn = Math.min(2, availableLanes.length);
+  } else if (p < multiLaneChance + 0.3) {
+       countToSpawn = Math.min(2, availableLanes.length);
+  } else {
+       countToSpawn = 1;
+  }
+
+  // Always leave at least one lane open if spawning max lanes (e.g. 3 lanes, don't spawn 3 obstacles)
+  // Unless user has double jump/skills to go over, but safe play is 1 open lane.
+  if (countToSpawn >= availableLanes.length && availableLanes.length > 1) {
+      countToSpawn = availableLanes.length - 1;
+  }
+
+  // Spawn obstacles in selected lanes
+  for (let i = 0; i < countToSpawn; i++) {
+      const lane = availableLanes[i];
+      const laneX = lane * LANE_WIDTH;
+
+      if (level >= BARRIER_MIN_LEVEL && random.spawn.next() < BARRIER_CHANCE) {
+          objects.push(createBarrier(world.pool, laneX, spawnZ));
+          // A gem low under the bar for sliding through
+          if (random.spawn.next() < 0.4) objects.push(createRandomGem(world.pool, laneX, spawnZ, 0.4));
+          continue;
+      }
+
+      const obstacle = createObstacle(world.pool, laneX, spawnZ);
+
+      // Some slide over to a neighbouring lane on the way in
+      if (level >= DRIFT_MIN_LEVEL && random.spawn.next() < DRIFT_CHANCE) {
+          const side = lane === maxLane ? -1 : lane === -maxLane ? 1 : random.spawn.next() < 0.5 ? -1 : 1;
+          obstacle.targetX = (lane + side) * LANE_WIDTH;
+      }
+      objects.push(obstacle);
+
+      // HIGH RISK / HIGH REWARD GEM
+      // 40% chance to spawn a gem ABOVE the obstacle
+      if (random.spawn.next() < 0.4) {
+           // Height 2.5 requires a jump/double jump
+           objects.push(createRandomGem(world.pool, laneX, spawnZ, 2.5));
+      }
+  }
+
+  // Spawn Gems in EMPTY lanes (Safe Gems)
+  for (let i = countToSpawn; i < availableLanes.length; i++) {
+      if (random.spawn.next() < 0.4) {
+           const lane = availableLanes[i];
+           const laneX = lane * LANE_WIDTH;
+           objects.push(createRandomGem(world.pool, laneX, spawnZ));
+      }
+  }
+  return true;
+};
+
+const stepTrack = (world: WorldState, host: WorldHost, dt: number, events: WorldEvent[]) => {
+  const state = host.getState();
+  const { speed, playerLane, setAssistHint, gameMode, isTimeWarpActive, inventory } = state;
+  const magnet = getMagnet(inventory);
+  const player = world.player;
+
+  // Apply Time Warp factor
+  const speedFactor = isTimeWarpActive ? 0.5 : 1.0;
+  const effectiveSpeed = speed * speedFactor;
+
+  // Level up (letter completed on the previous tick)
+  if (state.level !== world.level) startLevel(world, state.level);
+
+  const dist = effectiveSpeed * dt;
+  world.distance += dist;
+
+  if (hasItem(inventory, 'DRONE')) fireDrone(world, events);
+
+  // 1. Move & Update. Kept objects are compacted to the front of the array in place.
+  const objects = world.objects;
+  let keptCount = 0;
+  const newSpawns: GameObject[] = [];
+  let changed = false;
+
+  stepBossFight(world, host, dt * speedFactor, newSpawns, events);
+
+  // Jump Assist Scanner Logic
+  let threatInCurrentLane: GameObject | null = null; // The closest one
+  const lookAheadMin = -(effectiveSpeed * 0.7);
+  const lookAheadMax = -(effectiveSpeed * 0.25);
+  const playerX = playerLane * LANE_WIDTH;
+  const playerBox = getPlayerBox(player.x, player.y, getPlayerHeight(player));
+
+  for (let i = 0; i < objects.length; i++) {
+      const obj = objects[i];
+      // Standard Movement
+      let moveAmount = dist;
+
+      if (obj.type === ObjectType.MISSILE) {
+          moveAmount += (MISSILE_SPEED * speedFactor) * dt;
+      }
+
+      const prevZ = obj.position[2];
+      obj.position[2] += moveAmount;
+
+      // --- MAGNET LOGIC (Tiered) ---
+      if (magnet && obj.active && obj.type === ObjectType.GEM) {
+          const zDist = Math.abs(obj.position[2]);
+
+          if (zDist < magnet.range) {
+               const lerpSpeed = dt * magnet.speed;
+               obj.position[0] += (player.x - obj.position[0]) * lerpSpeed;
+               obj.position[1] += (player.y + 1.0 - obj.position[1]) * lerpSpeed;
+          }
+      }
+
+      if (obj.active) moveHazard(obj, state, dt * speedFactor);
+
+      // --- JUMP ASSIST SCANNER ---
+      if (gameMode === GameMode.ASSIST && obj.active && isHazard(obj)) {
+          const inLane = Math.abs(obj.position[0] - playerX) < (LANE_WIDTH * 0.4);
+          if (inLane && obj.position[2] > lookAheadMin && obj.position[2] < lookAheadMax) {
+              if (!threatInCurrentLane || obj.position[2] > threatInCurrentLane.position[2]) threatInCurrentLane = obj;
+          }
+      }
+
+      // Alien AI Logic
+      if (obj.type === ObjectType.ALIEN && obj.active && !obj.hasFired && obj.position[2] > -90) {
+          obj.hasFired = true;
+          newSpawns.push(createMissile(world.pool, obj.position[0], obj.position[2] + 2));
+          events.push({ type: 'MISSILE_LAUNCH', position: [...obj.position] as [number, number, number] });
+          burst(events, obj, '#ff00ff');
+      }
+
+      let keep = true;
+      if (obj.active && collides(playerBox, obj, prevZ)) {
+          switch (getHitbox(obj.type)!.layer) {
+              case 'TRIGGER':
+                  state.setDistance(Math.floor(world.distance)); // Save checkpoint position
+                  state.openShop();
+                  events.push({ type: 'PORTAL' });
+                  obj.active = false;
+                  changed = true;
+                  keep = false;
+                  break;
+
+              case 'HAZARD':
+                  obj.active = false;
+                  changed = true;
+                  hitPlayer(world, host, obj.type, events);
+                  if (obj.type === ObjectType.MISSILE) burst(events, obj, '#ff4400');
+                  break;
+
+              case 'PICKUP':
+                  if (obj.type === ObjectType.GEM && obj.isCharge) {
+                      hitBoss(world, CHARGE_GEM_DAMAGE, events);
+                      events.push({ type: 'GEM' });
+                  } else if (obj.type === ObjectType.GEM) {
+                      // Check if healing gem (Green)
+                      const isHealing = obj.color === GEM_RARITIES.HEALING.color;
+                      state.collectGem(obj.points || 10, isHealing);
+                      events.push({ type: 'GEM' });
+                  }
+                  if (obj.type === ObjectType.LETTER && obj.targetIndex !== undefined) {
+                      // Keep the stored distance current for the level-up checkpoint
+                      state.setDistance(Math.floor(world.distance));
+                      state.collectLetter(obj.targetIndex);
+                      events.push({ type: 'LETTER' });
+                  }
+
+                  burst(events, obj, obj.color || '#ffffff');
+                  obj.active = false;
+                  changed = true;
+                  break;
+          }
+      }
+
+      if (obj.position[2] > REMOVE_DISTANCE) {
+          keep = false;
+          changed = true;
+      }
+
+      if (keep) {
+          objects[keptCount++] = obj;
+      } else {
+          world.pool.release(obj);
+      }
+  }
+  objects.length = keptCount;
+
+  // Update Global Assist Alert
+  setAssistHint(gameMode === GameMode.ASSIST && threatInCurrentLane ? getAssistHint(threatInCurrentLane.type) : null);
+
+  // Add any newly spawned entities
+  if (newSpawns.length > 0) {
+      objects.push(...newSpawns);
+      changed = true;
+  }
+
+  // 2. Spawning Logic (uses the stats from the start of the tick)
+  if (spawnRow(world, state, objects)) changed = true;
+
+  if (changed) world.revision++;
+};
+
+// Advances the world by one tick: player input and physics first, then the track
+export const stepWorld = (world: WorldState, dt: number, actions: InputAction[], host: WorldHost): WorldEvent[] => {
+  const events: WorldEvent[] = [];
+
+  actions.forEach(action => applyAction(world, host, action, events));
+  stepPlayer(world, host, dt);
+  stepTrack(world, host, dt, events);
+
+  world.time += dt * 1000;
+  return events;
+};
+
+// The world the game scene renders from
+export const world = createWorld();
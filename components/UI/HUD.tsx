@@ -15,203 +15,75 @@
 */
 
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Heart, Zap, Trophy, MapPin, Diamond, Rocket, ArrowUpCircle, Shield, Activity, PlusCircle, Play, AlertTriangle, Crosshair, Skull, Magnet, Clock, Disc, Sparkles, Clover, Radio, Infinity as InfinityIcon, Flag, Bot, Cross, CreditCard, RefreshCw, ShoppingBag } from 'lucide-react';
-import { useStore } from '../../store';
-import { GameStatus, GEMINI_COLORS, ShopItem, RUN_SPEED_BASE, GameMode } from '../../types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Heart, Zap, Trophy, MapPin, Diamond, Rocket, Shield, Play, AlertTriangle, Crosshair, Skull, Clock, Radio, Infinity as InfinityIcon, Flag, RefreshCw, ShoppingBag, Film, Download, Upload, Pause, RotateCcw, Home, Medal, History, Settings, Gamepad2, Volume2, Monitor, Eye, LayoutGrid, Plus, Trash2, CheckCircle2, Type, Bug, CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useStore, useStorePick } from '../../store';
+import { GameStatus, RUN_SPEED_BASE, GameMode, InputAction, ObjectType, AssistHint, GemRarity, GEM_RARITIES } from '../../types';
 import { audio } from '../System/Audio';
-
-// Available Shop Items with drastically reduced prices
-const SHOP_ITEMS: ShopItem[] = [
-    {
-        id: 'DOUBLE_JUMP',
-        name: 'ダブルジャンプ',
-        description: '空中で2回目のジャンプが可能になる。',
-        cost: 200,
-        icon: ArrowUpCircle,
-        oneTime: true
-    },
-    {
-        id: 'MAX_LIFE',
-        name: '最大ライフUP',
-        description: 'ハートの最大値を1つ増やす (最大10)。',
-        cost: 300,
-        icon: Activity
-    },
-    {
-        id: 'HEAL',
-        name: '修理キット',
-        description: 'ライフを1つ回復する。',
-        cost: 100,
-        icon: PlusCircle
-    },
-    {
-        id: 'IMMORTAL',
-        name: '無敵モード',
-        description: 'スペース/タップで2.5秒間無敵 (クールダウン30秒)。',
-        cost: 600,
-        icon: Shield,
-        oneTime: true
-    },
-    {
-        id: 'MAGNET',
-        name: 'マグネット',
-        description: 'LvUPで範囲と速度UP (最大Lv5)。',
-        cost: 400,
-        icon: Magnet,
-        // Removed oneTime, handled by level check
-    },
-    {
-        id: 'SHIELD',
-        name: 'エネルギーシールド',
-        description: 'ダメージを1回防ぐ (最大3つまで保持)。',
-        cost: 150,
-        icon: Disc
-    },
-    {
-        id: 'TIME_WARP',
-        name: 'タイムワープ',
-        description: 'Shiftキーで5秒間時間を遅くする (解放スキル)。',
-        cost: 500,
-        icon: Clock,
-        oneTime: true
-    },
-    {
-        id: 'GEM_BOOSTER',
-        name: 'ジェムブースター',
-        description: '獲得するジェムの価値が2倍になる。',
-        cost: 800,
-        icon: Sparkles,
-        oneTime: true
-    },
-    {
-        id: 'LUCK_CHARM',
-        name: 'ラックチャーム',
-        description: '障害物が減り、ジェムが出やすくなる。',
-        cost: 400,
-        icon: Clover,
-        oneTime: true
-    },
-    {
-        id: 'SONIC_BLAST',
-        name: 'ソニックブラスト',
-        description: 'Zキーで前方の敵を一掃 (15秒毎)。',
-        cost: 1000,
-        icon: Radio,
-        oneTime: true
-    },
-    {
-        id: 'DRONE',
-        name: 'アタックドローン',
-        description: '前方の敵を自動攻撃するドローンを配備。',
-        cost: 6000,
-        icon: Bot,
-        oneTime: true
-    },
-    {
-        id: 'REVIVE',
-        name: '蘇生アンク',
-        description: '死亡時に一度だけ自動で復活する。',
-        cost: 4000,
-        icon: Cross,
-        oneTime: true // Technically a consumable but handled as one-time purchase until used
-    },
-    {
-        id: 'DISCOUNT',
-        name: 'VIPカード',
-        description: 'ショップ価格が永久に20%OFFになる。',
-        cost: 8000,
-        icon: CreditCard,
-        oneTime: true
-    }
-];
-
-// Helper to generate items based on current state
-const generateShopItems = (state: ReturnType<typeof useStore.getState>): ShopItem[] => {
-    const { hasDoubleJump, hasImmortality, magnetLevel, hasTimeWarp, shieldCount, hasGemBooster, hasLuckCharm, hasSonicBlast, hasDrone, hasRevive, hasDiscount, maxLives, lives } = state;
-    
-    // Filter out items that are already owned OR not applicable
-    let pool = SHOP_ITEMS.filter(item => {
-        if (item.id === 'DOUBLE_JUMP' && hasDoubleJump) return false;
-        if (item.id === 'IMMORTAL' && hasImmortality) return false;
-        if (item.id === 'MAGNET' && magnetLevel >= 5) return false;
-        if (item.id === 'TIME_WARP' && hasTimeWarp) return false;
-        if (item.id === 'GEM_BOOSTER' && hasGemBooster) return false;
-        if (item.id === 'LUCK_CHARM' && hasLuckCharm) return false;
-        if (item.id === 'SONIC_BLAST' && hasSonicBlast) return false;
-        if (item.id === 'DRONE' && hasDrone) return false;
-        if (item.id === 'REVIVE' && hasRevive) return false;
-        if (item.id === 'DISCOUNT' && hasDiscount) return false;
-        
-        // Limit shields to 3 max
-        if (item.id === 'SHIELD' && shieldCount >= 3) return false;
-
-        // Limit max lives to 10
-        if (item.id === 'MAX_LIFE' && maxLives >= 10) return false;
-
-        // Block HEAL if life is full
-        if (item.id === 'HEAL' && lives >= maxLives) return false;
-        
-        return true;
-    });
-
-    // Shuffle
-    pool = pool.sort(() => 0.5 - Math.random());
-    
-    // Pick top 3
-    let selected = pool.slice(0, 3);
-    
-    // If slots are empty, fill with Score Exchange
-    if (selected.length < 3) {
-        const needed = 3 - selected.length;
-        for(let i=0; i<needed; i++) {
-            selected.push({
-                id: 'EXCHANGE',
-                name: 'スコア換金',
-                description: '全ジェムをスコアに変換 (1ジェム=100点)',
-                cost: 0, // dynamic
-                icon: Trophy
-            });
-        }
-    }
-    
-    return selected;
-};
+import { formatSeed, parseSeed } from '../System/Random';
+import { input } from '../System/Input';
+import { replay, parseReplay, ShopAction } from '../System/Replay';
+import { simulation } from '../System/Simulation';
+import { records, RunEndCause, LEADERBOARD_SIZE } from '../System/Records';
+import { loadRun } from '../System/SaveGame';
+import { controls, BINDING_SLOTS, formatKey, formatButton } from '../System/Controls';
+import { useSettings, QualityPreset } from '../System/Settings';
+import { BossStatus } from '../System/Boss';
+import { ChunkCell, ChunkRow, ChunkDefinition, ChunkObjectType, RANDOM_ROW_WEIGHT, MAX_CELL_HEIGHT, chunkWidth, isChunkHazard, parseChunk, validateChunk } from '../System/Chunks';
+import { analyzeChunk, ChunkIssueKind, isChunkError } from '../System/ChunkCheck';
+import { getLevelStartSpeed } from '../System/World';
+import { WORD_PACKS, getWordPack } from '../System/Words';
+import { daily, getDailyDate, getDailySeed, getDailyModifiers, DAILY_LEVELS } from '../System/Daily';
+import { ITEMS, getItem, getItemPrice, getBlockReason, getStack, hasItem } from '../System/Items';
 
 const ShopScreen: React.FC = () => {
-    const store = useStore();
-    const { 
-        score, currency, buyItem, closeShop, spendCurrency, 
-        hasDoubleJump, hasImmortality, magnetLevel, hasTimeWarp, shieldCount, 
-        hasGemBooster, hasLuckCharm, hasSonicBlast, hasDrone, hasRevive, hasDiscount, 
-        maxLives, lives 
-    } = store;
-    const [items, setItems] = useState<ShopItem[]>([]);
+    const { score, currency, buyItem, closeShop, refreshShop, inventory, maxLives, lives, isReplay, shopLineup } = useStorePick(
+        'score', 'currency', 'buyItem', 'closeShop', 'refreshShop', 'inventory', 'maxLives', 'lives', 'isReplay', 'shopLineup'
+    );
+    const items = shopLineup.map(id => getItem(id)!);
+    const hasDiscount = hasItem(inventory, 'DISCOUNT');
 
-    useEffect(() => {
-        setItems(generateShopItems(store));
-    }, []); // Run once on open
+    // Every shop interaction is recorded so a replay makes the same purchases
+    const purchase = (id: string) => {
+        if (buyItem(id)) {
+            replay.recordShop(simulation.tick, { type: 'BUY', item: id });
+        }
+    };
 
     const handleRefresh = () => {
-        if (spendCurrency(100)) {
-            setItems(generateShopItems(useStore.getState()));
+        if (refreshShop()) {
+            audio.play('SHOP_REFRESH');
+            replay.recordShop(simulation.tick, { type: 'REFRESH' });
         }
     };
 
-    const handleBuyAll = () => {
-        items.forEach(item => {
-            const currentStore = useStore.getState();
-            let isValid = true;
-            if (item.id === 'HEAL' && currentStore.lives >= currentStore.maxLives) isValid = false;
-            if (item.id === 'SHIELD' && currentStore.shieldCount >= 3) isValid = false;
-            
-            let finalCost = currentStore.hasDiscount ? Math.floor(item.cost * 0.8) : item.cost;
-            if (item.id === 'EXCHANGE') finalCost = currentStore.currency;
+    const handleClose = () => {
+        replay.recordShop(simulation.tick, { type: 'CLOSE' });
+        closeShop();
+    };
 
-            if (isValid && currentStore.currency >= finalCost) {
-                 buyItem(item.id, finalCost);
+    // Replay: re-apply the recorded purchases one by one so they can be followed
+    useEffect(() => {
+        if (!isReplay) return;
+        const actions: ShopAction[] = [...replay.shopActionsFor(simulation.tick), { type: 'CLOSE' }];
+        const timer = setInterval(() => {
+            const action = actions.shift();
+            if (!action) return;
+            if (action.type === 'BUY') {
+                buyItem(action.item);
+            } else if (action.type === 'REFRESH') {
+                if (refreshShop()) audio.play('SHOP_REFRESH');
+            } else {
+                clearInterval(timer);
+                closeShop();
             }
-        });
+        }, 700);
+        return () => clearInterval(timer);
+    }, [isReplay]);
+
+    // buyItem re-checks every rule, so items that stopped being valid are skipped
+    const handleBuyAll = () => {
+        items.forEach(item => purchase(item.id));
     };
 
     return (
@@ -251,26 +123,23 @@ const ShopScreen: React.FC = () => {
 
                     {/* Inventory / Skills Grid */}
                     <div className="flex flex-wrap gap-2 justify-center md:justify-start">
-                        {/* Shield */}
-                        <div className={`flex items-center px-2 py-1 rounded border ${shieldCount > 0 ? 'bg-cyan-900/30 border-cyan-500/50 text-cyan-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}>
-                            <Disc className="w-4 h-4 mr-1" />
-                            <span className="text-xs font-mono font-bold">SHIELD x{shieldCount}</span>
-                        </div>
-                        {/* Magnet */}
-                        <div className={`flex items-center px-2 py-1 rounded border ${magnetLevel > 0 ? 'bg-pink-900/30 border-pink-500/50 text-pink-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}>
-                            <Magnet className="w-4 h-4 mr-1" />
-                            <span className="text-xs font-mono font-bold">MAG Lv.{magnetLevel}</span>
-                        </div>
+                        {/* Stackable items always show their count / level */}
+                        {ITEMS.filter(item => (item.maxStack ?? 0) > 1).map(item => {
+                            const Icon = item.icon;
+                            const stack = getStack(inventory, item.id);
+                            return (
+                                <div key={item.id} className={`flex items-center px-2 py-1 rounded border ${stack > 0 ? item.accent : 'bg-gray-800 border-gray-700 text-gray-500'}`}>
+                                    <Icon className="w-4 h-4 mr-1" />
+                                    <span className="text-xs font-mono font-bold">{item.badge?.(stack) ?? stack}</span>
+                                </div>
+                            );
+                        })}
                         
-                        {/* Icons for other skills */}
-                        {hasDoubleJump && <div title="Double Jump" className="p-1 bg-blue-900/30 border border-blue-500/50 rounded text-blue-400"><ArrowUpCircle className="w-4 h-4"/></div>}
-                        {hasImmortality && <div title="Immortality" className="p-1 bg-yellow-900/30 border border-yellow-500/50 rounded text-yellow-400"><Shield className="w-4 h-4"/></div>}
-                        {hasTimeWarp && <div title="Time Warp" className="p-1 bg-purple-900/30 border border-purple-500/50 rounded text-purple-400"><Clock className="w-4 h-4"/></div>}
-                        {hasSonicBlast && <div title="Sonic Blast" className="p-1 bg-orange-900/30 border border-orange-500/50 rounded text-orange-400"><Radio className="w-4 h-4"/></div>}
-                        {hasGemBooster && <div title="Gem Booster" className="p-1 bg-yellow-900/30 border border-yellow-500/50 rounded text-yellow-400"><Sparkles className="w-4 h-4"/></div>}
-                        {hasLuckCharm && <div title="Luck Charm" className="p-1 bg-green-900/30 border border-green-500/50 rounded text-green-400"><Clover className="w-4 h-4"/></div>}
-                        {hasDrone && <div title="Drone" className="p-1 bg-red-900/30 border border-red-500/50 rounded text-red-400"><Bot className="w-4 h-4"/></div>}
-                        {hasRevive && <div title="Revive" className="p-1 bg-teal-900/30 border border-teal-500/50 rounded text-teal-400"><Cross className="w-4 h-4"/></div>}
+                        {/* Icons for other owned items */}
+                        {ITEMS.filter(item => item.maxStack === 1 && hasItem(inventory, item.id)).map(item => {
+                            const Icon = item.icon;
+                            return <div key={item.id} title={item.name} className={`p-1 border rounded ${item.accent}`}><Icon className="w-4 h-4"/></div>;
+                        })}
                     </div>
                  </div>
                  
@@ -284,7 +153,7 @@ const ShopScreen: React.FC = () => {
                      <div className="flex gap-2">
                         <button 
                              onClick={handleRefresh}
-                             disabled={currency < 100}
+                             disabled={currency < 100 || isReplay}
                              className={`flex items-center px-4 py-2 rounded-lg border font-bold text-sm transition-all ${
                                  currency >= 100 
                                  ? 'bg-gray-800 border-gray-600 hover:bg-gray-700 hover:border-cyan-400 text-cyan-400' 
@@ -296,6 +165,7 @@ const ShopScreen: React.FC = () => {
                          </button>
                          <button 
                              onClick={handleBuyAll}
+                             disabled={isReplay}
                              className="flex items-center px-4 py-2 rounded-lg border font-bold text-sm transition-all bg-gradient-to-r from-yellow-600 to-orange-600 border-yellow-500 hover:brightness-110 text-white shadow-lg"
                          >
                              <ShoppingBag className="w-4 h-4 mr-2" />
@@ -307,35 +177,11 @@ const ShopScreen: React.FC = () => {
                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6 max-w-4xl w-full mb-8">
                      {items.length > 0 ? items.map((item, idx) => {
                          const Icon = item.icon;
-                         let finalCost = hasDiscount ? Math.floor(item.cost * 0.8) : item.cost;
-                         let canAfford = currency >= finalCost;
-                         if (item.id === 'EXCHANGE') {
-                             finalCost = currency;
-                             canAfford = currency > 0;
-                         }
-
-                         let isDisabled = !canAfford;
-                         let disabledReason = '';
-
-                         if (item.id === 'HEAL' && lives >= maxLives) { isDisabled = true; disabledReason = 'MAX LIFE'; }
-                         if (item.id === 'SHIELD' && shieldCount >= 3) { isDisabled = true; disabledReason = 'MAX'; }
-                         if (item.id === 'MAX_LIFE' && maxLives >= 10) { isDisabled = true; disabledReason = 'MAX'; }
-                         if (item.id === 'MAGNET' && magnetLevel >= 5) { isDisabled = true; disabledReason = 'MAX'; }
-
-                         if (item.id === 'DOUBLE_JUMP' && hasDoubleJump) { isDisabled = true; disabledReason = 'SOLD'; }
-                         if (item.id === 'IMMORTAL' && hasImmortality) { isDisabled = true; disabledReason = 'SOLD'; }
-                         if (item.id === 'TIME_WARP' && hasTimeWarp) { isDisabled = true; disabledReason = 'SOLD'; }
-                         if (item.id === 'GEM_BOOSTER' && hasGemBooster) { isDisabled = true; disabledReason = 'SOLD'; }
-                         if (item.id === 'LUCK_CHARM' && hasLuckCharm) { isDisabled = true; disabledReason = 'SOLD'; }
-                         if (item.id === 'SONIC_BLAST' && hasSonicBlast) { isDisabled = true; disabledReason = 'SOLD'; }
-                         if (item.id === 'DRONE' && hasDrone) { isDisabled = true; disabledReason = 'SOLD'; }
-                         if (item.id === 'REVIVE' && hasRevive) { isDisabled = true; disabledReason = 'SOLD'; }
-                         if (item.id === 'DISCOUNT' && hasDiscount) { isDisabled = true; disabledReason = 'SOLD'; }
-                         
-                         let name = item.name;
-                         if (item.id === 'MAGNET' && magnetLevel < 5) {
-                             name = `マグネット (Lv.${magnetLevel + 1})`;
-                         }
+                         // Prices and limits depend on currency, inventory and lives, all picked above
+                         const finalCost = getItemPrice(item, useStore.getState());
+                         const disabledReason = getBlockReason(item, useStore.getState()) ?? '';
+                         const isDisabled = !!disabledReason || currency < finalCost;
+                         const name = item.shopName ? item.shopName(getStack(inventory, item.id)) : item.name;
 
                          return (
                              <div key={`${item.id}-${idx}`} className="bg-gray-900/80 border border-gray-700 p-4 md:p-6 rounded-xl flex flex-col items-center text-center hover:border-cyan-500 transition-colors relative group">
@@ -346,8 +192,8 @@ const ShopScreen: React.FC = () => {
                                  <p className="text-gray-400 text-xs md:text-sm mb-4 h-10 md:h-12 flex items-center justify-center">{item.description}</p>
                                  
                                  <button 
-                                    onClick={() => buyItem(item.id, finalCost)}
-                                    disabled={isDisabled}
+                                    onClick={() => purchase(item.id)}
+                                    disabled={isDisabled || isReplay}
                                     className={`px-4 md:px-6 py-2 rounded font-bold w-full text-sm md:text-base flex items-center justify-center transition-all ${
                                         isDisabled 
                                         ? 'bg-gray-700 cursor-not-allowed opacity-50' 
@@ -374,7 +220,8 @@ const ShopScreen: React.FC = () => {
                  </div>
 
                  <button 
-                    onClick={closeShop}
+                    onClick={handleClose}
+                    disabled={isReplay}
                     className="flex items-center px-8 md:px-10 py-3 md:py-4 bg-gradient-to-r from-purple-600 to-pink-600 text-white font-bold text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_20px_rgba(255,0,255,0.4)]"
                  >
                      ミッション再開 <Play className="ml-2 w-5 h-5" fill="white" />
@@ -384,16 +231,952 @@ const ShopScreen: React.FC = () => {
     );
 };
 
+const CAUSE_LABELS: Partial<Record<RunEndCause, string>> = {
+    CLEARED: 'クリア',
+    [ObjectType.OBSTACLE]: '障害物に衝突',
+    [ObjectType.ALIEN]: 'エイリアンに衝突',
+    [ObjectType.MISSILE]: 'ミサイル被弾',
+    [ObjectType.BARRIER]: 'バリアに衝突',
+    [ObjectType.LASER_GATE]: 'レーザーに接触',
+    [ObjectType.BOSS]: 'マザーシップのビーム'
+};
+
+const ASSIST_HINT_LABELS: Record<AssistHint, string> = {
+    JUMP: 'ジャンプ！',
+    SLIDE: 'スライド！'
+};
+
+const MODE_LABELS: Record<GameMode, string> = {
+    [GameMode.NORMAL]: 'ノーマル',
+    [GameMode.ASSIST]: 'アシスト',
+    [GameMode.CHEAT]: 'チート',
+    [GameMode.DAILY]: 'デイリー'
+};
+
+const COURSE_OPTIONS: (number | null)[] = [3, 5, 10, 15, null];
+
+const formatCourse = (targetLevels: number | null) => targetLevels === null ? '∞' : `${targetLevels}`;
+
+const RecordsScreen: React.FC = () => {
+    const { setStatus, gameMode } = useStorePick('setStatus', 'gameMode');
+    const [mode, setMode] = useState<GameMode>(gameMode);
+    const [course, setCourse] = useState<number | null>(5);
+
+    const leaderboard = records.getLeaderboard(mode, course);
+    const history = records.getHistory();
+
+    const tabClass = (active: boolean) => `px-3 py-1 rounded-lg border text-sm font-bold transition-all ${
+        active ? 'bg-cyan-900/50 border-cyan-400 text-cyan-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+    }`;
+
+    return (
+        <div className="absolute inset-0 bg-black/90 z-[100] text-white pointer-events-auto backdrop-blur-sm overflow-y-auto">
+            <div className="flex flex-col items-center min-h-full py-8 px-4">
+                <h2 className="text-3xl md:text-4xl font-black text-cyan-400 mb-6 font-cyber tracking-widest">RECORDS</h2>
+
+                <div className="w-full max-w-2xl flex flex-wrap gap-2 justify-center mb-3">
+                    {Object.values(GameMode).map(m => (
+                        <button key={m} onClick={() => setMode(m)} className={tabClass(mode === m)}>{MODE_LABELS[m]}</button>
+                    ))}
+                </div>
+                <div className="w-full max-w-2xl flex flex-wrap gap-2 justify-center mb-6">
+                    {COURSE_OPTIONS.map(c => (
+                        <button key={formatCourse(c)} onClick={() => setCourse(c)} className={tabClass(course === c)}>
+                            {c === null ? 'ENDLESS' : `${c} LV`}
+                        </button>
+                    ))}
+                </div>
+
+                {/* Top N */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-6">
+                    <div className="flex items-center text-yellow-400 font-bold mb-3"><Medal className="w-5 h-5 mr-2" /> TOP {LEADERBOARD_SIZE}</div>
+                    {leaderboard.length === 0 ? (
+                        <p className="text-gray-500 text-sm text-center py-4">まだ記録がありません</p>
+                    ) : leaderboard.map((run, i) => (
+                        <div key={`${run.endedAt}-${i}`} className="flex items-center justify-between py-2 border-b border-gray-800 last:border-0 font-mono text-sm">
+                            <span className={`w-8 font-bold ${i === 0 ? 'text-yellow-400' : 'text-gray-400'}`}>{i + 1}</span>
+                            <span className="flex-1 text-white font-bold">{run.score.toLocaleString()}</span>
+                            <span className="w-20 text-purple-300 text-right">Lv.{run.level}</span>
+                            <span className="w-24 text-cyan-300 text-right">{run.distance} LY</span>
+                            <span className="w-24 text-gray-500 text-right">{new Date(run.endedAt).toLocaleDateString()}</span>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Recent Runs */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-8">
+                    <div className="flex items-center text-cyan-400 font-bold mb-3"><History className="w-5 h-5 mr-2" /> 最近のプレイ</div>
+                    {history.length === 0 ? (
+                        <p className="text-gray-500 text-sm text-center py-4">まだ記録がありません</p>
+                    ) : history.map((run, i) => (
+                        <div key={`${run.endedAt}-${i}`} className="flex items-center justify-between py-2 border-b border-gray-800 last:border-0 font-mono text-xs md:text-sm">
+                            <span className="w-20 text-gray-400">{MODE_LABELS[run.gameMode]} / {formatCourse(run.targetLevels)}</span>
+                            <span className="flex-1 text-white font-bold text-right">{run.score.toLocaleString()}</span>
+                            <span className="w-16 text-purple-300 text-right">Lv.{run.level}</span>
+                            <span className={`w-32 text-right ${run.cause === 'CLEARED' ? 'text-green-400' : 'text-red-400'}`}>
+                                {(run.cause && CAUSE_LABELS[run.cause]) ?? '-'}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+
+                <button
+                  onClick={() => setStatus(GameStatus.MENU)}
+                  className="px-8 py-3 bg-gray-800 border border-gray-600 hover:border-cyan-400 text-white font-bold rounded transition-all"
+                >
+                    戻る
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+// Days of a UTC month as YYYY-MM-DD, with nulls filling the first week up to its first day
+const getMonthDays = (year: number, month: number): (string | null)[] => {
+    const days: (string | null)[] = Array(new Date(Date.UTC(year, month, 1)).getUTCDay()).fill(null);
+    const count = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    for (let day = 1; day <= count; day++) days.push(getDailyDate(new Date(Date.UTC(year, month, day))));
+    return days;
+};
+
+// Today's challenge and a calendar of the results of past days
+const DailyScreen: React.FC = () => {
+    const { setStatus, startDaily } = useStorePick('setStatus', 'startDaily');
+    const today = getDailyDate();
+    const [selected, setSelected] = useState(today);
+    const [monthOffset, setMonthOffset] = useState(0); // 0 = this month
+
+    const now = new Date();
+    const shown = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + monthOffset, 1));
+    const days = getMonthDays(shown.getUTCFullYear(), shown.getUTCMonth());
+
+    const modifiers = getDailyModifiers(getDailySeed(selected));
+    const result = daily.getResult(selected);
+    const item = modifiers.item && getItem(modifiers.item);
+
+    return (
+        <div className="absolute inset-0 bg-black/90 z-[100] text-white pointer-events-auto backdrop-blur-sm overflow-y-auto">
+            <div className="flex flex-col items-center min-h-full py-8 px-4">
+                <h2 className="text-3xl md:text-4xl font-black text-orange-400 mb-6 font-cyber tracking-widest">DAILY CHALLENGE</h2>
+
+                {/* Selected day */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-4">
+                    <div className="flex items-center justify-between mb-3">
+                        <div className="flex items-center text-orange-400 font-bold"><CalendarDays className="w-5 h-5 mr-2" /> {selected}{selected === today && ' (今日)'}</div>
+                        <div className="text-xs text-gray-500 font-mono">SEED {formatSeed(getDailySeed(selected))} / {DAILY_LEVELS} LV</div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 text-sm mb-3">
+                        <div className="flex justify-between bg-gray-800/60 rounded px-3 py-2"><span className="text-gray-400">ワード</span><span className="font-bold">{getWordPack(modifiers.wordChoice.packId).name}</span></div>
+                        <div className="flex justify-between bg-gray-800/60 rounded px-3 py-2"><span className="text-gray-400">ライフ</span><span className="font-bold">{modifiers.lives}</span></div>
+                        <div className="flex justify-between bg-gray-800/60 rounded px-3 py-2"><span className="text-gray-400">初期ジェム</span><span className="font-bold">{modifiers.currency}</span></div>
+                        <div className="flex justify-between bg-gray-800/60 rounded px-3 py-2"><span className="text-gray-400">初期アイテム</span><span className="font-bold">{item ? item.name : 'なし'}</span></div>
+                    </div>
+                    <div className="flex justify-between font-mono text-sm border-t border-gray-800 pt-3">
+                        <span className="text-gray-400">ベスト <span className="text-white font-bold">{result ? result.best.toLocaleString() : '-'}</span>{result?.cleared && <span className="ml-2 text-green-400">CLEAR</span>}</span>
+                        <span className="text-gray-400">挑戦 <span className="text-white font-bold">{result?.attempts ?? 0}</span> 回</span>
+                    </div>
+                    {selected === today && (
+                        <button
+                          onClick={() => { audio.init(); startDaily(); }}
+                          className="mt-4 w-full py-3 bg-gradient-to-r from-orange-500 to-pink-600 text-white font-bold text-lg rounded hover:scale-[1.02] transition-all shadow-[0_0_20px_rgba(255,140,0,0.4)]"
+                        >
+                            今日のチャレンジを開始
+                        </button>
+                    )}
+                </div>
+
+                {/* Calendar */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-8">
+                    <div className="flex items-center justify-between mb-3">
+                        <button onClick={() => setMonthOffset(monthOffset - 1)} className="p-1 rounded border border-gray-700 hover:border-orange-400 text-gray-300">
+                            <ChevronLeft className="w-5 h-5" />
+                        </button>
+                        <div className="font-bold font-mono">{shown.getUTCFullYear()}年 {shown.getUTCMonth() + 1}月</div>
+                        <button onClick={() => setMonthOffset(monthOffset + 1)} disabled={monthOffset >= 0} className="p-1 rounded border border-gray-700 hover:border-orange-400 text-gray-300 disabled:opacity-30 disabled:hover:border-gray-700">
+                            <ChevronRight className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-7 gap-1 text-center text-xs">
+                        {WEEKDAY_LABELS.map(label => <div key={label} className="text-gray-500 py-1">{label}</div>)}
+                        {days.map((day, i) => {
+                            if (!day) return <div key={`pad-${i}`} />;
+                            const dayResult = daily.getResult(day);
+                            const isFuture = day > today;
+                            return (
+                                <button
+                                  key={day}
+                                  onClick={() => setSelected(day)}
+                                  disabled={isFuture}
+                                  className={`flex flex-col items-center justify-center h-14 rounded border transition-all ${
+                                      day === selected ? 'border-orange-400 bg-orange-900/40'
+                                      : dayResult?.cleared ? 'border-green-600/60 bg-green-900/20'
+                                      : dayResult ? 'border-cyan-700/60 bg-cyan-900/20'
+                                      : 'border-gray-800 bg-gray-800/30'
+                                  } ${day === today ? 'ring-1 ring-yellow-400' : ''} disabled:opacity-30`}
+                                >
+                                    <span className="font-bold">{Number(day.slice(8))}</span>
+                                    {dayResult && <span className="font-mono text-[10px] text-gray-300">{dayResult.best.toLocaleString()}</span>}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                <button
+                  onClick={() => setStatus(GameStatus.MENU)}
+                  className="px-8 py-3 bg-gray-800 border border-gray-600 hover:border-cyan-400 text-white font-bold rounded transition-all"
+                >
+                    戻る
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const ACTION_LABELS: Record<InputAction, string> = {
+    [InputAction.LANE_LEFT]: '左へ移動',
+    [InputAction.LANE_RIGHT]: '右へ移動',
+    [InputAction.JUMP]: 'ジャンプ',
+    [InputAction.SLIDE]: 'スライド',
+    [InputAction.IMMORTALITY]: '無敵モード',
+    [InputAction.TIME_WARP]: 'タイムワープ',
+    [InputAction.SONIC_BLAST]: 'ソニックブラスト'
+};
+
+interface BindingTarget {
+    device: 'key' | 'button';
+    action: InputAction;
+    slot: number;
+}
+
+const ControlBindings: React.FC<{ capturing: BindingTarget | null; setCapturing: (target: BindingTarget | null) => void }> = ({ capturing, setCapturing }) => {
+    const [notice, setNotice] = useState<string | null>(null);
+    // Bindings live in the controls service, bump this to re-render after a change
+    const [, setRevision] = useState(0);
+
+    const finishCapture = (bound: boolean) => {
+        setNotice(bound ? null : 'そのボタンは一時停止用のため割り当てできません');
+        setCapturing(null);
+        setRevision(r => r + 1);
+    };
+
+    // Keyboard slot: the next key press is the new binding
+    useEffect(() => {
+        if (capturing?.device !== 'key') return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopImmediatePropagation();
+            if (e.key === 'Escape') {
+                setCapturing(null);
+                return;
+            }
+            const key = e.key === 'Backspace' || e.key === 'Delete' ? null : e.key;
+            finishCapture(controls.setKeyBinding(capturing.action, capturing.slot, key));
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [capturing]);
+
+    // Gamepad slot: picked up by the per-frame gamepad poll
+    useEffect(() => {
+        if (capturing?.device !== 'button') return;
+        controls.captureButton(button => finishCapture(controls.setButtonBinding(capturing.action, capturing.slot, button)));
+
+        // Escape cancels, Backspace / Delete clears the slot
+        const handleKeyDown = (e: KeyboardEvent) => {
+            e.stopImmediatePropagation();
+            if (e.key === 'Escape') setCapturing(null);
+            else if (e.key === 'Backspace' || e.key === 'Delete') finishCapture(controls.setButtonBinding(capturing.action, capturing.slot, null));
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => {
+            controls.cancelCapture();
+            window.removeEventListener('keydown', handleKeyDown, true);
+        };
+    }, [capturing]);
+
+    const resetBindings = () => {
+        controls.resetDefaults();
+        setCapturing(null);
+        setNotice(null);
+        setRevision(r => r + 1);
+    };
+
+    const slotClass = (active: boolean, empty: boolean) => `w-24 px-2 py-1.5 rounded-lg border font-mono text-sm font-bold transition-all ${
+        active ? 'bg-cyan-900/50 border-cyan-400 text-cyan-300 animate-pulse'
+        : empty ? 'bg-gray-800 border-gray-700 text-gray-600 hover:border-gray-500'
+        : 'bg-gray-800 border-gray-600 text-white hover:border-cyan-400'
+    }`;
+
+    const isCapturing = (device: BindingTarget['device'], action: InputAction, slot: number) =>
+        capturing?.device === device && capturing.action === action && capturing.slot === slot;
+
+    const renderSlots = (device: BindingTarget['device'], action: InputAction) => {
+        const bound = device === 'key' ? controls.getKeys(action) : controls.getButtons(action);
+        return Array.from({ length: BINDING_SLOTS }, (_, slot) => {
+            const value = bound[slot] ?? null;
+            const active = isCapturing(device, action, slot);
+            const label = active ? '...' : value === null ? '-' : typeof value === 'number' ? formatButton(value) : formatKey(value);
+            return (
+                <button key={slot} onClick={() => setCapturing({ device, action, slot })} className={slotClass(active, value === null)}>
+                    {label}
+                </button>
+            );
+        });
+    };
+
+    return (
+        <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center text-cyan-400 font-bold"><Gamepad2 className="w-5 h-5 mr-2" /> 操作設定</div>
+                <button onClick={resetBindings} className="flex items-center text-xs text-gray-400 hover:text-yellow-300">
+                    <RotateCcw className="w-3 h-3 mr-1" /> 初期設定に戻す
+                </button>
+            </div>
+            <div className="flex items-center justify-end gap-2 text-[10px] md:text-xs text-gray-500 font-mono mb-1">
+                <span className="w-[12.5rem] text-center">KEYBOARD</span>
+                <span className="w-[12.5rem] text-center">GAMEPAD</span>
+            </div>
+            {Object.values(InputAction).map(action => (
+                <div key={action} className="flex flex-wrap items-center justify-between gap-2 py-2 border-b border-gray-800 last:border-0">
+                    <span className="font-bold text-sm md:text-base">{ACTION_LABELS[action]}</span>
+                    <div className="flex flex-wrap gap-2 justify-end">
+                        {renderSlots('key', action)}
+                        {renderSlots('button', action)}
+                    </div>
+                </div>
+            ))}
+
+            <p className="text-gray-500 text-xs font-mono mt-3 text-center">
+                枠を選んでキー / ボタンを押してください。ESC でキャンセル、Backspace で解除。
+            </p>
+            <p className="text-gray-500 text-xs font-mono mt-1 text-center">
+                一時停止は ESC / P / START に固定。左スティックでも左右に移動できます。
+            </p>
+            {notice && <p className="text-red-400 text-sm font-bold mt-3 text-center">{notice}</p>}
+        </div>
+    );
+};
+
+const QUALITY_LABELS: Record<QualityPreset, string> = {
+    low: '低',
+    medium: '中',
+    high: '高'
+};
+
+const VOLUME_SETTINGS: { key: 'masterVolume' | 'sfxVolume' | 'musicVolume'; label: string }[] = [
+    { key: 'masterVolume', label: 'マスター' },
+    { key: 'sfxVolume', label: '効果音' },
+    { key: 'musicVolume', label: 'BGM' }
+];
+
+// Reachable from the main menu and the pause overlay, so the caller decides where "back" goes
+const SettingsScreen: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const settings = useSettings();
+    const [capturing, setCapturing] = useState<BindingTarget | null>(null);
+
+    // The pause keys close the screen instead of toggling pause underneath it
+    useEffect(() => {
+        if (capturing) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!controls.isReservedKey(e.key)) return;
+            e.stopImmediatePropagation();
+            onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [capturing, onClose]);
+
+    const tabClass = (active: boolean) => `flex-1 px-3 py-2 rounded-lg border text-sm font-bold transition-all ${
+        active ? 'bg-cyan-900/50 border-cyan-400 text-cyan-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+    }`;
+
+    const toggleClass = (active: boolean) => `w-16 py-1.5 rounded-lg border text-sm font-bold transition-all ${
+        active ? 'bg-cyan-900/50 border-cyan-400 text-cyan-300' : 'bg-gray-800 border-gray-700 text-gray-500 hover:border-gray-500'
+    }`;
+
+    return (
+        <div className="absolute inset-0 bg-black/90 z-[100] text-white pointer-events-auto backdrop-blur-sm overflow-y-auto">
+            <div className="flex flex-col items-center min-h-full py-8 px-4">
+                <h2 className="text-3xl md:text-4xl font-black text-cyan-400 mb-6 font-cyber tracking-widest">SETTINGS</h2>
+
+                {/* Sound */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-4">
+                    <div className="flex items-center text-cyan-400 font-bold mb-3"><Volume2 className="w-5 h-5 mr-2" /> サウンド</div>
+                    {VOLUME_SETTINGS.map(({ key, label }) => (
+                        <label key={key} className="flex items-center gap-4 py-2">
+                            <span className="w-24 font-bold text-sm md:text-base">{label}</span>
+                            <input
+                              type="range"
+                              min={0}
+                              max={100}
+                              value={Math.round(settings[key] * 100)}
+                              onChange={e => settings.update({ [key]: Number(e.target.value) / 100 })}
+                              className="flex-1 accent-cyan-400"
+                            />
+                            <span className="w-12 text-right font-mono text-sm text-gray-400">{Math.round(settings[key] * 100)}</span>
+                        </label>
+                    ))}
+                </div>
+
+                {/* Graphics */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-4">
+                    <div className="flex items-center text-cyan-400 font-bold mb-3"><Monitor className="w-5 h-5 mr-2" /> グラフィック品質</div>
+                    <div className="flex gap-2">
+                        {(Object.keys(QUALITY_LABELS) as QualityPreset[]).map(preset => (
+                            <button key={preset} onClick={() => settings.update({ quality: preset })} className={tabClass(settings.quality === preset)}>
+                                {QUALITY_LABELS[preset]}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-gray-500 text-xs mt-2">星・パーティクルの数、ポストエフェクト、影の表示が変わります。</p>
+                    <div className="flex items-center justify-between pt-3 mt-3 border-t border-gray-800">
+                        <div>
+                            <div className="font-bold text-sm md:text-base">自動調整</div>
+                            <div className="text-xs text-gray-500">フレームレートが落ちたときに解像度や演出を一時的に下げます。</div>
+                        </div>
+                        <button onClick={() => settings.update({ adaptiveQuality: !settings.adaptiveQuality })} className={toggleClass(settings.adaptiveQuality)}>
+                            {settings.adaptiveQuality ? 'ON' : 'OFF'}
+                        </button>
+                    </div>
+                </div>
+
+                {/* Accessibility */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-4">
+                    <div className="flex items-center text-cyan-400 font-bold mb-3"><Eye className="w-5 h-5 mr-2" /> アクセシビリティ</div>
+                    <div className="flex items-center justify-between py-2 border-b border-gray-800">
+                        <div>
+                            <div className="font-bold text-sm md:text-base">モーション軽減</div>
+                            <div className="text-xs text-gray-500">カメラの揺れ・点滅・UIアニメーションを抑えます。</div>
+                        </div>
+                        <button onClick={() => settings.update({ reducedMotion: !settings.reducedMotion })} className={toggleClass(settings.reducedMotion)}>
+                            {settings.reducedMotion ? 'ON' : 'OFF'}
+                        </button>
+                    </div>
+                    <div className="flex items-center justify-between py-2">
+                        <div>
+                            <div className="font-bold text-sm md:text-base">ハイコントラスト</div>
+                            <div className="text-xs text-gray-500">障害物・敵・ミサイルを見やすい配色で表示します。</div>
+                        </div>
+                        <button onClick={() => settings.update({ highContrast: !settings.highContrast })} className={toggleClass(settings.highContrast)}>
+                            {settings.highContrast ? 'ON' : 'OFF'}
+                        </button>
+                    </div>
+                </div>
+
+                {/* Debug */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-4">
+                    <div className="flex items-center text-cyan-400 font-bold mb-3"><Bug className="w-5 h-5 mr-2" /> 開発者</div>
+                    <div className="flex items-center justify-between py-2">
+                        <div>
+                            <div className="font-bold text-sm md:text-base">ヒットボックス表示</div>
+                            <div className="text-xs text-gray-500">当たり判定の範囲を種類ごとの色で表示します。</div>
+                        </div>
+                        <button onClick={() => settings.update({ showHitboxes: !settings.showHitboxes })} className={toggleClass(settings.showHitboxes)}>
+                            {settings.showHitboxes ? 'ON' : 'OFF'}
+                        </button>
+                    </div>
+                    <div className="flex items-center justify-between py-2">
+                        <div>
+                            <div className="font-bold text-sm md:text-base">パフォーマンス表示</div>
+                            <div className="text-xs text-gray-500">FPS・描画負荷・React の再描画回数を表示し、計測を JSON で保存できます。</div>
+                        </div>
+                        <button onClick={() => settings.update({ showPerf: !settings.showPerf })} className={toggleClass(settings.showPerf)}>
+                            {settings.showPerf ? 'ON' : 'OFF'}
+                        </button>
+                    </div>
+                </div>
+
+                <ControlBindings capturing={capturing} setCapturing={setCapturing} />
+
+                <div className="flex gap-3">
+                    <button
+                      onClick={settings.reset}
+                      className="flex items-center px-6 py-3 bg-gray-800 border border-gray-600 hover:border-yellow-400 text-gray-300 font-bold rounded transition-all"
+                    >
+                        <RotateCcw className="w-4 h-4 mr-2" /> 初期設定に戻す
+                    </button>
+                    <button
+                      onClick={onClose}
+                      className="px-8 py-3 bg-gray-800 border border-gray-600 hover:border-cyan-400 text-white font-bold rounded transition-all"
+                    >
+                        戻る
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const EDITOR_LANE_COUNTS = [3, 5, 7, 9];
+const MAX_CHUNK_ROWS = 12;
+const DEFAULT_GEM_HEIGHT = 1.2;
+
+type EditorBrush = ChunkObjectType | 'ERASE';
+
+const BRUSHES: { id: EditorBrush; label: string }[] = [
+    { id: ObjectType.OBSTACLE, label: '障害物' },
+    { id: ObjectType.ALIEN, label: 'エイリアン' },
+    { id: ObjectType.BARRIER, label: 'バリア' },
+    { id: ObjectType.GEM, label: 'ジェム' },
+    { id: ObjectType.LETTER, label: '文字' },
+    { id: 'ERASE', label: '消去' }
+];
+
+const RARITY_LABELS: Record<GemRarity, string> = {
+    COMMON: 'シアン',
+    UNCOMMON: 'ゴールド',
+    RARE: 'アメジスト',
+    HEALING: '回復'
+};
+
+const ISSUE_LABELS: Record<ChunkIssueKind, string> = {
+    NO_OPEN_LANE: '通れるレーンがありません',
+    TOO_HIGH: 'この速度ではジャンプで越えられません',
+    TOO_CLOSE: '前の列と近すぎて、1回でも2回でも跳び越せません'
+};
+
+const emptyRow = (laneCount: number): ChunkRow => ({ cells: Array.from({ length: laneCount }, () => []) });
+
+const createBlankChunk = (laneCount = 3): ChunkDefinition => ({
+    id: 'custom-chunk',
+    name: 'Custom Chunk',
+    minLevel: 1,
+    minLanes: laneCount,
+    weight: 1,
+    rows: [emptyRow(laneCount), emptyRow(laneCount), emptyRow(laneCount)]
+});
+
+// Widening or narrowing keeps the pattern centered on the track
+const resizeChunk = (chunk: ChunkDefinition, laneCount: number): ChunkDefinition => {
+    const offset = Math.floor((laneCount - chunkWidth(chunk)) / 2);
+    return {
+        ...chunk,
+        minLanes: laneCount,
+        rows: chunk.rows.map(row => ({ ...row, cells: Array.from({ length: laneCount }, (_, lane) => row.cells[lane - offset] ?? []) }))
+    };
+};
+
+// Hazards replace hazards and pickups replace pickups, so a gem can float over an obstacle
+const paintCell = (cells: ChunkCell[], brush: EditorBrush, gem: ChunkCell): ChunkCell[] => {
+    if (brush === 'ERASE') return [];
+    const painted: ChunkCell = brush === ObjectType.GEM ? gem : { type: brush };
+    const kept = cells.filter(cell => isChunkHazard(cell) !== isChunkHazard(painted));
+    return [...kept, painted];
+};
+
+const downloadChunk = (chunk: ChunkDefinition) => {
+    const blob = new Blob([JSON.stringify(chunk, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `chunk-${chunk.id}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+const CellContent: React.FC<{ cells: ChunkCell[] }> = ({ cells }) => (
+    <>
+        {cells.map((cell, i) => {
+            switch (cell.type) {
+                case ObjectType.OBSTACLE:
+                    return <div key={i} className="absolute inset-1 rounded bg-[#ff0054]/70 border border-[#ff0054]" />;
+                case ObjectType.ALIEN:
+                    return <div key={i} className="absolute inset-2 rounded-full bg-green-500/70 border border-green-300" />;
+                case ObjectType.BARRIER:
+                    return <div key={i} className="absolute inset-x-1 top-1 h-2 rounded bg-[#ffaa00]/80 border border-[#ffaa00]" />;
+                case ObjectType.LETTER:
+                    return <Type key={i} className="relative w-5 h-5 text-blue-400" />;
+                case ObjectType.GEM:
+                    return (
+                        <span key={i} className="relative flex flex-col items-center leading-none">
+                            <Diamond className="w-4 h-4" style={{ color: cell.rarity ? GEM_RARITIES[cell.rarity].color : '#ffffff' }} fill="currentColor" />
+                            <span className="text-[9px] font-mono text-white">{(cell.height ?? DEFAULT_GEM_HEIGHT).toFixed(1)}</span>
+                        </span>
+                    );
+            }
+        })}
+    </>
+);
+
+const ChunkEditorScreen: React.FC = () => {
+    const { editorChunk, setEditorChunk, setStatus, startPreview } = useStorePick('editorChunk', 'setEditorChunk', 'setStatus', 'startPreview');
+    const chunk = editorChunk ?? createBlankChunk();
+    const laneCount = chunkWidth(chunk);
+    const [brush, setBrush] = useState<EditorBrush>(ObjectType.OBSTACLE);
+    const [gemRarity, setGemRarity] = useState<GemRarity | null>(null); // null = rolled like a random gem
+    const [gemHeight, setGemHeight] = useState(DEFAULT_GEM_HEIGHT);
+    const [painting, setPainting] = useState(false);
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    const invalidReason = validateChunk(chunk);
+    const issues = analyzeChunk(chunk);
+    const previewSpeed = getLevelStartSpeed(chunk.minLevel);
+
+    useEffect(() => {
+        const stopPainting = () => setPainting(false);
+        window.addEventListener('pointerup', stopPainting);
+        return () => window.removeEventListener('pointerup', stopPainting);
+    }, []);
+
+    const update = (patch: Partial<ChunkDefinition>) => setEditorChunk({ ...chunk, ...patch });
+
+    const updateRow = (index: number, row: ChunkRow) => update({ rows: chunk.rows.map((r, i) => i === index ? row : r) });
+
+    const paint = (rowIndex: number, lane: number) => {
+        const gem: ChunkCell = { type: ObjectType.GEM, height: gemHeight, ...(gemRarity ? { rarity: gemRarity } : {}) };
+        const row = chunk.rows[rowIndex];
+        updateRow(rowIndex, { ...row, cells: row.cells.map((cells, i) => i === lane ? paintCell(cells, brush, gem) : cells) });
+    };
+
+    const rename = (name: string) => {
+        const id = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+        update({ name, id: id || 'custom-chunk' });
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const imported = parseChunk(await file.text());
+        if (!imported) {
+            alert('チャンクファイルを読み込めませんでした');
+            return;
+        }
+        setEditorChunk(imported);
+    };
+
+    const rowIssues = (index: number) => issues.filter(issue => issue.row === index);
+    const cellHasIssue = (index: number, lane: number) => issues.some(issue => issue.row === index && issue.lane === lane);
+
+    const optionClass = (active: boolean) => `px-3 py-1.5 rounded-lg border text-sm font-bold transition-all ${
+        active ? 'bg-cyan-900/50 border-cyan-400 text-cyan-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+    }`;
+
+    return (
+        <div className="absolute inset-0 bg-black/90 z-[100] text-white pointer-events-auto backdrop-blur-sm overflow-y-auto">
+            <div className="flex flex-col items-center min-h-full py-8 px-4">
+                <h2 className="text-3xl md:text-4xl font-black text-cyan-400 mb-6 font-cyber tracking-widest">CHUNK EDITOR</h2>
+
+                {/* Chunk properties */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-4 grid gap-3">
+                    <label className="flex items-center gap-4">
+                        <span className="w-24 font-bold text-sm">名前</span>
+                        <input
+                          value={chunk.name}
+                          onChange={e => rename(e.target.value)}
+                          className="flex-1 px-3 py-1.5 rounded-lg bg-gray-800 border border-gray-600 focus:border-cyan-400 text-white outline-none"
+                        />
+                    </label>
+                    <div className="flex items-center gap-4">
+                        <span className="w-24 font-bold text-sm">レーン数</span>
+                        <div className="flex gap-2">
+                            {EDITOR_LANE_COUNTS.map(count => (
+                                <button key={count} onClick={() => setEditorChunk(resizeChunk(chunk, count))} className={optionClass(laneCount === count)}>
+                                    {count}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-4">
+                        <span className="w-24 font-bold text-sm">出現レベル</span>
+                        <input
+                          type="range"
+                          min={1}
+                          max={15}
+                          value={chunk.minLevel}
+                          onChange={e => update({ minLevel: Number(e.target.value) })}
+                          className="flex-1 accent-cyan-400"
+                        />
+                        <span className="w-32 text-right font-mono text-sm text-gray-400">
+                            {chunk.minLevel} (速度 {Math.round(previewSpeed / RUN_SPEED_BASE * 100)}%)
+                        </span>
+                    </label>
+                    <label className="flex items-center gap-4">
+                        <span className="w-24 font-bold text-sm">出現率</span>
+                        <input
+                          type="range"
+                          min={0.5}
+                          max={5}
+                          step={0.5}
+                          value={chunk.weight}
+                          onChange={e => update({ weight: Number(e.target.value) })}
+                          className="flex-1 accent-cyan-400"
+                        />
+                        <span className="w-32 text-right font-mono text-sm text-gray-400">{chunk.weight} / {RANDOM_ROW_WEIGHT}</span>
+                    </label>
+                </div>
+
+                {/* Brushes */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-4">
+                    <div className="flex flex-wrap gap-2">
+                        {BRUSHES.map(({ id, label }) => (
+                            <button key={id} onClick={() => setBrush(id)} className={optionClass(brush === id)}>
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {brush === ObjectType.GEM && (
+                        <div className="grid gap-2 mt-3">
+                            <div className="flex flex-wrap gap-2">
+                                <button onClick={() => setGemRarity(null)} className={optionClass(gemRarity === null)}>ランダム</button>
+                                {(Object.keys(RARITY_LABELS) as GemRarity[]).map(rarity => (
+                                    <button key={rarity} onClick={() => setGemRarity(rarity)} className={optionClass(gemRarity === rarity)}>
+                                        <span style={{ color: GEM_RARITIES[rarity].color }}>◆</span> {RARITY_LABELS[rarity]}
+                                    </button>
+                                ))}
+                            </div>
+                            <label className="flex items-center gap-4">
+                                <span className="w-24 font-bold text-sm">高さ</span>
+                                <input
+                                  type="range"
+                                  min={0.5}
+                                  max={MAX_CELL_HEIGHT}
+                                  step={0.1}
+                                  value={gemHeight}
+                                  onChange={e => setGemHeight(Number(e.target.value))}
+                                  className="flex-1 accent-cyan-400"
+                                />
+                                <span className="w-12 text-right font-mono text-sm text-gray-400">{gemHeight.toFixed(1)}</span>
+                            </label>
+                        </div>
+                    )}
+                </div>
+
+                {/* Top-down grid: the last row is the farthest, the player runs up from the bottom */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-4 select-none touch-none">
+                    {chunk.rows.map((row, index) => ({ row, index })).reverse().map(({ row, index }) => {
+                        const blocked = rowIssues(index).some(isChunkError);
+                        return (
+                            <div key={index} className="flex items-center gap-2 mb-2">
+                                <span className="w-6 text-right font-mono text-xs text-gray-500">{index + 1}</span>
+                                <div className={`flex-1 grid gap-1 p-1 rounded-lg border ${blocked ? 'border-red-500 bg-red-900/20' : 'border-transparent'}`} style={{ gridTemplateColumns: `repeat(${laneCount}, minmax(0, 1fr))` }}>
+                                    {row.cells.map((cells, lane) => (
+                                        <div
+                                          key={lane}
+                                          onPointerDown={() => { setPainting(true); paint(index, lane); }}
+                                          onPointerEnter={() => { if (painting) paint(index, lane); }}
+                                          className={`relative h-10 flex items-center justify-center rounded bg-gray-800 border cursor-pointer ${
+                                              cellHasIssue(index, lane) ? 'border-yellow-400' : 'border-gray-700 hover:border-cyan-400'
+                                          }`}
+                                        >
+                                            <CellContent cells={cells} />
+                                        </div>
+                                    ))}
+                                </div>
+                                <label className="flex items-center text-xs text-gray-400 font-mono" title="前の列との間隔">
+                                    ↕
+                                    <input
+                                      type="number"
+                                      min={0.3}
+                                      max={3}
+                                      step={0.1}
+                                      value={row.gap ?? 1}
+                                      onChange={e => updateRow(index, { ...row, gap: Number(e.target.value) })}
+                                      className="w-14 ml-1 px-1 py-0.5 rounded bg-gray-800 border border-gray-600 text-white"
+                                    />
+                                </label>
+                                <button
+                                  onClick={() => update({ rows: chunk.rows.filter((_, i) => i !== index) })}
+                                  disabled={chunk.rows.length <= 1}
+                                  className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-30"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        );
+                    })}
+                    <button
+                      onClick={() => update({ rows: [...chunk.rows, emptyRow(laneCount)] })}
+                      disabled={chunk.rows.length >= MAX_CHUNK_ROWS}
+                      className="w-full mt-1 flex items-center justify-center py-2 rounded-lg border border-dashed border-gray-600 hover:border-cyan-400 text-gray-400 text-sm disabled:opacity-30"
+                    >
+                        <Plus className="w-4 h-4 mr-1" /> 列を追加
+                    </button>
+                </div>
+
+                {/* Playability */}
+                <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-700 rounded-2xl p-4 mb-6 text-sm">
+                    {issues.length === 0 && !invalidReason ? (
+                        <div className="flex items-center text-green-400"><CheckCircle2 className="w-4 h-4 mr-2" /> 問題は見つかりませんでした</div>
+                    ) : (
+                        <ul className="grid gap-1">
+                            {invalidReason && !issues.some(isChunkError) && (
+                                <li className="flex items-center text-red-400"><AlertTriangle className="w-4 h-4 mr-2 shrink-0" /> {invalidReason}</li>
+                            )}
+                            {issues.map((issue, i) => (
+                                <li key={i} className={`flex items-center ${isChunkError(issue) ? 'text-red-400' : 'text-yellow-300'}`}>
+                                    <AlertTriangle className="w-4 h-4 mr-2 shrink-0" />
+                                    {issue.row + 1}列目{issue.lane !== undefined ? ` / レーン${issue.lane + 1}` : ''}: {ISSUE_LABELS[issue.kind]}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="flex flex-wrap justify-center gap-3">
+                    <button
+                      onClick={() => { audio.init(); startPreview(chunk); }}
+                      disabled={invalidReason !== null}
+                      className="flex items-center px-8 py-3 bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold rounded hover:scale-105 transition-all disabled:opacity-40 disabled:hover:scale-100"
+                    >
+                        <Play className="w-4 h-4 mr-2" fill="white" /> プレビュー
+                    </button>
+                    <button
+                      onClick={() => downloadChunk(chunk)}
+                      className="flex items-center px-6 py-3 bg-gray-800 border border-gray-600 hover:border-cyan-400 text-cyan-300 font-bold rounded transition-all"
+                    >
+                        <Download className="w-4 h-4 mr-2" /> 書き出し
+                    </button>
+                    <button
+                      onClick={() => fileRef.current?.click()}
+                      className="flex items-center px-6 py-3 bg-gray-800 border border-gray-600 hover:border-cyan-400 text-cyan-300 font-bold rounded transition-all"
+                    >
+                        <Upload className="w-4 h-4 mr-2" /> 読み込み
+                    </button>
+                    <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                    <button
+                      onClick={() => setEditorChunk(createBlankChunk(laneCount))}
+                      className="flex items-center px-6 py-3 bg-gray-800 border border-gray-600 hover:border-red-400 text-gray-300 font-bold rounded transition-all"
+                    >
+                        <RotateCcw className="w-4 h-4 mr-2" /> 新規
+                    </button>
+                    <button
+                      onClick={() => setStatus(GameStatus.MENU)}
+                      className="px-8 py-3 bg-gray-800 border border-gray-600 hover:border-cyan-400 text-white font-bold rounded transition-all"
+                    >
+                        戻る
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const PauseMenu: React.FC = () => {
+    const { resumeGame, restartGame, quitToMenu, isReplay, isPreview, stopPreview } = useStorePick('resumeGame', 'restartGame', 'quitToMenu', 'isReplay', 'isPreview', 'stopPreview');
+    const [showSettings, setShowSettings] = useState(false);
+    const closeSettings = useCallback(() => setShowSettings(false), []);
+
+    if (showSettings) return <SettingsScreen onClose={closeSettings} />;
+
+    return (
+        <div className="absolute inset-0 flex items-center justify-center z-[100] bg-black/70 backdrop-blur-sm p-4 pointer-events-auto">
+            <div className="w-full max-w-sm bg-gray-900 rounded-3xl border border-white/10 shadow-[0_0_50px_rgba(0,255,255,0.2)] p-6 flex flex-col items-center">
+                <h2 className="text-3xl font-black text-white mb-6 font-cyber tracking-widest">PAUSED</h2>
+                <div className="w-full grid gap-3">
+                    <button
+                      onClick={resumeGame}
+                      className="w-full flex items-center justify-center px-6 py-3 bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold text-lg rounded-xl hover:scale-105 transition-all"
+                    >
+                        <Play className="w-5 h-5 mr-2" fill="white" /> 再開
+                    </button>
+                    <button
+                      onClick={() => { audio.init(); restartGame(); }}
+                      className="w-full flex items-center justify-center px-6 py-3 bg-gray-800 border border-gray-600 hover:border-cyan-400 text-white font-bold rounded-xl transition-all"
+                    >
+                        <RotateCcw className="w-5 h-5 mr-2" /> {isReplay ? '新しく始める' : 'リスタート'}
+                    </button>
+                    <button
+                      onClick={() => setShowSettings(true)}
+                      className="w-full flex items-center justify-center px-6 py-3 bg-gray-800 border border-gray-600 hover:border-cyan-400 text-white font-bold rounded-xl transition-all"
+                    >
+                        <Settings className="w-5 h-5 mr-2" /> 設定
+                    </button>
+                    {isPreview ? (
+                        <button
+                          onClick={stopPreview}
+                          className="w-full flex items-center justify-center px-6 py-3 bg-gray-800 border border-gray-600 hover:border-red-400 text-gray-300 font-bold rounded-xl transition-all"
+                        >
+                            <LayoutGrid className="w-5 h-5 mr-2" /> エディタへ
+                        </button>
+                    ) : (
+                        <button
+                          onClick={quitToMenu}
+                          className="w-full flex items-center justify-center px-6 py-3 bg-gray-800 border border-gray-600 hover:border-red-400 text-gray-300 font-bold rounded-xl transition-all"
+                        >
+                            <Home className="w-5 h-5 mr-2" /> メニューへ
+                        </button>
+                    )}
+                </div>
+                <p className="text-gray-500 text-xs font-mono mt-6 tracking-wider">[ ESC / P で再開 ]</p>
+            </div>
+        </div>
+    );
+};
+
+const BOSS_PHASE_LABELS: Partial<Record<BossStatus['phase'], string>> = {
+  ENTER: 'マザーシップ接近',
+  TELEGRAPH: '警告',
+  EXPOSED: '弱点露出',
+  DEFEATED: '撃破'
+};
+
+// Replaces the word tracker once the word of a boss level is complete
+const BossBar: React.FC<{ boss: BossStatus }> = ({ boss }) => {
+    const label = BOSS_PHASE_LABELS[boss.phase];
+    const isExposed = boss.phase === 'EXPOSED';
+
+    return (
+        <div className="absolute top-16 md:top-24 left-1/2 transform -translate-x-1/2 mt-8 w-64 md:w-96 flex flex-col items-center">
+            <div className="flex items-center justify-between w-full text-xs md:text-sm font-bold tracking-widest mb-1">
+                <span className="flex items-center text-fuchsia-400"><Skull className="w-4 h-4 mr-1" /> MOTHERSHIP</span>
+                {label && (
+                    <span className={isExposed ? 'text-yellow-300 animate-pulse' : boss.phase === 'TELEGRAPH' ? 'text-red-500 animate-pulse' : 'text-gray-400'}>
+                        {label}
+                    </span>
+                )}
+            </div>
+            <div className="w-full h-3 md:h-4 bg-gray-900 border border-fuchsia-500/60 rounded-full overflow-hidden">
+                <div
+                    className="h-full bg-gradient-to-r from-fuchsia-600 to-red-500 transition-all duration-300"
+                    style={{ width: `${boss.maxHealth > 0 ? (boss.health / boss.maxHealth) * 100 : 0}%` }}
+                />
+            </div>
+        </div>
+    );
+};
+
 export const HUD: React.FC = () => {
-  const { score, currency, lives, maxLives, collectedLetters, status, level, restartGame, startGame, selectMode, gemsCollected, distance, isImmortalityActive, speed, showJumpAlert, gameMode, magnetLevel, shieldCount, isTimeWarpActive, hasGemBooster, hasLuckCharm, hasSonicBlast, lastSonicBlastTime, triggerSonicBlast, targetLevels, hasDrone, hasRevive, hasImmortality, activateImmortality, lastImmortalTime } = useStore();
+  const { score, currency, lives, maxLives, collectedLetters, targetWord, wordChoice, setWordChoice, status, level, restartGame, startGame, selectMode, gemsCollected, distance, isImmortalityActive, speed, assistHint, gameMode, inventory, isTimeWarpActive, lastSonicBlastTime, targetLevels, lastImmortalTime, seed, isReplay, playReplay, setStatus, pauseGame, resumeGame, runRecord, continueRun, isPreview, previewHits, stopPreview, bossFight, dailyDate } = useStorePick(
+      'score', 'currency', 'lives', 'maxLives', 'collectedLetters', 'targetWord', 'wordChoice', 'setWordChoice', 'status', 'level', 'restartGame', 'startGame', 'selectMode', 'gemsCollected', 'distance', 'isImmortalityActive', 'speed', 'assistHint', 'gameMode', 'inventory', 'isTimeWarpActive', 'lastSonicBlastTime', 'targetLevels', 'lastImmortalTime', 'seed', 'isReplay', 'playReplay', 'setStatus', 'pauseGame', 'resumeGame', 'runRecord', 'continueRun', 'isPreview', 'previewHits', 'stopPreview', 'bossFight', 'dailyDate'
+  );
+  const [seedInput, setSeedInput] = useState('');
+  const replayFileRef = useRef<HTMLInputElement>(null);
   const [sonicCooldown, setSonicCooldown] = useState(0);
   const [immortalCooldown, setImmortalCooldown] = useState(0);
-  const target = ['G', 'E', 'M', 'I', 'N', 'I'];
+  const hasSonicBlast = hasItem(inventory, 'SONIC_BLAST');
+  const hasImmortality = hasItem(inventory, 'IMMORTAL');
+  const hasTimeWarp = hasItem(inventory, 'TIME_WARP');
+  const closeSettings = useCallback(() => setStatus(GameStatus.MENU), [setStatus]);
+
+  // Pause toggle on the fixed pause keys
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!controls.isReservedKey(e.key)) return;
+        if (status === GameStatus.PLAYING) pauseGame();
+        else if (status === GameStatus.PAUSED) resumeGame();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [status, pauseGame, resumeGame]);
+
+  // Auto-pause when the tab is hidden
+  useEffect(() => {
+    const handleVisibility = () => {
+        if (document.hidden) pauseGame();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [pauseGame]);
 
   // Cooldown Timer Logic
   useEffect(() => {
     const interval = setInterval(() => {
-        const now = Date.now();
+        const now = simulation.now();
         if (hasSonicBlast) {
             const diff = now - lastSonicBlastTime;
             setSonicCooldown(Math.max(0, 15000 - diff));
@@ -406,13 +1189,82 @@ export const HUD: React.FC = () => {
     return () => clearInterval(interval);
   }, [hasSonicBlast, lastSonicBlastTime, hasImmortality, lastImmortalTime]);
 
+  // Skill buttons go through the input queue like the keyboard, so they are recorded
   const handleSonicBlast = () => {
-      const fired = triggerSonicBlast();
-      if (fired) {
-          window.dispatchEvent(new CustomEvent('trigger-sonic-blast'));
+      if (!isReplay) input.push(InputAction.SONIC_BLAST);
+  };
+
+  const handleImmortality = () => {
+      if (!isReplay) input.push(InputAction.IMMORTALITY);
+  };
+
+  // Swiping down slides, so touch players need a button for time warp
+  const handleTimeWarp = () => {
+      if (!isReplay) input.push(InputAction.TIME_WARP);
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      const data = parseReplay(await file.text());
+      if (!data) {
+          alert('リプレイファイルを読み込めませんでした');
+          return;
       }
+      audio.init();
+      playReplay(data);
   };
 
+  const quitReplay = () => {
+      replay.stop();
+      setStatus(GameStatus.MENU);
+  };
+
+  // New personal best / leaderboard placement on the result screens
+  const recordBadge = runRecord?.rank ? (
+      <div className={`flex items-center mb-6 px-4 py-2 rounded-full border font-bold tracking-widest ${
+          runRecord.isBest
+          ? 'border-yellow-400 text-yellow-300 bg-yellow-900/40 animate-pulse shadow-[0_0_20px_rgba(255,215,0,0.4)]'
+          : 'border-cyan-500/50 text-cyan-300 bg-cyan-900/30'
+      }`}>
+          <Medal className="w-5 h-5 mr-2" />
+          {runRecord.isBest ? 'NEW RECORD!' : `ランキング ${runRecord.rank}位`}
+      </div>
+  ) : null;
+
+  // Shown on the result screens: export for a live run, verification for a replay
+  const replayPanel = isReplay ? (
+      <div className="flex flex-col items-center gap-3 mb-6">
+          <div className={`flex items-center px-4 py-2 rounded-full border font-mono text-sm ${
+              replay.matched === false ? 'border-red-500 text-red-400 bg-red-900/30' : 'border-cyan-500 text-cyan-300 bg-cyan-900/30'
+          }`}>
+              <Film className="w-4 h-4 mr-2" />
+              {replay.matched === null ? 'REPLAY' : replay.matched ? 'REPLAY 記録と一致' : 'REPLAY 記録と不一致'}
+          </div>
+          <button onClick={quitReplay} className="text-sm text-gray-300 underline hover:text-white">
+              メニューへ戻る
+          </button>
+      </div>
+  ) : replay.canExport ? (
+      <button
+        onClick={() => replay.download()}
+        className="flex items-center mb-6 px-4 py-2 rounded-lg bg-gray-800 border border-gray-600 hover:border-cyan-400 text-cyan-300 text-sm font-bold transition-all"
+      >
+          <Download className="w-4 h-4 mr-2" /> リプレイを保存
+      </button>
+  ) : null;
+
+  // Day, best and attempt count of a daily challenge on the result screens
+  const dailyResult = gameMode === GameMode.DAILY && dailyDate && !isReplay ? daily.getResult(dailyDate) : null;
+  const dailyBadge = dailyResult ? (
+      <div className="flex items-center mb-6 px-4 py-2 rounded-full border border-orange-400/60 text-orange-300 bg-orange-900/30 font-mono text-sm">
+          <CalendarDays className="w-4 h-4 mr-2" />
+          {dailyDate} ・ 今日のベスト {dailyResult.best.toLocaleString()} ・ {dailyResult.attempts} 回目
+      </div>
+  ) : null;
+
   // Common container style
   const containerClass = "absolute inset-0 pointer-events-none flex flex-col justify-between p-4 md:p-8 z-50";
 
@@ -422,6 +1274,11 @@ export const HUD: React.FC = () => {
 
   // Level Selection Screen
   if (status === GameStatus.LEVEL_SELECT) {
+      const parsedSeed = parseSeed(seedInput);
+      const customSeed = parsedSeed ?? undefined;
+      const isSeedInvalid = seedInput.trim() !== '' && parsedSeed === null;
+      const wordPack = getWordPack(wordChoice.packId);
+
       return (
           <div className="absolute inset-0 flex items-center justify-center z-[100] bg-black/80 backdrop-blur-sm p-4 pointer-events-auto">
               <div className="relative w-full max-w-lg rounded-3xl overflow-hidden shadow-[0_0_50px_rgba(0,255,255,0.2)] border border-white/10 animate-in zoom-in-95 duration-500">
@@ -431,26 +1288,26 @@ export const HUD: React.FC = () => {
                      </h2>
                      
                      <div className="grid grid-cols-2 gap-3 w-full mb-4">
-                        <button onClick={() => { audio.init(); startGame(3); }} className="p-4 bg-gray-800 hover:bg-cyan-900/50 border border-gray-600 hover:border-cyan-400 rounded-xl transition-all flex flex-col items-center justify-center">
+                        <button onClick={() => { audio.init(); startGame(3, customSeed); }} className="p-4 bg-gray-800 hover:bg-cyan-900/50 border border-gray-600 hover:border-cyan-400 rounded-xl transition-all flex flex-col items-center justify-center">
                             <span className="text-2xl font-bold text-cyan-400">3</span>
                             <span className="text-xs text-gray-400 mt-1">SHORT</span>
                         </button>
-                        <button onClick={() => { audio.init(); startGame(5); }} className="p-4 bg-gray-800 hover:bg-cyan-900/50 border border-gray-600 hover:border-cyan-400 rounded-xl transition-all flex flex-col items-center justify-center">
+                        <button onClick={() => { audio.init(); startGame(5, customSeed); }} className="p-4 bg-gray-800 hover:bg-cyan-900/50 border border-gray-600 hover:border-cyan-400 rounded-xl transition-all flex flex-col items-center justify-center">
                             <span className="text-2xl font-bold text-cyan-400">5</span>
                             <span className="text-xs text-gray-400 mt-1">NORMAL</span>
                         </button>
-                        <button onClick={() => { audio.init(); startGame(10); }} className="p-4 bg-gray-800 hover:bg-cyan-900/50 border border-gray-600 hover:border-cyan-400 rounded-xl transition-all flex flex-col items-center justify-center">
+                        <button onClick={() => { audio.init(); startGame(10, customSeed); }} className="p-4 bg-gray-800 hover:bg-cyan-900/50 border border-gray-600 hover:border-cyan-400 rounded-xl transition-all flex flex-col items-center justify-center">
                             <span className="text-2xl font-bold text-cyan-400">10</span>
                             <span className="text-xs text-gray-400 mt-1">LONG</span>
                         </button>
-                        <button onClick={() => { audio.init(); startGame(15); }} className="p-4 bg-gray-800 hover:bg-cyan-900/50 border border-gray-600 hover:border-cyan-400 rounded-xl transition-all flex flex-col items-center justify-center">
+                        <button onClick={() => { audio.init(); startGame(15, customSeed); }} className="p-4 bg-gray-800 hover:bg-cyan-900/50 border border-gray-600 hover:border-cyan-400 rounded-xl transition-all flex flex-col items-center justify-center">
                             <span className="text-2xl font-bold text-cyan-400">15</span>
                             <span className="text-xs text-gray-400 mt-1">MARATHON</span>
                         </button>
                      </div>
 
                      <button 
-                        onClick={() => { audio.init(); startGame(Infinity); }}
+                        onClick={() => { audio.init(); startGame(Infinity, customSeed); }}
                         className="w-full p-4 bg-purple-900/50 hover:bg-purple-800/80 border border-purple-500 hover:border-purple-300 rounded-xl transition-all flex items-center justify-center group mb-4"
                      >
                          <InfinityIcon className="w-8 h-8 text-purple-400 mr-2 group-hover:scale-110 transition-transform" />
@@ -459,13 +1316,75 @@ export const HUD: React.FC = () => {
                              <div className="text-xs text-purple-300/70">限界に挑戦 (スコアアタック)</div>
                          </div>
                      </button>
+
+                     {/* Target word: one word for the whole run, or the pack in order per level */}
+                     <div className="w-full flex flex-col mb-4">
+                         <label className="text-xs text-gray-400 mb-1 font-mono tracking-widest">ターゲットワード</label>
+                         <div className="flex flex-wrap gap-2 mb-2">
+                             {WORD_PACKS.map(pack => (
+                                 <button
+                                   key={pack.id}
+                                   onClick={() => setWordChoice({ packId: pack.id, wordIndex: pack.words.length > 1 ? null : 0 })}
+                                   className={`px-3 py-1.5 rounded-lg border text-sm font-bold transition-all ${
+                                       wordPack.id === pack.id ? 'bg-cyan-900/50 border-cyan-400 text-cyan-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+                                   }`}
+                                 >
+                                     {pack.name}
+                                 </button>
+                             ))}
+                         </div>
+                         {wordPack.words.length > 1 && (
+                             <select
+                               value={wordChoice.wordIndex ?? ''}
+                               onChange={(e) => setWordChoice({ packId: wordPack.id, wordIndex: e.target.value === '' ? null : Number(e.target.value) })}
+                               className="w-full px-3 py-2 rounded-lg bg-gray-800 border border-gray-600 focus:border-cyan-400 text-white outline-none"
+                             >
+                                 <option value="">レベルごとに切り替え</option>
+                                 {wordPack.words.map((word, index) => (
+                                     <option key={index} value={index}>{word.letters.join('')}</option>
+                                 ))}
+                             </select>
+                         )}
+                     </div>
+
+                     {/* Optional shared seed: same seed = same course and shop rolls */}
+                     <div className="w-full flex flex-col">
+                         <label className="text-xs text-gray-400 mb-1 font-mono tracking-widest">SEED (空欄でランダム)</label>
+                         <input
+                            value={seedInput}
+                            onChange={(e) => setSeedInput(e.target.value)}
+                            placeholder="例: 1A2B3C4D"
+                            maxLength={9}
+                            className={`w-full px-3 py-2 rounded-lg bg-gray-800 border font-mono uppercase tracking-widest text-white outline-none ${isSeedInvalid ? 'border-red-500' : 'border-gray-600 focus:border-cyan-400'}`}
+                         />
+                         {isSeedInvalid && <span className="text-xs text-red-400 mt-1">16進数8桁以内で入力してください</span>}
+                     </div>
                   </div>
               </div>
           </div>
       );
   }
 
+  if (status === GameStatus.RECORDS) {
+      return <RecordsScreen />;
+  }
+
+  if (status === GameStatus.DAILY) {
+      return <DailyScreen />;
+  }
+
+  if (status === GameStatus.SETTINGS) {
+      return <SettingsScreen onClose={closeSettings} />;
+  }
+
+  if (status === GameStatus.EDITOR) {
+      return <ChunkEditorScreen />;
+  }
+
   if (status === GameStatus.MENU) {
+      const savedRun = loadRun();
+      const todayResult = daily.getResult(getDailyDate());
+
       return (
           <div className="absolute inset-0 flex items-center justify-center z-[100] bg-black/80 backdrop-blur-sm p-4 pointer-events-auto">
               <div className="relative w-full max-w-lg rounded-3xl overflow-hidden shadow-[0_0_50px_rgba(0,255,255,0.2)] border border-white/10 animate-in zoom-in-95 duration-500">
@@ -475,6 +1394,23 @@ export const HUD: React.FC = () => {
                      </h1>
                      
                      <div className="w-full grid gap-4">
+                        {savedRun && (
+                            <button 
+                              onClick={() => { audio.init(); continueRun(); }}
+                              className="group relative w-full p-4 bg-gradient-to-r from-cyan-900/50 to-purple-900/50 hover:from-cyan-800/60 hover:to-purple-800/60 border border-cyan-400 rounded-xl transition-all text-left flex items-center shadow-[0_0_20px_rgba(0,255,255,0.2)]"
+                            >
+                                <div className="bg-cyan-500/30 p-3 rounded-full mr-4 group-hover:bg-cyan-500/50">
+                                    <RotateCcw className="w-6 h-6 text-cyan-300" />
+                                </div>
+                                <div>
+                                    <div className="text-xl font-bold text-white">続きから</div>
+                                    <div className="text-xs text-gray-300 font-mono">
+                                        {MODE_LABELS[savedRun.gameMode]} / レベル {savedRun.level} / {formatCourse(savedRun.targetLevels)} ・ SCORE {savedRun.score.toLocaleString()}
+                                    </div>
+                                </div>
+                            </button>
+                        )}
+
                         <button 
                           onClick={() => selectMode(GameMode.NORMAL)}
                           className="group relative w-full p-4 bg-gray-800/50 hover:bg-cyan-900/30 border border-gray-600 hover:border-cyan-400 rounded-xl transition-all text-left flex items-center"
@@ -501,6 +1437,35 @@ export const HUD: React.FC = () => {
                             </div>
                         </button>
 
+                        <button 
+                          onClick={() => setStatus(GameStatus.DAILY)}
+                          className="group relative w-full p-4 bg-gray-800/50 hover:bg-orange-900/30 border border-gray-600 hover:border-orange-400 rounded-xl transition-all text-left flex items-center"
+                        >
+                            <div className="bg-orange-500/20 p-3 rounded-full mr-4 group-hover:bg-orange-500/40">
+                                <CalendarDays className="w-6 h-6 text-orange-400" />
+                            </div>
+                            <div>
+                                <div className="text-xl font-bold text-white group-hover:text-orange-300">デイリーチャレンジ</div>
+                                <div className="text-xs text-gray-400">
+                                    毎日変わる{DAILY_LEVELS}レベルのコース。今日のベスト {todayResult ? todayResult.best.toLocaleString() : '-'} ・ 挑戦 {todayResult?.attempts ?? 0} 回
+                                </div>
+                            </div>
+                        </button>
+
+                        <button 
+                          onClick={() => replayFileRef.current?.click()}
+                          className="group relative w-full p-4 bg-gray-800/50 hover:bg-purple-900/30 border border-gray-600 hover:border-purple-400 rounded-xl transition-all text-left flex items-center"
+                        >
+                            <div className="bg-purple-500/20 p-3 rounded-full mr-4 group-hover:bg-purple-500/40">
+                                <Upload className="w-6 h-6 text-purple-400" />
+                            </div>
+                            <div>
+                                <div className="text-xl font-bold text-white group-hover:text-purple-300">リプレイ再生</div>
+                                <div className="text-xs text-gray-400">保存したリプレイファイル (.json) を再生します。</div>
+                            </div>
+                        </button>
+                        <input ref={replayFileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+
                         <button 
                           onClick={() => selectMode(GameMode.CHEAT)}
                           className="group relative w-full p-4 bg-gray-800/50 hover:bg-red-900/30 border border-gray-600 hover:border-red-500 rounded-xl transition-all text-left flex items-center"
@@ -515,8 +1480,29 @@ export const HUD: React.FC = () => {
                         </button>
                      </div>
 
+                     <button
+                       onClick={() => setStatus(GameStatus.RECORDS)}
+                       className="mt-4 w-full flex items-center justify-center p-3 bg-gray-800/50 hover:bg-yellow-900/30 border border-gray-600 hover:border-yellow-400 rounded-xl transition-all text-yellow-300 font-bold"
+                     >
+                         <Medal className="w-5 h-5 mr-2" /> 記録
+                     </button>
+
+                     <button
+                       onClick={() => setStatus(GameStatus.SETTINGS)}
+                       className="mt-3 w-full flex items-center justify-center p-3 bg-gray-800/50 hover:bg-cyan-900/30 border border-gray-600 hover:border-cyan-400 rounded-xl transition-all text-cyan-300 font-bold"
+                     >
+                         <Settings className="w-5 h-5 mr-2" /> 設定
+                     </button>
+
+                     <button
+                       onClick={() => setStatus(GameStatus.EDITOR)}
+                       className="mt-3 w-full flex items-center justify-center p-3 bg-gray-800/50 hover:bg-purple-900/30 border border-gray-600 hover:border-purple-400 rounded-xl transition-all text-purple-300 font-bold"
+                     >
+                         <LayoutGrid className="w-5 h-5 mr-2" /> チャンクエディタ
+                     </button>
+
                      <p className="text-cyan-400/60 text-[10px] md:text-xs font-mono mt-8 tracking-wider">
-                        [ 矢印キー / スワイプで移動・ジャンプ ]
+                        [ 矢印キー / スワイプで移動・ジャンプ・スライド ]
                      </p>
                 </div>
               </div>
@@ -529,6 +1515,8 @@ export const HUD: React.FC = () => {
           <div className="absolute inset-0 bg-black/90 z-[100] text-white pointer-events-auto backdrop-blur-sm overflow-y-auto">
               <div className="flex flex-col items-center justify-center min-h-full py-8 px-4">
                 <h1 className="text-4xl md:text-6xl font-black text-white mb-6 drop-shadow-[0_0_10px_rgba(255,0,0,0.8)] font-cyber text-center">GAME OVER</h1>
+                {recordBadge}
+                {dailyBadge}
                 
                 <div className="grid grid-cols-1 gap-3 md:gap-4 text-center mb-8 w-full max-w-md">
                     <div className="bg-gray-900/80 p-3 md:p-4 rounded-lg border border-gray-700 flex items-center justify-between">
@@ -549,14 +1537,25 @@ export const HUD: React.FC = () => {
                         <div className="flex items-center text-white text-sm md:text-base">トータルスコア</div>
                         <div className="text-2xl md:text-3xl font-bold font-cyber text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-orange-500">{score.toLocaleString()}</div>
                     </div>
+                    <div className="text-xs text-gray-500 font-mono tracking-widest">SEED {formatSeed(seed)}</div>
                 </div>
 
-                <button 
-                  onClick={() => { audio.init(); restartGame(); }}
-                  className="px-8 md:px-10 py-3 md:py-4 bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_20px_rgba(0,255,255,0.4)]"
-                >
-                    リトライ
-                </button>
+                {replayPanel}
+
+                <div className="flex flex-col md:flex-row gap-3">
+                    <button 
+                      onClick={() => { audio.init(); restartGame(); }}
+                      className="px-8 md:px-10 py-3 md:py-4 bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_20px_rgba(0,255,255,0.4)]"
+                    >
+                        リトライ
+                    </button>
+                    <button 
+                      onClick={() => { audio.init(); restartGame(true); }}
+                      className="px-6 md:px-8 py-3 md:py-4 bg-gray-800 border border-gray-600 hover:border-cyan-400 text-cyan-300 font-bold text-base md:text-lg rounded hover:scale-105 transition-all"
+                    >
+                        同じシードで再挑戦
+                    </button>
+                </div>
               </div>
           </div>
       );
@@ -577,6 +1576,8 @@ export const HUD: React.FC = () => {
                       : `全${targetLevels}ステージ踏破！宇宙の真理に到達しました`
                     }
                 </p>
+                {recordBadge}
+                {dailyBadge}
                 
                 <div className="grid grid-cols-1 gap-4 text-center mb-8 w-full max-w-md">
                     <div className="bg-black/60 p-6 rounded-xl border border-yellow-500/30 shadow-[0_0_15px_rgba(255,215,0,0.1)]">
@@ -593,14 +1594,25 @@ export const HUD: React.FC = () => {
                             <div className="text-xl md:text-2xl font-bold text-purple-400">{Math.floor(distance)} LY</div>
                         </div>
                      </div>
+                     <div className="text-xs text-gray-400 font-mono tracking-widest">SEED {formatSeed(seed)}</div>
                 </div>
 
-                <button 
-                  onClick={() => { audio.init(); restartGame(); }}
-                  className="px-8 md:px-12 py-4 md:py-5 bg-white text-black font-black text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_40px_rgba(255,255,255,0.3)] tracking-widest"
-                >
-                    最初から遊ぶ
-                </button>
+                {replayPanel}
+
+                <div className="flex flex-col md:flex-row gap-3 items-center">
+                    <button 
+                      onClick={() => { audio.init(); restartGame(); }}
+                      className="px-8 md:px-12 py-4 md:py-5 bg-white text-black font-black text-lg md:text-xl rounded hover:scale-105 transition-all shadow-[0_0_40px_rgba(255,255,255,0.3)] tracking-widest"
+                    >
+                        最初から遊ぶ
+                    </button>
+                    <button 
+                      onClick={() => { audio.init(); restartGame(true); }}
+                      className="px-6 md:px-8 py-3 md:py-4 bg-black/60 border border-white/20 hover:border-yellow-400 text-yellow-200 font-bold text-base md:text-lg rounded hover:scale-105 transition-all"
+                    >
+                        同じシードで再挑戦
+                    </button>
+                </div>
             </div>
         </div>
     );
@@ -608,13 +1620,26 @@ export const HUD: React.FC = () => {
 
   return (
     <div className={containerClass}>
-        {/* Real-time Jump Alert Overlay */}
-        {showJumpAlert && (
+        {status === GameStatus.PAUSED && <PauseMenu />}
+
+        {/* Pause Button (touch devices have no Escape key) */}
+        {status === GameStatus.PLAYING && (
+            <button
+              onClick={pauseGame}
+              className="absolute bottom-14 md:bottom-16 left-4 pointer-events-auto p-2 rounded-full bg-black/50 border border-gray-600 hover:border-cyan-400 text-gray-300 z-50"
+              aria-label="pause"
+            >
+                <Pause className="w-4 h-4" />
+            </button>
+        )}
+
+        {/* Real-time Assist Alert Overlay */}
+        {assistHint && (
              <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-50 animate-bounce pointer-events-none">
                  <div className="flex flex-col items-center justify-center">
                      <AlertTriangle className="w-12 h-12 md:w-20 md:h-20 text-red-500 fill-red-500 mb-2 drop-shadow-[0_0_15px_rgba(255,0,0,0.8)]" />
                      <h2 className="text-4xl md:text-6xl font-black text-red-500 tracking-tighter drop-shadow-[0_0_10px_rgba(255,0,0,1)] stroke-white stroke-2">
-                         ジャンプ！
+                         {ASSIST_HINT_LABELS[assistHint]}
                      </h2>
                  </div>
              </div>
@@ -680,6 +1705,25 @@ export const HUD: React.FC = () => {
             )}
         </div>
 
+        {isReplay && (
+            <div className="absolute top-16 right-4 md:right-8 flex items-center text-purple-300 bg-purple-900/50 px-3 py-1 rounded-full border border-purple-500/50 animate-pulse">
+                <Film className="w-4 h-4 mr-2" />
+                <span className="text-sm font-mono font-bold tracking-widest">REPLAY</span>
+            </div>
+        )}
+
+        {isPreview && (
+            <div className="absolute top-16 right-4 md:right-8 flex items-center gap-3 pointer-events-auto">
+                <div className="flex items-center text-purple-300 bg-purple-900/50 px-3 py-1 rounded-full border border-purple-500/50">
+                    <LayoutGrid className="w-4 h-4 mr-2" />
+                    <span className="text-sm font-mono font-bold tracking-widest">PREVIEW ・ HIT {previewHits}</span>
+                </div>
+                <button onClick={stopPreview} className="text-sm text-gray-300 underline hover:text-white">
+                    エディタへ戻る
+                </button>
+            </div>
+        )}
+
         {/* Active Skill Indicators */}
         <div className="absolute top-32 left-1/2 transform -translate-x-1/2 flex flex-col items-center space-y-2 w-full pointer-events-none">
             {isImmortalityActive && (
@@ -696,42 +1740,15 @@ export const HUD: React.FC = () => {
         
         {/* Passive Items Indicator (Left side) */}
         <div className="absolute top-32 left-4 md:left-8 flex flex-col space-y-2 items-start">
-             {shieldCount > 0 && (
-                 <div className="flex items-center text-cyan-400 bg-cyan-900/30 px-2 py-1 rounded border border-cyan-500/50">
-                     <Disc className="w-4 h-4 mr-2 animate-spin-slow" />
-                     <span className="text-sm font-mono">シールド x{shieldCount}</span>
-                 </div>
-             )}
-             {magnetLevel > 0 && (
-                 <div className="flex items-center text-pink-400 bg-pink-900/30 px-2 py-1 rounded border border-pink-500/50">
-                     <Magnet className="w-4 h-4 mr-2" />
-                     <span className="text-sm font-mono">マグネット Lv.{magnetLevel}</span>
-                 </div>
-             )}
-             {hasGemBooster && (
-                 <div className="flex items-center text-yellow-400 bg-yellow-900/30 px-2 py-1 rounded border border-yellow-500/50">
-                     <Sparkles className="w-4 h-4 mr-2" />
-                     <span className="text-sm font-mono">ブースター</span>
-                 </div>
-             )}
-             {hasLuckCharm && (
-                 <div className="flex items-center text-green-400 bg-green-900/30 px-2 py-1 rounded border border-green-500/50">
-                     <Clover className="w-4 h-4 mr-2" />
-                     <span className="text-sm font-mono">お守り</span>
-                 </div>
-             )}
-             {hasDrone && (
-                 <div className="flex items-center text-red-400 bg-red-900/30 px-2 py-1 rounded border border-red-500/50">
-                     <Bot className="w-4 h-4 mr-2" />
-                     <span className="text-sm font-mono">ドローン</span>
-                 </div>
-             )}
-             {hasRevive && (
-                 <div className="flex items-center text-purple-400 bg-purple-900/30 px-2 py-1 rounded border border-purple-500/50">
-                     <Cross className="w-4 h-4 mr-2" />
-                     <span className="text-sm font-mono">蘇生アンク</span>
-                 </div>
-             )}
+             {ITEMS.filter(item => item.badge && hasItem(inventory, item.id)).map(item => {
+                 const Icon = item.icon;
+                 return (
+                     <div key={item.id} className={`flex items-center px-2 py-1 rounded border ${item.accent}`}>
+                         <Icon className={`w-4 h-4 mr-2 ${item.id === 'SHIELD' ? 'animate-spin-slow' : ''}`} />
+                         <span className="text-sm font-mono">{item.badge!(getStack(inventory, item.id))}</span>
+                     </div>
+                 );
+             })}
         </div>
 
         {/* Action Buttons (Bottom Right) */}
@@ -739,7 +1756,7 @@ export const HUD: React.FC = () => {
             {/* Immortal Skill Button Indicator */}
             {hasImmortality && (
                 <button
-                    onClick={activateImmortality}
+                    onClick={handleImmortality}
                     disabled={immortalCooldown > 0 || isImmortalityActive}
                     className={`relative w-16 h-16 rounded-full border-4 flex items-center justify-center transition-all ${
                         immortalCooldown > 0 || isImmortalityActive
@@ -753,7 +1770,23 @@ export const HUD: React.FC = () => {
                             {Math.ceil(immortalCooldown / 1000)}
                         </div>
                     )}
-                    <div className="absolute -bottom-6 text-xs text-yellow-400 font-bold tracking-widest whitespace-nowrap">[ SPACE ]</div>
+                    <div className="absolute -bottom-6 text-xs text-yellow-400 font-bold tracking-widest whitespace-nowrap">[ {controls.describe(InputAction.IMMORTALITY)} ]</div>
+                </button>
+            )}
+
+            {/* Time Warp Button */}
+            {hasTimeWarp && (
+                <button
+                    onClick={handleTimeWarp}
+                    disabled={isTimeWarpActive}
+                    className={`relative w-16 h-16 rounded-full border-4 flex items-center justify-center transition-all ${
+                        isTimeWarpActive
+                        ? 'border-gray-600 bg-gray-800 cursor-not-allowed'
+                        : 'border-purple-500 bg-purple-900/50 hover:scale-110 hover:bg-purple-600/50 shadow-[0_0_20px_purple]'
+                    }`}
+                >
+                    <Clock className={`w-8 h-8 ${isTimeWarpActive ? 'text-gray-500' : 'text-purple-400'}`} />
+                    <div className="absolute -bottom-6 text-xs text-purple-400 font-bold tracking-widest whitespace-nowrap">[ {controls.describe(InputAction.TIME_WARP)} ]</div>
                 </button>
             )}
 
@@ -774,16 +1807,18 @@ export const HUD: React.FC = () => {
                             {Math.ceil(sonicCooldown / 1000)}
                         </div>
                     )}
-                    <div className="absolute -bottom-6 text-xs text-orange-400 font-bold tracking-widest">[ Z ]</div>
+                    <div className="absolute -bottom-6 text-xs text-orange-400 font-bold tracking-widest">[ {controls.describe(InputAction.SONIC_BLAST)} ]</div>
                 </button>
             )}
         </div>
 
-        {/* Gemini Collection Status */}
-        <div className="absolute top-16 md:top-24 left-1/2 transform -translate-x-1/2 flex space-x-2 md:space-x-3 mt-8">
-            {target.map((char, idx) => {
+        {bossFight && <BossBar boss={bossFight} />}
+
+        {/* Target Word Status */}
+        {!bossFight && <div className="absolute top-16 md:top-24 left-1/2 transform -translate-x-1/2 flex space-x-2 md:space-x-3 mt-8">
+            {targetWord.letters.map((char, idx) => {
                 const isCollected = collectedLetters.includes(idx);
-                const color = GEMINI_COLORS[idx];
+                const color = targetWord.colors[idx];
 
                 return (
                     <div 
@@ -800,7 +1835,7 @@ export const HUD: React.FC = () => {
                     </div>
                 );
             })}
-        </div>
+        </div>}
 
         {/* Bottom Overlay Info */}
         <div className="absolute bottom-4 left-4 flex items-center space-x-2 text-cyan-500 opacity-70">
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useState } from 'react';
+import { Activity, Circle, Square } from 'lucide-react';
+import { ObjectType } from '../../types';
+import { profiler, HISTORY_SIZE } from '../System/Profiler';
+import { useSettings } from '../System/Settings';
+import { QUALITY_STEPS, useQualityStep } from '../System/AdaptiveQuality';
+
+const REFRESH_INTERVAL = 250; // ms; the overlay itself should not cost a render per frame
+const GRAPH_HEIGHT = 40;
+
+const OBJECT_LABELS: Partial<Record<ObjectType, string>> = {
+  [ObjectType.OBSTACLE]: '障害物',
+  [ObjectType.GEM]: 'ジェム',
+  [ObjectType.LETTER]: '文字',
+  [ObjectType.SHOP_PORTAL]: 'ポータル',
+  [ObjectType.ALIEN]: 'エイリアン',
+  [ObjectType.MISSILE]: 'ミサイル',
+  [ObjectType.BARRIER]: 'バリア',
+  [ObjectType.LASER_GATE]: 'レーザー'
+};
+
+// Line graph of the last HISTORY_SIZE values, with dashed guides at the given levels
+const Graph: React.FC<{ values: number[]; max: number; guides: number[]; color: string }> = ({ values, max, guides, color }) => {
+    const y = (value: number) => GRAPH_HEIGHT - Math.min(value, max) / max * GRAPH_HEIGHT;
+    const offset = HISTORY_SIZE - values.length;
+    const points = values.map((value, i) => `${offset + i},${y(value).toFixed(1)}`).join(' ');
+
+    return (
+        <svg viewBox={`0 0 ${HISTORY_SIZE} ${GRAPH_HEIGHT}`} preserveAspectRatio="none" className="w-full h-10 bg-black/40 rounded">
+            {guides.map(guide => (
+                <line key={guide} x1={0} x2={HISTORY_SIZE} y1={y(guide)} y2={y(guide)} stroke="#4b5563" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+            ))}
+            <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        </svg>
+    );
+};
+
+// Developer overlay: frame timing, renderer load and React commits, with a
+// recorder that downloads the session as a JSON trace
+export const PerfOverlay: React.FC = () => {
+    const quality = useSettings(state => state.quality);
+    const qualityStep = useQualityStep(state => state.step);
+    const [, setRefresh] = useState(0);
+
+    useEffect(() => {
+        const interval = setInterval(() => setRefresh(n => n + 1), REFRESH_INTERVAL);
+        return () => clearInterval(interval);
+    }, []);
+
+    const toggleRecording = () => {
+        if (profiler.isRecording) profiler.download(profiler.stopRecording()!);
+        else profiler.startRecording(performance.now(), quality);
+        setRefresh(n => n + 1);
+    };
+
+    const frameTimes = profiler.history();
+    const average = profiler.averageFrameTime();
+    const worst = frameTimes.reduce((max, time) => Math.max(max, time), 0);
+    const latest = profiler.latest;
+    const objects = latest ? Object.entries(latest.objects) as [ObjectType, number][] : [];
+    const totalObjects = objects.reduce((sum, [, count]) => sum + count, 0);
+    const commits = Object.entries(profiler.commits);
+
+    return (
+        <div className="absolute top-24 left-4 w-64 z-[150] p-3 rounded-lg bg-black/80 border border-gray-700 text-gray-200 font-mono text-xs pointer-events-auto space-y-2">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center text-cyan-400 font-bold"><Activity className="w-4 h-4 mr-1" /> PERF</div>
+                <button
+                  onClick={toggleRecording}
+                  className={`flex items-center px-2 py-0.5 rounded border font-bold transition-all ${
+                      profiler.isRecording ? 'border-red-500 text-red-400 bg-red-900/30' : 'border-gray-600 text-gray-300 hover:border-cyan-400'
+                  }`}
+                >
+                    {profiler.isRecording
+                        ? <><Square className="w-3 h-3 mr-1" /> 停止して保存 ({profiler.recording!.length})</>
+                        : <><Circle className="w-3 h-3 mr-1" /> 記録開始</>}
+                </button>
+            </div>
+
+            <div>
+                <div className="flex justify-between"><span>FPS</span><span className="text-white">{average ? Math.round(1000 / average) : '-'}</span></div>
+                <Graph values={frameTimes.map(time => time > 0 ? 1000 / time : 0)} max={120} guides={[30, 60]} color="#22d3ee" />
+            </div>
+            <div>
+                <div className="flex justify-between"><span>フレーム時間</span><span className="text-white">{average.toFixed(1)} ms (最大 {worst.toFixed(1)})</span></div>
+                <Graph values={frameTimes} max={50} guides={[1000 / 60, 1000 / 30]} color="#facc15" />
+            </div>
+
+            {latest && (
+                <div className="grid grid-cols-2 gap-x-3">
+                    <span>ドローコール</span><span className="text-right text-white">{latest.drawCalls}</span>
+                    <span>ポリゴン</span><span className="text-right text-white">{latest.triangles.toLocaleString()}</span>
+                    <span>ジオメトリ</span><span className="text-right text-white">{latest.geometries}</span>
+                    <span>パーティクル</span><span className="text-right text-white">{latest.particles}</span>
+                    <span>品質段階</span><span className="text-right text-white">{qualityStep} / {QUALITY_STEPS.length - 1}</span>
+                </div>
+            )}
+
+            <div>
+                <div className="flex justify-between text-gray-400"><span>オブジェクト</span><span>{totalObjects}</span></div>
+                <div className="grid grid-cols-2 gap-x-3">
+                    {objects.map(([type, count]) => (
+                        <React.Fragment key={type}>
+                            <span>{OBJECT_LABELS[type] ?? type}</span><span className="text-right text-white">{count}</span>
+                        </React.Fragment>
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <div className="text-gray-400">React コミット</div>
+                {!profiler.commitsAvailable ? (
+                    <div className="text-gray-500">本番ビルドでは計測できません (記録にも含まれません)</div>
+                ) : (
+                    <div className="grid grid-cols-2 gap-x-3">
+                        {commits.map(([id, stats]) => (
+                            <React.Fragment key={id}>
+                                <span>{id}</span><span className="text-right text-white">{stats.count} ({stats.duration.toFixed(0)} ms)</span>
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useRunStats } from '../../store';
+import { LANE_WIDTH } from '../../types';
+import { world } from '../System/World';
+import { BOSS_Z, BOSS_HOVER_Y, BOSS_EXPOSED_Y, BEAM_HEIGHT } from '../System/Boss';
+
+// Static Geometries
+const HULL_GEO = new THREE.CylinderGeometry(6, 3, 1.2, 12);
+const DOME_GEO = new THREE.SphereGeometry(2.5, 16, 16, 0, Math.PI * 2, 0, Math.PI / 2);
+const RING_GEO = new THREE.TorusGeometry(6.2, 0.15, 8, 48);
+const CORE_GEO = new THREE.IcosahedronGeometry(1.2, 1);
+const STRIP_GEO = new THREE.PlaneGeometry(LANE_WIDTH * 0.9, -BOSS_Z);
+const BEAM_GEO = new THREE.BoxGeometry(1, 1, 1);
+
+const MAX_LANES = 9;
+const HIT_FLASH_MS = 150;
+
+// The mothership, drawn from world.boss every frame. Mounted for the whole
+// boss fight; the world removes the boss itself once it goes down.
+export const Mothership: React.FC = () => {
+  const isBossFight = useRunStats(stats => stats.bossFight !== null);
+  const groupRef = useRef<THREE.Group>(null);
+  const coreRef = useRef<THREE.Mesh>(null);
+  const coreMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const stripRefs = useRef<(THREE.Mesh | null)[]>([]);
+  const beamRef = useRef<THREE.Mesh>(null);
+
+  useFrame((state, delta) => {
+    const boss = world.boss;
+    if (!groupRef.current || !coreRef.current || !coreMaterialRef.current || !beamRef.current) return;
+
+    groupRef.current.visible = boss !== null;
+    if (!boss) return;
+
+    // Hover high, dip down to offer the core, sink when beaten
+    const targetY = boss.phase === 'EXPOSED' ? BOSS_EXPOSED_Y : boss.phase === 'DEFEATED' ? -2 : BOSS_HOVER_Y;
+    const group = groupRef.current;
+    group.position.y = THREE.MathUtils.lerp(group.position.y, targetY, Math.min(1, delta * 3));
+    group.rotation.y += delta * (boss.phase === 'DEFEATED' ? 3 : 0.3);
+    group.rotation.z = boss.phase === 'DEFEATED' ? Math.sin(state.clock.elapsedTime * 20) * 0.1 : 0;
+
+    // The core only glows while it can be hit, and flashes white when it is
+    const isFlashing = boss.time - boss.lastHitTime < HIT_FLASH_MS;
+    const material = coreMaterialRef.current;
+    material.emissive.set(isFlashing ? '#ffffff' : boss.phase === 'EXPOSED' ? '#ff3366' : '#440011');
+    material.emissiveIntensity = boss.phase === 'EXPOSED' ? 3 + Math.sin(state.clock.elapsedTime * 10) : 0.5;
+    coreRef.current.rotation.x += delta * 2;
+
+    // Telegraphed lanes light up on the track
+    stripRefs.current.forEach((strip, i) => {
+        if (!strip) return;
+        const lane = boss.phase === 'TELEGRAPH' ? boss.lanes[i] : undefined;
+        strip.visible = lane !== undefined;
+        if (lane !== undefined) {
+            strip.position.x = lane * LANE_WIDTH;
+            (strip.material as THREE.MeshBasicMaterial).opacity = 0.25 + 0.2 * Math.sin(state.clock.elapsedTime * 15);
+        }
+    });
+
+    // Beam from the ship down to the track; world space, so outside the moving group
+    const beam = beamRef.current;
+    beam.visible = boss.beamX !== null;
+    if (boss.beamX !== null) {
+        beam.position.set(boss.beamX, BEAM_HEIGHT / 2, BOSS_Z / 2);
+        beam.scale.set(1, BEAM_HEIGHT, -BOSS_Z);
+    }
+  });
+
+  if (!isBossFight) return null;
+
+  return (
+    <group>
+        <group ref={groupRef} position={[0, BOSS_HOVER_Y, BOSS_Z]}>
+            <mesh geometry={HULL_GEO}>
+                <meshStandardMaterial color="#222233" metalness={0.9} roughness={0.3} />
+            </mesh>
+            <mesh geometry={DOME_GEO} position={[0, 0.6, 0]}>
+                <meshStandardMaterial color="#6600ff" emissive="#6600ff" emissiveIntensity={0.4} transparent opacity={0.7} />
+            </mesh>
+            <mesh geometry={RING_GEO} rotation={[Math.PI / 2, 0, 0]}>
+                <meshBasicMaterial color="#ff00ff" toneMapped={false} />
+            </mesh>
+            <mesh ref={coreRef} geometry={CORE_GEO} position={[0, -1.2, 0]}>
+                <meshStandardMaterial ref={coreMaterialRef} color="#330011" emissive="#440011" />
+            </mesh>
+        </group>
+
+        {Array.from({ length: MAX_LANES }, (_, i) => (
+            <mesh
+                key={i}
+                ref={el => { stripRefs.current[i] = el; }}
+                geometry={STRIP_GEO}
+                rotation={[-Math.PI / 2, 0, 0]}
+                position={[0, 0.02, BOSS_Z / 2]}
+                visible={false}
+            >
+                <meshBasicMaterial color="#ff0033" transparent opacity={0.3} depthWrite={false} toneMapped={false} />
+            </mesh>
+        ))}
+
+        <mesh ref={beamRef} geometry={BEAM_GEO} visible={false}>
+            <meshBasicMaterial color="#ff2266" transparent opacity={0.7} toneMapped={false} />
+        </mesh>
+    </group>
+  );
+};
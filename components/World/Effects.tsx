@@ -7,18 +7,31 @@
 import React from 'react';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
 import { BlendFunction } from 'postprocessing';
+import { useQuality } from '../System/Settings';
 
 export const Effects: React.FC = () => {
-  return (
-    <EffectComposer disableNormalPass multisampling={0}>
-      {/* Tighter bloom to avoid fog: High threshold, moderate radius */}
+  const { postprocessing, bloomLevels } = useQuality();
+
+  if (postprocessing === 'none') return null;
+
+  // Tighter bloom to avoid fog: High threshold, moderate radius
+  const bloom = (
       <Bloom 
         luminanceThreshold={0.75} 
         mipmapBlur 
         intensity={1.0} 
         radius={0.6}
-        levels={8}
+        levels={bloomLevels}
       />
+  );
+
+  if (postprocessing === 'bloom') {
+    return <EffectComposer multisampling={0}>{bloom}</EffectComposer>;
+  }
+
+  return (
+    <EffectComposer multisampling={0}>
+      {bloom}
       <Noise opacity={0.05} blendFunction={BlendFunction.OVERLAY} />
       <Vignette eskil={false} offset={0.1} darkness={0.5} />
     </EffectComposer>
@@ -0,0 +1,367 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore } from '../../store';
+import { GameObject, ObjectType, LANE_WIDTH, GameStatus } from '../../types';
+import { world } from '../System/World';
+import { OBSTACLE_HEIGHT } from '../System/Collision';
+import { useSettings, useQuality, HIGH_CONTRAST_HAZARDS } from '../System/Settings';
+
+// Track objects drawn as instanced batches: one InstancedMesh per part of
+// each object type, refilled from world.objects every frame. Nothing here
+// re-renders while objects come and go; React only sees settings changes.
+
+const MAX_INSTANCES = 256; // Per part; objects past this are not drawn
+
+// Geometry Constants
+const OBSTACLE_GEOMETRY = new THREE.ConeGeometry(0.9, OBSTACLE_HEIGHT, 6);
+const OBSTACLE_RING_GEO = new THREE.RingGeometry(0.6, 0.9, 6);
+
+const GEM_GEOMETRY = new THREE.IcosahedronGeometry(0.3, 0);
+
+// Alien Geometries
+const ALIEN_BODY_GEO = new THREE.CylinderGeometry(0.6, 0.3, 0.3, 8);
+const ALIEN_DOME_GEO = new THREE.SphereGeometry(0.4, 16, 16, 0, Math.PI * 2, 0, Math.PI/2);
+const ALIEN_EYE_GEO = new THREE.SphereGeometry(0.1);
+
+// Missile Geometries
+const MISSILE_CORE_GEO = new THREE.CylinderGeometry(0.08, 0.08, 3.0, 8);
+const MISSILE_RING_GEO = new THREE.TorusGeometry(0.15, 0.02, 16, 32);
+
+// Barrier Geometries (bar at the object's y, posts down to the track)
+const BARRIER_BAR_GEO = new THREE.BoxGeometry(LANE_WIDTH * 0.9, 0.25, 0.25);
+const BARRIER_POST_GEO = new THREE.CylinderGeometry(0.08, 0.08, 1, 6);
+const BARRIER_FIELD_GEO = new THREE.PlaneGeometry(LANE_WIDTH * 0.9, 3);
+
+// Laser Gate Geometries (beam + the rail it sweeps along)
+const LASER_BEAM_GEO = new THREE.BoxGeometry(1.4, 0.1, 0.1);
+const LASER_EMITTER_GEO = new THREE.SphereGeometry(0.15, 8, 8);
+const LASER_RAIL_GEO = new THREE.BoxGeometry(1, 0.02, 0.02);
+
+// Ground arrow from a drifting obstacle to the lane it is heading for
+const DRIFT_TELEGRAPH_GEO = new THREE.PlaneGeometry(1, 0.6);
+
+// Shadow Geometries
+const SHADOW_BAR_GEO = new THREE.PlaneGeometry(2, 0.6);
+const SHADOW_GEM_GEO = new THREE.CircleGeometry(0.6, 32);
+const SHADOW_ALIEN_GEO = new THREE.CircleGeometry(0.8, 32);
+const SHADOW_MISSILE_GEO = new THREE.PlaneGeometry(0.15, 3);
+const SHADOW_DEFAULT_GEO = new THREE.CircleGeometry(0.8, 6);
+
+const FLAT = -Math.PI / 2; // Rotation that lays a plane on the track
+
+interface PartContext {
+  time: number; // Animation clock, seconds; stops while paused
+  laneCount: number;
+  playerX: number;
+}
+
+interface EntityPart {
+  geometry: THREE.BufferGeometry;
+  material: (highContrast: boolean) => THREE.Material;
+  // Per instance color on a white material; `glow` brightens it past 1 for bloom
+  color?: (obj: GameObject, highContrast: boolean) => THREE.ColorRepresentation;
+  glow?: number;
+  // Transform relative to the object's animated visual (or to its spot on the
+  // track with `ground`). Returning false skips the instance.
+  place?: (obj: GameObject, part: THREE.Object3D, ctx: PartContext) => boolean | void;
+  ground?: boolean;
+  castShadow?: boolean;
+  // Once per frame for the whole batch, e.g. to pulse the opacity
+  animate?: (material: THREE.Material, ctx: PartContext) => void;
+}
+
+const at = (x: number, y: number, z: number) => (obj: GameObject, part: THREE.Object3D) => { part.position.set(x, y, z); };
+
+const hazardColor = (key: keyof typeof HIGH_CONTRAST_HAZARDS) =>
+  (obj: GameObject, highContrast: boolean) => highContrast ? HIGH_CONTRAST_HAZARDS[key] : obj.color ?? '#ffffff';
+
+const tinted = (params: THREE.MeshBasicMaterialParameters = {}) => () => new THREE.MeshBasicMaterial(params);
+
+const shadowPart = (geometry: THREE.BufferGeometry, bobs = false): EntityPart => ({
+  geometry,
+  material: tinted({ color: '#000000', opacity: 0.3, transparent: true }),
+  ground: true,
+  place: (obj, part, { time }) => {
+      part.position.y = 0.03;
+      part.rotation.x = FLAT;
+      // Shrinks as the pickup bobs up
+      if (bobs) part.scale.setScalar(1 - bobOffset(obj, time));
+  }
+});
+
+const bobOffset = (obj: GameObject, time: number) => Math.sin(time * 4 + obj.position[0]) * 0.1;
+
+// Blob shadow under each type, drawn when the quality preset has shadows
+const SHADOWS: Partial<Record<ObjectType, EntityPart>> = {
+  [ObjectType.OBSTACLE]: shadowPart(SHADOW_DEFAULT_GEO),
+  [ObjectType.ALIEN]: shadowPart(SHADOW_ALIEN_GEO),
+  [ObjectType.MISSILE]: shadowPart(SHADOW_MISSILE_GEO),
+  [ObjectType.BARRIER]: shadowPart(SHADOW_BAR_GEO),
+  [ObjectType.GEM]: shadowPart(SHADOW_GEM_GEO, true)
+};
+
+// Missile parts sit in a group turned to point along the track
+const missilePart = (y: number) => (obj: GameObject, part: THREE.Object3D) => {
+  part.rotation.x = Math.PI / 2;
+  part.position.set(0, 0, y);
+};
+
+const PARTS: Partial<Record<ObjectType, EntityPart[]>> = {
+  [ObjectType.OBSTACLE]: [
+      {
+          geometry: OBSTACLE_GEOMETRY,
+          material: highContrast => new THREE.MeshStandardMaterial({ color: highContrast ? HIGH_CONTRAST_HAZARDS.obstacle : '#330011', roughness: 0.3, metalness: 0.8, flatShading: true }),
+          castShadow: true
+      },
+      {
+          geometry: OBSTACLE_GEOMETRY,
+          material: highContrast => new THREE.MeshBasicMaterial({ wireframe: true, transparent: true, opacity: highContrast ? 0.9 : 0.3 }),
+          color: hazardColor('obstacleGlow'),
+          place: (obj, part) => { part.scale.setScalar(1.02); }
+      },
+      {
+          geometry: OBSTACLE_RING_GEO,
+          material: highContrast => new THREE.MeshBasicMaterial({ transparent: true, opacity: highContrast ? 0.9 : 0.4, side: THREE.DoubleSide }),
+          color: hazardColor('obstacleGlow'),
+          place: (obj, part) => {
+              part.position.y = -OBSTACLE_HEIGHT / 2 + 0.05;
+              part.rotation.x = FLAT;
+          }
+      },
+      {
+          // Drift arrow towards the target lane
+          geometry: DRIFT_TELEGRAPH_GEO,
+          material: tinted({ transparent: true, opacity: 0.5, depthWrite: false }),
+          color: hazardColor('obstacleGlow'),
+          ground: true,
+          place: (obj, part) => {
+              if (obj.targetX === undefined) return false;
+              const offset = obj.targetX - obj.position[0];
+              if (Math.abs(offset) <= 0.05) return false;
+              part.position.set(offset / 2, 0.04, 0);
+              part.rotation.x = FLAT;
+              part.scale.x = Math.abs(offset);
+          },
+          animate: (material, { time }) => { material.opacity = 0.3 + Math.abs(Math.sin(time * 8)) * 0.4; }
+      }
+  ],
+  [ObjectType.ALIEN]: [
+      {
+          geometry: ALIEN_BODY_GEO,
+          material: highContrast => new THREE.MeshStandardMaterial({ color: highContrast ? HIGH_CONTRAST_HAZARDS.alien : '#4400cc', metalness: 0.8, roughness: 0.2 }),
+          castShadow: true
+      },
+      {
+          geometry: ALIEN_DOME_GEO,
+          material: highContrast => {
+              const color = highContrast ? HIGH_CONTRAST_HAZARDS.alienDome : '#00ff00';
+              return new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 0.5, transparent: true, opacity: 0.8 });
+          },
+          place: at(0, 0.2, 0)
+      },
+      { geometry: ALIEN_EYE_GEO, material: tinted({ color: '#ff00ff' }), place: at(0.3, 0, 0.3) },
+      { geometry: ALIEN_EYE_GEO, material: tinted({ color: '#ff00ff' }), place: at(-0.3, 0, 0.3) }
+  ],
+  [ObjectType.MISSILE]: [
+      {
+          geometry: MISSILE_CORE_GEO,
+          material: highContrast => {
+              const color = highContrast ? HIGH_CONTRAST_HAZARDS.missile : '#ff0000';
+              return new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 4 });
+          },
+          place: missilePart(0)
+      },
+      ...[1.0, 0, -1.0].map((y): EntityPart => ({
+          geometry: MISSILE_RING_GEO,
+          material: highContrast => new THREE.MeshBasicMaterial({ color: highContrast ? HIGH_CONTRAST_HAZARDS.missileRing : '#ffff00' }),
+          place: missilePart(y)
+      }))
+  ],
+  [ObjectType.BARRIER]: [
+      {
+          geometry: BARRIER_BAR_GEO,
+          material: tinted({ toneMapped: false }),
+          color: hazardColor('barrier'),
+          glow: 1.5,
+          castShadow: true
+      },
+      ...[-1, 1].map((side): EntityPart => ({
+          geometry: BARRIER_POST_GEO,
+          material: () => new THREE.MeshStandardMaterial({ color: '#222222', metalness: 0.8, roughness: 0.3 }),
+          place: (obj, part) => {
+              part.position.set(side * LANE_WIDTH * 0.45, -obj.position[1] / 2, 0);
+              part.scale.y = obj.position[1];
+          }
+      })),
+      {
+          // Field above the bar: nothing gets over it
+          geometry: BARRIER_FIELD_GEO,
+          material: highContrast => new THREE.MeshBasicMaterial({ transparent: true, opacity: highContrast ? 0.6 : 0.25, side: THREE.DoubleSide, depthWrite: false }),
+          color: hazardColor('barrierField'),
+          place: at(0, 1.6, 0)
+      }
+  ],
+  [ObjectType.LASER_GATE]: [
+      { geometry: LASER_BEAM_GEO, material: tinted({ toneMapped: false }), color: hazardColor('laser') },
+      ...[-0.7, 0.7].map((x): EntityPart => ({
+          geometry: LASER_EMITTER_GEO,
+          material: tinted({ toneMapped: false }),
+          color: hazardColor('laser'),
+          glow: 2,
+          place: at(x, 0, 0)
+      })),
+      {
+          // The rail stays centered on the track while the beam moves along it
+          geometry: LASER_RAIL_GEO,
+          material: tinted({ transparent: true, opacity: 0.35 }),
+          color: hazardColor('laser'),
+          ground: true,
+          place: (obj, part, { laneCount }) => {
+              part.position.set(-obj.position[0], obj.position[1], 0);
+              part.scale.x = laneCount * LANE_WIDTH;
+          }
+      }
+  ],
+  [ObjectType.GEM]: [
+      {
+          geometry: GEM_GEOMETRY,
+          material: tinted({ toneMapped: false }),
+          color: obj => obj.color ?? '#ffffff',
+          glow: 2,
+          castShadow: true
+      }
+  ]
+};
+
+// The animated origin of an object's parts: bobbing, spinning, banking
+const placeVisual = (obj: GameObject, visual: THREE.Object3D, { time, playerX }: PartContext) => {
+  const [x, y, z] = obj.position;
+  visual.position.set(x, y, z);
+  visual.rotation.set(0, 0, 0);
+
+  switch (obj.type) {
+      case ObjectType.MISSILE:
+          visual.rotation.z = time * 20;
+          break;
+      case ObjectType.ALIEN: {
+          visual.position.y = y + Math.sin(time * 3) * 0.2;
+          visual.rotation.y = time;
+          // Banks towards the player while strafing
+          const lean = obj.strafes && !obj.hasFired ? (playerX - x) * -0.1 : 0;
+          visual.rotation.z = THREE.MathUtils.clamp(lean, -0.4, 0.4);
+          break;
+      }
+      case ObjectType.GEM:
+          visual.position.y = y + bobOffset(obj, time);
+          visual.rotation.y = time * 3;
+          break;
+  }
+  visual.updateMatrix();
+};
+
+interface Batch {
+  type: ObjectType;
+  part: EntityPart;
+}
+
+const buildBatches = (shadows: boolean): Batch[] => {
+  const batches: Batch[] = [];
+  for (const type of Object.values(ObjectType)) {
+      PARTS[type]?.forEach(part => batches.push({ type, part }));
+      const shadow = SHADOWS[type];
+      if (shadows && shadow) batches.push({ type, part: shadow });
+  }
+  return batches;
+};
+
+// Scratch objects for the per-frame matrix math
+const visual = new THREE.Object3D();
+const ground = new THREE.Object3D();
+const local = new THREE.Object3D();
+const instanceMatrix = new THREE.Matrix4();
+const instanceColor = new THREE.Color();
+
+export const EntityBatches: React.FC = () => {
+  const highContrast = useSettings(state => state.highContrast);
+  const { shadows } = useQuality();
+  const meshRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
+  const clock = useRef(0);
+
+  const batches = useMemo(() => buildBatches(shadows), [shadows]);
+  const materials = useMemo(() => batches.map(({ part }) => part.material(highContrast)), [batches, highContrast]);
+  useEffect(() => () => materials.forEach(material => material.dispose()), [materials]);
+
+  // Batch indices per object type, so each object is visited once
+  const batchesByType = useMemo(() => {
+      const byType = new Map<ObjectType, number[]>();
+      batches.forEach(({ type }, i) => byType.set(type, [...(byType.get(type) ?? []), i]));
+      return byType;
+  }, [batches]);
+  const counts = useMemo(() => new Array<number>(batches.length).fill(0), [batches]);
+
+  useFrame((state, delta) => {
+      const { status, isTimeWarpActive, laneCount, playerLane } = useStore.getState();
+      if (status !== GameStatus.PAUSED) clock.current += delta * (isTimeWarpActive ? 0.5 : 1);
+      const ctx: PartContext = { time: clock.current, laneCount, playerX: playerLane * LANE_WIDTH };
+      counts.fill(0);
+
+      for (const obj of world.objects) {
+          const indices = obj.active ? batchesByType.get(obj.type) : undefined;
+          if (!indices) continue;
+
+          placeVisual(obj, visual, ctx);
+          ground.position.set(obj.position[0], 0, obj.position[2]);
+          ground.updateMatrix();
+
+          for (const index of indices) {
+              const mesh = meshRefs.current[index];
+              if (!mesh || counts[index] >= MAX_INSTANCES) continue;
+              const { part } = batches[index];
+
+              local.position.set(0, 0, 0);
+              local.rotation.set(0, 0, 0);
+              local.scale.set(1, 1, 1);
+              if (part.place?.(obj, local, ctx) === false) continue;
+              local.updateMatrix();
+
+              instanceMatrix.multiplyMatrices(part.ground ? ground.matrix : visual.matrix, local.matrix);
+              mesh.setMatrixAt(counts[index], instanceMatrix);
+              if (part.color) {
+                  instanceColor.set(part.color(obj, highContrast)).multiplyScalar(part.glow ?? 1);
+                  mesh.setColorAt(counts[index], instanceColor);
+              }
+              counts[index]++;
+          }
+      }
+
+      meshRefs.current.forEach((mesh, i) => {
+          if (!mesh) return;
+          batches[i].part.animate?.(materials[i], ctx);
+          mesh.count = counts[i];
+          mesh.instanceMatrix.needsUpdate = true;
+          if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+      });
+  });
+
+  return (
+      <group>
+          {batches.map(({ part }, i) => (
+              <instancedMesh
+                  key={i}
+                  ref={el => { meshRefs.current[i] = el; }}
+                  args={[part.geometry, undefined, MAX_INSTANCES]}
+                  material={materials[i]}
+                  castShadow={part.castShadow}
+                  frustumCulled={false}
+              />
+          ))}
+      </group>
+  );
+};
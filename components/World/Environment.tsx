@@ -8,12 +8,16 @@
 import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useStore } from '../../store';
-import { LANE_WIDTH } from '../../types';
+import { GameState, useRunStats, useTransient } from '../../store';
+import { LANE_WIDTH, GameStatus } from '../../types';
+import { useQuality } from '../System/Settings';
+
+// What the scrolling scenery reads every frame
+const selectScroll = ({ speed, isTimeWarpActive, status }: GameState) => ({ speed, isTimeWarpActive, status });
 
 const StarField: React.FC = () => {
-  const { speed, isTimeWarpActive } = useStore();
-  const count = 3000; // Increased star count for better density
+  const scroll = useTransient(selectScroll);
+  const count = useQuality().starCount;
   const meshRef = useRef<THREE.Points>(null);
   
   const positions = useMemo(() => {
@@ -37,10 +41,11 @@ const StarField: React.FC = () => {
       pos[i * 3 + 2] = z; 
     }
     return pos;
-  }, []);
+  }, [count]);
 
   useFrame((state, delta) => {
-    if (!meshRef.current) return;
+    const { speed, isTimeWarpActive, status } = scroll.current;
+    if (!meshRef.current || status === GameStatus.PAUSED) return;
     
     const positions = meshRef.current.geometry.attributes.position.array as Float32Array;
     
@@ -74,7 +79,8 @@ const StarField: React.FC = () => {
   });
 
   return (
-    <points ref={meshRef}>
+    // Keyed by count: a resized buffer needs a fresh geometry
+    <points ref={meshRef} key={count}>
       <bufferGeometry>
         <bufferAttribute
           attach="attributes-position"
@@ -95,7 +101,7 @@ const StarField: React.FC = () => {
 };
 
 const LaneGuides: React.FC = () => {
-    const { laneCount } = useStore();
+    const laneCount = useRunStats(stats => stats.laneCount);
     
     const separators = useMemo(() => {
         const lines: number[] = [];
@@ -203,12 +209,13 @@ const RetroSun: React.FC = () => {
 };
 
 const MovingGrid: React.FC = () => {
-    const { speed, isTimeWarpActive } = useStore();
+    const scroll = useTransient(selectScroll);
     const meshRef = useRef<THREE.Mesh>(null);
     const offsetRef = useRef(0);
     
     useFrame((state, delta) => {
-        if (meshRef.current) {
+        const { speed, isTimeWarpActive, status } = scroll.current;
+        if (meshRef.current && status !== GameStatus.PAUSED) {
              const timeFactor = isTimeWarpActive ? 0.5 : 1.0;
              const activeSpeed = (speed > 0 ? speed : 5) * timeFactor;
              
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useTransient } from '../../store';
+import { LANE_WIDTH } from '../../types';
+import { world, getPlayerHeight } from '../System/World';
+import { Box, CollisionLayer, getHitbox, getObjectBox, getPlayerBox } from '../System/Collision';
+
+const BOX_GEO = new THREE.BoxGeometry(1, 1, 1);
+
+const MAX_BOXES = 256;
+const MAX_HEIGHT = 8; // Open-ended boxes (barrier fields, portals) are cut off here
+
+const LAYER_COLORS: Record<CollisionLayer | 'PLAYER', THREE.Color> = {
+  PLAYER: new THREE.Color('#00ff66'),
+  HAZARD: new THREE.Color('#ff2222'),
+  PICKUP: new THREE.Color('#00ccff'),
+  TRIGGER: new THREE.Color('#ffcc00')
+};
+
+const dummy = new THREE.Object3D();
+
+// Debug view of the collision boxes: the player's and every live object's,
+// at their current position and colored by layer. Boxes spanning the whole
+// track or reaching up forever are clamped to the visible track.
+export const HitboxOverlay: React.FC = () => {
+  const laneCount = useTransient(state => state.laneCount);
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const halfTrack = (Math.floor(laneCount.current / 2) + 0.5) * LANE_WIDTH;
+    let count = 0;
+
+    const add = (box: Box, color: THREE.Color) => {
+      if (count >= MAX_BOXES) return;
+      const minX = Math.max(box.minX, -halfTrack);
+      const maxX = Math.min(box.maxX, halfTrack);
+      const minY = Math.max(box.minY, 0);
+      const maxY = Math.min(box.maxY, MAX_HEIGHT);
+      dummy.position.set((minX + maxX) / 2, (minY + maxY) / 2, (box.minZ + box.maxZ) / 2);
+      dummy.scale.set(maxX - minX, Math.max(maxY - minY, 0.01), box.maxZ - box.minZ);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(count, dummy.matrix);
+      mesh.setColorAt(count, color);
+      count++;
+    };
+
+    const player = world.player;
+    add(getPlayerBox(player.x, player.y, getPlayerHeight(player)), LAYER_COLORS.PLAYER);
+
+    for (const obj of world.objects) {
+      if (!obj.active) continue;
+      const box = getObjectBox(obj);
+      if (box) add(box, LAYER_COLORS[getHitbox(obj.type)!.layer]);
+    }
+
+    mesh.count = count;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh ref={meshRef} args={[BOX_GEO, undefined, MAX_BOXES]} frustumCulled={false}>
+      <meshBasicMaterial wireframe toneMapped={false} />
+    </instancedMesh>
+  );
+};
@@ -15,13 +15,14 @@ import React, { useRef, useEffect, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Line } from '@react-three/drei';
 import * as THREE from 'three';
-import { useStore } from '../../store';
-import { LANE_WIDTH, GameStatus, GameMode } from '../../types';
-import { audio } from '../System/Audio';
-
-// Physics Constants
-const GRAVITY = 50;
-const JUMP_FORCE = 16; // Results in ~2.56 height (v^2 / 2g)
+import { useStore, useUiFlags, useInventory, useTransient, GameState } from '../../store';
+import { LANE_WIDTH, GameStatus, GameMode, InputAction } from '../../types';
+import { input } from '../System/Input';
+import { controls } from '../System/Controls';
+import { useSettings, useQuality } from '../System/Settings';
+import { simulation } from '../System/Simulation';
+import { getStack, hasItem } from '../System/Items';
+import { world, landPlayer, isSliding, GRAVITY, JUMP_FORCE } from '../System/World';
 
 // Static Geometries
 const TORSO_GEO = new THREE.CylinderGeometry(0.25, 0.15, 0.6, 4);
@@ -39,13 +40,20 @@ const DRONE_BODY_GEO = new THREE.BoxGeometry(0.2, 0.2, 0.3);
 const DRONE_WING_GEO = new THREE.BoxGeometry(0.5, 0.05, 0.1);
 
 // --- Jump Assist Visualization (Easy Mode) ---
-const JumpTrajectory: React.FC<{ speed: number }> = ({ speed }) => {
+// Hidden mid-jump and while the run is not moving
+const JumpTrajectory: React.FC = () => {
+    const groupRef = useRef<THREE.Group>(null);
     const meshRef = useRef<THREE.InstancedMesh>(null);
     const landingRef = useRef<THREE.Group>(null);
     const dummy = useMemo(() => new THREE.Object3D(), []);
+    const run = useTransient(({ speed, isTimeWarpActive }) => ({ speed, isTimeWarpActive }));
 
     useFrame((state) => {
-        if (!meshRef.current || !landingRef.current) return;
+        if (!groupRef.current || !meshRef.current || !landingRef.current) return;
+
+        const speed = run.current.speed * (run.current.isTimeWarpActive ? 0.5 : 1.0);
+        groupRef.current.visible = speed >= 1 && !world.player.isJumping;
+        if (!groupRef.current.visible) return;
 
         const activeSpeed = speed > 1 ? speed : 10;
         const totalTime = (2 * JUMP_FORCE) / GRAVITY;
@@ -73,10 +81,8 @@ const JumpTrajectory: React.FC<{ speed: number }> = ({ speed }) => {
         landingRef.current.scale.setScalar(pulse);
     });
 
-    if (speed < 1) return null;
-
     return (
-        <group position={[0, 0, 0]}>
+        <group ref={groupRef} position={[0, 0, 0]}>
              <instancedMesh ref={meshRef} args={[undefined, undefined, 16]}>
                  <sphereGeometry args={[1, 8, 8]} />
                  <meshBasicMaterial color="#00ff00" transparent opacity={0.8} />
@@ -100,6 +106,10 @@ const JumpTrajectory: React.FC<{ speed: number }> = ({ speed }) => {
     );
 };
 
+// What the per-frame pose and aura read from the store
+const selectFrame = ({ status, isTimeWarpActive, isImmortalityActive, isShopInvincible }: GameState) =>
+  ({ status, isTimeWarpActive, isImmortalityActive, isShopInvincible });
+
 export const Player: React.FC = () => {
   const groupRef = useRef<THREE.Group>(null);
   const pivotRef = useRef<THREE.Group>(null); 
@@ -114,22 +124,16 @@ export const Player: React.FC = () => {
   
   const droneRef = useRef<THREE.Group>(null);
 
-  const { status, laneCount, takeDamage, hasDoubleJump, activateImmortality, activateTimeWarp, triggerSonicBlast, isImmortalityActive, isTimeWarpActive, shieldCount, speed, setPlayerLane, gameMode, isShopInvincible, hasDrone } = useStore();
-  
-  const [lane, setLane] = React.useState(0);
-  const targetX = useRef(0);
+  const gameMode = useUiFlags(flags => flags.gameMode);
+  const hasDrone = useInventory(({ inventory }) => hasItem(inventory, 'DRONE'));
+  const hasShield = useInventory(({ inventory }) => getStack(inventory, 'SHIELD') > 0);
+  const frame = useTransient(selectFrame);
+  const reducedMotion = useSettings(state => state.reducedMotion);
+  const { shadows } = useQuality();
   
-  const isJumping = useRef(false);
-  const velocityY = useRef(0);
-  const jumpsPerformed = useRef(0); 
-  const spinRotation = useRef(0); 
-
   const touchStartX = useRef(0);
   const touchStartY = useRef(0);
 
-  const isInvincible = useRef(false);
-  const lastDamageTime = useRef(0);
-
   // Initialize Materials once
   const { armorMaterial, jointMaterial, glowMaterial, shadowMaterial, shieldMaterial } = useMemo(() => {
       return {
@@ -159,71 +163,44 @@ export const Player: React.FC = () => {
       };
   }, []);
 
-  useEffect(() => {
-    setPlayerLane(lane);
-  }, [lane, setPlayerLane]);
+  const resetPose = () => {
+      if (groupRef.current) groupRef.current.position.set(world.player.x, world.player.y, 0);
+      if (bodyRef.current) bodyRef.current.rotation.x = 0;
+      if (pivotRef.current) {
+          pivotRef.current.rotation.x = 0;
+          pivotRef.current.rotation.z = 0;
+      }
+  };
 
+  // Land the player whenever play (re)starts, e.g. leaving the shop, but not
+  // when resuming from pause. Subscribed synchronously so it happens at the
+  // same tick in a replay.
   useEffect(() => {
-      if (status === GameStatus.PLAYING) {
-          isJumping.current = false;
-          jumpsPerformed.current = 0;
-          velocityY.current = 0;
-          spinRotation.current = 0;
-          if (groupRef.current) groupRef.current.position.y = 0;
-          if (bodyRef.current) bodyRef.current.rotation.x = 0;
-          if (pivotRef.current) {
-              pivotRef.current.rotation.x = 0;
-              pivotRef.current.rotation.z = 0;
+      return useStore.subscribe((state, prev) => {
+          if (state.status === GameStatus.PLAYING && prev.status !== GameStatus.PLAYING && prev.status !== GameStatus.PAUSED) {
+              landPlayer(world.player);
+              resetPose();
           }
-      }
-  }, [status]);
-  
-  useEffect(() => {
-      const maxLane = Math.floor(laneCount / 2);
-      if (Math.abs(lane) > maxLane) {
-          setLane(l => Math.max(Math.min(l, maxLane), -maxLane));
-      }
-  }, [laneCount, lane]);
-
-  const triggerJump = () => {
-    const maxJumps = hasDoubleJump ? 2 : 1;
-
-    if (!isJumping.current) {
-        audio.playJump(false);
-        isJumping.current = true;
-        jumpsPerformed.current = 1;
-        velocityY.current = JUMP_FORCE;
-    } else if (jumpsPerformed.current < maxJumps) {
-        audio.playJump(true);
-        jumpsPerformed.current += 1;
-        velocityY.current = JUMP_FORCE; 
-        spinRotation.current = 0; 
-    }
-  };
+      });
+  }, []);
 
-  const attemptSonicBlast = () => {
-      const fired = triggerSonicBlast();
-      if (fired) {
-          window.dispatchEvent(new CustomEvent('trigger-sonic-blast'));
-      }
-  };
+  // New run: the world puts the player back in the center lane
+  useEffect(() => simulation.onReset(resetPose), []);
+
+  // Live input is ignored while a replay drives the player
+  const acceptsInput = useUiFlags(flags => flags.status === GameStatus.PLAYING && !flags.isReplay);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (status !== GameStatus.PLAYING) return;
-      const maxLane = Math.floor(laneCount / 2);
-
-      if (e.key === 'ArrowLeft') setLane(l => Math.max(l - 1, -maxLane));
-      else if (e.key === 'ArrowRight') setLane(l => Math.min(l + 1, maxLane));
-      else if (e.key === 'ArrowUp' || e.key === 'w') triggerJump();
-      else if (e.key === ' ' || e.key === 'Enter') activateImmortality();
-      else if (e.key === 'Shift' || e.key === 'ArrowDown') activateTimeWarp();
-      else if (e.key === 'z' || e.key === 'Z') attemptSonicBlast();
+      if (!acceptsInput) return;
+
+      const action = controls.actionForKey(e.key);
+      if (action) input.push(action);
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [status, laneCount, hasDoubleJump, activateImmortality, activateTimeWarp, triggerSonicBlast]);
+  }, [acceptsInput]);
 
   useEffect(() => {
     const handleTouchStart = (e: TouchEvent) => {
@@ -232,19 +209,19 @@ export const Player: React.FC = () => {
     };
 
     const handleTouchEnd = (e: TouchEvent) => {
-        if (status !== GameStatus.PLAYING) return;
+        if (!acceptsInput) return;
+        // Taps on HUD buttons (pause, skills) are not gestures
+        if ((e.target as HTMLElement)?.closest?.('button')) return;
         const deltaX = e.changedTouches[0].clientX - touchStartX.current;
         const deltaY = e.changedTouches[0].clientY - touchStartY.current;
-        const maxLane = Math.floor(laneCount / 2);
 
         if (Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > 30) {
-             if (deltaX > 0) setLane(l => Math.min(l + 1, maxLane));
-             else setLane(l => Math.max(l - 1, -maxLane));
+             input.push(deltaX > 0 ? InputAction.LANE_RIGHT : InputAction.LANE_LEFT);
         } else if (Math.abs(deltaY) > Math.abs(deltaX)) {
-             if (deltaY < -30) triggerJump();
-             else if (deltaY > 30) activateTimeWarp(); 
+             if (deltaY < -30) input.push(InputAction.JUMP);
+             else if (deltaY > 30) input.push(InputAction.SLIDE);
         } else if (Math.abs(deltaX) < 10 && Math.abs(deltaY) < 10) {
-            activateImmortality();
+            input.push(InputAction.IMMORTALITY);
         }
     };
 
@@ -254,50 +231,46 @@ export const Player: React.FC = () => {
         window.removeEventListener('touchstart', handleTouchStart);
         window.removeEventListener('touchend', handleTouchEnd);
     };
-  }, [status, laneCount, hasDoubleJump, activateImmortality, activateTimeWarp]);
+  }, [acceptsInput]);
 
+  // --- Visuals (per rendered frame) ---
   useFrame((state, delta) => {
+    const { status, isTimeWarpActive, isImmortalityActive, isShopInvincible } = frame.current;
     if (!groupRef.current) return;
     if (status !== GameStatus.PLAYING && status !== GameStatus.SHOP) return;
 
+    const player = world.player;
     const timeFactor = isTimeWarpActive ? 0.5 : 1.0;
     const adjustedDelta = delta * timeFactor;
-    
-    targetX.current = lane * LANE_WIDTH;
-    groupRef.current.position.x = THREE.MathUtils.lerp(
-        groupRef.current.position.x, 
-        targetX.current, 
-        delta * 15 
-    );
-
-    if (isJumping.current) {
-        groupRef.current.position.y += velocityY.current * adjustedDelta;
-        velocityY.current -= GRAVITY * adjustedDelta;
 
-        if (groupRef.current.position.y <= 0) {
-            groupRef.current.position.y = 0;
-            isJumping.current = false;
-            jumpsPerformed.current = 0;
-            velocityY.current = 0;
-            if (bodyRef.current) bodyRef.current.rotation.x = 0;
-        }
+    groupRef.current.position.x = player.x;
+    groupRef.current.position.y = player.y;
 
-        if (jumpsPerformed.current === 2 && bodyRef.current) {
-             spinRotation.current -= adjustedDelta * 15;
-             if (spinRotation.current < -Math.PI * 2) spinRotation.current = -Math.PI * 2;
-             bodyRef.current.rotation.x = spinRotation.current;
-        }
+    if (player.isJumping && player.jumpsPerformed === 2 && bodyRef.current) {
+        bodyRef.current.rotation.x = player.spin;
     }
 
+    const sliding = isSliding(player);
+
     if (pivotRef.current) {
-        const xDiff = targetX.current - groupRef.current.position.x;
+        const xDiff = player.lane * LANE_WIDTH - player.x;
         pivotRef.current.rotation.z = -xDiff * 0.2; 
-        pivotRef.current.rotation.x = isJumping.current ? 0.1 : 0.05; 
+        const lean = sliding ? 0.9 : player.isJumping ? 0.1 : 0.05;
+        pivotRef.current.rotation.x = THREE.MathUtils.lerp(pivotRef.current.rotation.x, lean, Math.min(1, delta * 20));
     }
 
     const time = state.clock.elapsedTime * (25 * timeFactor); 
     
-    if (!isJumping.current) {
+    if (sliding && !player.isJumping) {
+        // Crouched slide: leaning back, legs out front, low to the ground
+        const slidePoseSpeed = Math.min(1, adjustedDelta * 20);
+        if (leftArmRef.current) leftArmRef.current.rotation.x = THREE.MathUtils.lerp(leftArmRef.current.rotation.x, 0.8, slidePoseSpeed);
+        if (rightArmRef.current) rightArmRef.current.rotation.x = THREE.MathUtils.lerp(rightArmRef.current.rotation.x, 0.8, slidePoseSpeed);
+        if (leftLegRef.current) leftLegRef.current.rotation.x = THREE.MathUtils.lerp(leftLegRef.current.rotation.x, 1.4, slidePoseSpeed);
+        if (rightLegRef.current) rightLegRef.current.rotation.x = THREE.MathUtils.lerp(rightLegRef.current.rotation.x, 1.2, slidePoseSpeed);
+
+        if (bodyRef.current) bodyRef.current.position.y = THREE.MathUtils.lerp(bodyRef.current.position.y, 0.45, slidePoseSpeed);
+    } else if (!player.isJumping) {
         if (leftArmRef.current) leftArmRef.current.rotation.x = Math.sin(time) * 0.7;
         if (rightArmRef.current) rightArmRef.current.rotation.x = Math.sin(time + Math.PI) * 0.7;
         if (leftLegRef.current) leftLegRef.current.rotation.x = Math.sin(time + Math.PI) * 1.0;
@@ -311,7 +284,7 @@ export const Player: React.FC = () => {
         if (leftLegRef.current) leftLegRef.current.rotation.x = THREE.MathUtils.lerp(leftLegRef.current.rotation.x, 0.5, jumpPoseSpeed);
         if (rightLegRef.current) rightLegRef.current.rotation.x = THREE.MathUtils.lerp(rightLegRef.current.rotation.x, -0.5, jumpPoseSpeed);
         
-        if (bodyRef.current && jumpsPerformed.current !== 2) bodyRef.current.position.y = 1.1; 
+        if (bodyRef.current && player.jumpsPerformed !== 2) bodyRef.current.position.y = 1.1; 
     }
     
     // Drone Animation
@@ -324,7 +297,7 @@ export const Player: React.FC = () => {
     if (shadowRef.current) {
         const height = groupRef.current.position.y;
         const scale = Math.max(0.2, 1 - (height / 2.5) * 0.5); 
-        const runStretch = isJumping.current ? 1 : 1 + Math.abs(Math.sin(time)) * 0.3;
+        const runStretch = player.isJumping ? 1 : 1 + Math.abs(Math.sin(time)) * 0.3;
 
         shadowRef.current.scale.set(scale, scale, scale * runStretch);
         const material = shadowRef.current.material as THREE.MeshBasicMaterial;
@@ -335,17 +308,10 @@ export const Player: React.FC = () => {
 
     // --- VISUAL PULSE LOGIC ---
     const isGoldMode = isImmortalityActive || isShopInvincible || gameMode === GameMode.CHEAT;
-    
-    // Check damage invincibility timeout
-    if (isInvincible.current && gameMode !== GameMode.CHEAT && !isShopInvincible && !isImmortalityActive) {
-         if (Date.now() - lastDamageTime.current > 1500) {
-            isInvincible.current = false;
-         }
-    }
 
     if (isGoldMode) {
         // GOLDEN AURA MODE - UPDATED (Less blinding)
-        const pulse = (Math.sin(state.clock.elapsedTime * 6) + 1) * 0.5; // Smooth 0-1, slightly slower (6)
+        const pulse = reducedMotion ? 0.5 : (Math.sin(state.clock.elapsedTime * 6) + 1) * 0.5; // Smooth 0-1, slightly slower (6)
         const intensity = 0.2 + pulse * 0.8; // Reduced range: 0.2 to 1.0 (was 0.5 to 2.5)
         
         armorMaterial.color.setHex(0xffd700); // Gold
@@ -367,10 +333,10 @@ export const Player: React.FC = () => {
         glowMaterial.color.setHex(0x00ffff); // Cyan
         jointMaterial.color.setHex(0x111111);
 
-        if (isInvincible.current) {
-            // Damage Flicker
+        if (player.isInvincible) {
+            // Damage Flicker (steady translucency when motion is reduced)
             const flicker = Math.sin(state.clock.elapsedTime * 30) > 0;
-            const opacity = flicker ? 0.2 : 0.8;
+            const opacity = reducedMotion ? 0.5 : flicker ? 0.2 : 0.8;
             armorMaterial.opacity = opacity;
             jointMaterial.opacity = opacity;
             glowMaterial.opacity = opacity;
@@ -382,30 +348,12 @@ export const Player: React.FC = () => {
     }
   });
 
-  useEffect(() => {
-     const checkHit = (e: any) => {
-        if (isInvincible.current || isImmortalityActive || isShopInvincible || gameMode === GameMode.CHEAT || shieldCount > 0) {
-            takeDamage();
-            return;
-        }
-        
-        audio.playDamage();
-        takeDamage();
-        isInvincible.current = true;
-        lastDamageTime.current = Date.now();
-     };
-     window.addEventListener('player-hit', checkHit);
-     return () => window.removeEventListener('player-hit', checkHit);
-  }, [takeDamage, isImmortalityActive, gameMode, shieldCount, isShopInvincible]);
-
-  const effectiveSpeed = speed * (isTimeWarpActive ? 0.5 : 1.0);
-
   return (
     <group ref={groupRef} position={[0, 0, 0]}>
-      {!isJumping.current && gameMode === GameMode.ASSIST && <JumpTrajectory speed={effectiveSpeed} />}
+      {gameMode === GameMode.ASSIST && <JumpTrajectory />}
 
       <group ref={pivotRef}>
-          {shieldCount > 0 && (
+          {hasShield && (
              <mesh position={[0, 1.1, 0]}>
                  <sphereGeometry args={[1.2, 16, 16]} />
                  <primitive object={shieldMaterial} />
@@ -459,7 +407,7 @@ export const Player: React.FC = () => {
           </group>
       </group>
       
-      <mesh ref={shadowRef} position={[0, 0.02, 0]} rotation={[-Math.PI/2, 0, 0]} geometry={SHADOW_GEO} material={shadowMaterial} />
+      <mesh ref={shadowRef} visible={shadows} position={[0, 0.02, 0]} rotation={[-Math.PI/2, 0, 0]} geometry={SHADOW_GEO} material={shadowMaterial} />
     </group>
   );
 };
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { Profiler } from 'react';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { act, create, ReactTestRenderer } from 'react-test-renderer';
+import { useStore } from './store';
+import { GameMode, InputAction } from './types';
+import { DEFAULT_WORD_CHOICE } from './components/System/Words';
+import { world, stepWorld } from './components/System/World';
+import { HUD } from './components/UI/HUD';
+import { Player } from './components/World/Player';
+import { LevelManager } from './components/World/LevelManager';
+import { Environment } from './components/World/Environment';
+import { Mothership } from './components/World/Boss';
+
+// Rendered without a canvas: frame callbacks never run and drei's text and
+// lines have nothing to draw into. Only store-driven renders are left.
+vi.mock('@react-three/fiber', () => ({ useFrame: () => {} }));
+vi.mock('@react-three/drei', () => ({
+  Line: () => null,
+  Text: () => null,
+  Text3D: () => null,
+  Center: ({ children }: { children: React.ReactNode }) => <>{children}</>
+}));
+
+const SECONDS = 60;
+
+// What every one of these components cost before selectors: a render per store write
+const WholeStore: React.FC = () => {
+  useStore();
+  return null;
+};
+
+const COMPONENTS: [string, React.FC][] = [
+  ['HUD', HUD],
+  ['Player', Player],
+  ['LevelManager', LevelManager],
+  ['Environment', Environment],
+  ['Mothership', Mothership],
+  ['WholeStore', WholeStore]
+];
+
+describe('store subscriptions', () => {
+  beforeAll(() => {
+    vi.stubGlobal('IS_REACT_ACT_ENVIRONMENT', true);
+    // The components only add and remove listeners on these
+    vi.stubGlobal('window', new EventTarget());
+    vi.stubGlobal('document', Object.assign(new EventTarget(), { hidden: false }));
+  });
+
+  afterAll(() => vi.unstubAllGlobals());
+
+  // Plays a minute at 60 ticks per second, one commit per tick, and counts
+  // the renders of each real component
+  it('re-renders the game components far less often than a whole-store reader', () => {
+    // Invincible, so the run lasts the whole minute
+    useStore.setState({ gameMode: GameMode.CHEAT, wordChoice: DEFAULT_WORD_CHOICE });
+    useStore.getState().startGame(5, 1);
+
+    const renders: Record<string, number> = {};
+    const count = (id: string, phase: string) => {
+      if (phase !== 'mount') renders[id] = (renders[id] ?? 0) + 1;
+    };
+
+    let root: ReactTestRenderer;
+    act(() => {
+      root = create(
+        <>
+          {COMPONENTS.map(([id, Component]) => (
+            <Profiler key={id} id={id} onRender={count}>
+              <Component />
+            </Profiler>
+          ))}
+        </>
+      );
+    });
+
+    for (let tick = 0; tick < SECONDS * 60; tick++) {
+      const actions = tick % 40 === 0 ? [[InputAction.LANE_LEFT, InputAction.JUMP, InputAction.LANE_RIGHT][tick / 40 % 3]] : [];
+      act(() => { stepWorld(world, 1 / 60, actions, useStore); });
+    }
+    act(() => root.unmount());
+
+    const perSecond = (id: string) => (renders[id] ?? 0) / SECONDS;
+    const wholeStore = perSecond('WholeStore');
+    const components = COMPONENTS.length - 1;
+    const total = COMPONENTS.slice(0, -1).reduce((sum, [id]) => sum + perSecond(id), 0);
+
+    expect(wholeStore).toBeGreaterThan(1);
+    // The HUD shows the score, so it follows most writes; the scene barely renders
+    expect(perSecond('HUD')).toBeLessThan(wholeStore);
+    for (const id of ['Player', 'LevelManager', 'Environment', 'Mothership']) {
+      expect(perSecond(id)).toBeLessThan(wholeStore / 10);
+    }
+    expect(total).toBeLessThan(wholeStore * components / 4);
+  });
+});
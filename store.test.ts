@@ -0,0 +1,357 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useStore } from './store';
+import { GameMode, GameStatus, ObjectType, RUN_SPEED_BASE, FIXED_TIMESTEP } from './types';
+import { DEFAULT_WORD_CHOICE } from './components/System/Words';
+import { getItem, getBlockReason } from './components/System/Items';
+import { random } from './components/System/Random';
+import { daily, getDailyDate, getDailySeed, getDailyModifiers, getDailyInventory, DAILY_LEVELS } from './components/System/Daily';
+
+const startRun = (targetLevels = 5) => {
+  useStore.setState({ gameMode: GameMode.NORMAL, wordChoice: DEFAULT_WORD_CHOICE });
+  useStore.getState().startGame(targetLevels, 1);
+};
+
+describe('takeDamage', () => {
+  beforeEach(() => startRun());
+
+  it('spends shields before lives', () => {
+    useStore.setState({ inventory: { SHIELD: 2 } });
+
+    expect(useStore.getState().takeDamage(ObjectType.OBSTACLE)).toBe('ABSORBED');
+    expect(useStore.getState().inventory.SHIELD).toBe(1);
+    expect(useStore.getState().lives).toBe(3);
+  });
+
+  it('takes a life once shields are gone', () => {
+    useStore.setState({ inventory: { SHIELD: 0 } });
+
+    expect(useStore.getState().takeDamage(ObjectType.ALIEN)).toBe('LOST_LIFE');
+    expect(useStore.getState().lives).toBe(2);
+    expect(useStore.getState().lastHitBy).toBe(ObjectType.ALIEN);
+  });
+
+  it('revives on the last life and consumes the revive', () => {
+    useStore.setState({ lives: 1, maxLives: 4, inventory: { REVIVE: 1 } });
+
+    expect(useStore.getState().takeDamage(ObjectType.MISSILE)).toBe('REVIVED');
+    const state = useStore.getState();
+    expect(state.lives).toBe(4);
+    expect(state.inventory.REVIVE).toBe(0);
+    expect(state.isImmortalityActive).toBe(true);
+    expect(state.status).toBe(GameStatus.PLAYING);
+  });
+
+  it('ends the run with GAME_OVER on the last life', () => {
+    useStore.setState({ lives: 1 });
+
+    expect(useStore.getState().takeDamage(ObjectType.OBSTACLE)).toBe('FATAL');
+    expect(useStore.getState().status).toBe(GameStatus.GAME_OVER);
+    expect(useStore.getState().lives).toBe(0);
+  });
+
+  it('ends an endless run with VICTORY', () => {
+    startRun(Infinity);
+    useStore.setState({ lives: 1 });
+
+    useStore.getState().takeDamage(ObjectType.OBSTACLE);
+    expect(useStore.getState().status).toBe(GameStatus.VICTORY);
+  });
+
+  it('ignores hits while immortal or after leaving the shop', () => {
+    useStore.setState({ isImmortalityActive: true, inventory: { SHIELD: 1 } });
+    expect(useStore.getState().takeDamage(ObjectType.OBSTACLE)).toBe('IGNORED');
+
+    useStore.setState({ isImmortalityActive: false, isShopInvincible: true });
+    expect(useStore.getState().takeDamage(ObjectType.OBSTACLE)).toBe('IGNORED');
+
+    expect(useStore.getState().inventory.SHIELD).toBe(1);
+    expect(useStore.getState().lives).toBe(3);
+  });
+});
+
+describe('collectGem', () => {
+  beforeEach(() => startRun());
+
+  it('scales the value by 20% per level', () => {
+    useStore.setState({ level: 3 });
+    useStore.getState().collectGem(10);
+
+    const state = useStore.getState();
+    expect(state.currency).toBe(14);
+    expect(state.score).toBe(140);
+    expect(state.gemsCollected).toBe(1);
+  });
+
+  it('doubles the value with the gem booster', () => {
+    useStore.setState({ level: 3, inventory: { GEM_BOOSTER: 1 } });
+    useStore.getState().collectGem(10);
+
+    expect(useStore.getState().currency).toBe(28);
+  });
+
+  it('heals only below max lives', () => {
+    useStore.setState({ lives: 2 });
+    useStore.getState().collectGem(50, true);
+    expect(useStore.getState().lives).toBe(3);
+
+    useStore.getState().collectGem(50, true);
+    expect(useStore.getState().lives).toBe(3);
+  });
+});
+
+describe('collectLetter / advanceLevel', () => {
+  beforeEach(() => startRun());
+
+  it('ignores a letter that was already collected', () => {
+    useStore.getState().collectLetter(2);
+    const speed = useStore.getState().speed;
+    useStore.getState().collectLetter(2);
+
+    expect(useStore.getState().collectedLetters).toEqual([2]);
+    expect(useStore.getState().speed).toBe(speed);
+  });
+
+  it('advances the level once the word is complete', () => {
+    for (let i = 0; i < 6; i++) useStore.getState().collectLetter(i);
+
+    const state = useStore.getState();
+    expect(state.level).toBe(2);
+    expect(state.laneCount).toBe(5);
+    expect(state.collectedLetters).toEqual([]);
+    expect(state.speed).toBeCloseTo(RUN_SPEED_BASE * (1 + 6 * 0.025 + 0.1));
+  });
+
+  it('completes the word by its own length', () => {
+    useStore.getState().setWordChoice({ packId: 'space', wordIndex: 0 });
+    useStore.getState().startGame(5, 1);
+    expect(useStore.getState().targetWord.letters).toEqual(['S', 'T', 'A', 'R']);
+
+    for (let i = 0; i < 4; i++) useStore.getState().collectLetter(i);
+    expect(useStore.getState().level).toBe(2);
+  });
+
+  it('rotates through the pack per level', () => {
+    useStore.getState().setWordChoice({ packId: 'space', wordIndex: null });
+    useStore.getState().startGame(5, 1);
+    useStore.getState().advanceLevel();
+
+    expect(useStore.getState().targetWord.letters.join('')).toBe('COMET');
+  });
+
+  it('wins with a bonus on the final level', () => {
+    useStore.setState({ level: 5, score: 500 });
+    for (let i = 0; i < 6; i++) useStore.getState().collectLetter(i);
+
+    expect(useStore.getState().status).toBe(GameStatus.VICTORY);
+    expect(useStore.getState().score).toBe(10500);
+  });
+
+  it('grows the track by two lanes per level, up to 9', () => {
+    const lanes: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      useStore.getState().advanceLevel();
+      lanes.push(useStore.getState().laneCount);
+    }
+    expect(lanes).toEqual([5, 7, 9, 9, 9]);
+  });
+});
+
+describe('boss levels', () => {
+  beforeEach(() => startRun());
+
+  it('starts the boss fight instead of advancing', () => {
+    useStore.setState({ level: 3 });
+    for (let i = 0; i < 6; i++) useStore.getState().collectLetter(i);
+
+    const state = useStore.getState();
+    expect(state.level).toBe(3);
+    expect(state.bossFight).toMatchObject({ phase: 'ENTER', health: state.bossFight!.maxHealth });
+  });
+
+  it('advances once the boss is defeated', () => {
+    useStore.setState({ level: 3, score: 0 });
+    for (let i = 0; i < 6; i++) useStore.getState().collectLetter(i);
+    useStore.getState().defeatBoss();
+
+    const state = useStore.getState();
+    expect(state.level).toBe(4);
+    expect(state.bossFight).toBeNull();
+    expect(state.score).toBeGreaterThan(0);
+  });
+
+  it('wins once the boss of the final level is defeated', () => {
+    useStore.getState().startGame(3, 1);
+    useStore.setState({ level: 3 });
+    for (let i = 0; i < 6; i++) useStore.getState().collectLetter(i);
+    expect(useStore.getState().status).toBe(GameStatus.PLAYING);
+
+    useStore.getState().defeatBoss();
+    expect(useStore.getState().status).toBe(GameStatus.VICTORY);
+  });
+});
+
+describe('shop', () => {
+  const visitShop = () => {
+    startRun();
+    useStore.setState({ currency: 1000 });
+    useStore.getState().openShop();
+    return useStore.getState().shopLineup;
+  };
+
+  it('rolls the lineup once when the shop opens, the same for the same seed', () => {
+    const lineup = visitShop();
+
+    expect(lineup).toHaveLength(3);
+    expect(visitShop()).toEqual(lineup);
+  });
+
+  it('charges for a refresh and rolls a new lineup', () => {
+    visitShop();
+    const stream = random.shop.state;
+
+    expect(useStore.getState().refreshShop()).toBe(true);
+    expect(useStore.getState().currency).toBe(900);
+    expect(random.shop.state).not.toBe(stream);
+
+    useStore.setState({ currency: 50 });
+    expect(useStore.getState().refreshShop()).toBe(false);
+  });
+});
+
+describe('buyItem', () => {
+  beforeEach(() => {
+    startRun();
+    useStore.setState({ currency: 100000 });
+  });
+
+  it('charges the item cost', () => {
+    expect(useStore.getState().buyItem('DOUBLE_JUMP')).toBe(true);
+    expect(useStore.getState().currency).toBe(100000 - 200);
+    expect(useStore.getState().inventory.DOUBLE_JUMP).toBe(1);
+  });
+
+  it('refuses items the player cannot afford', () => {
+    useStore.setState({ currency: 199 });
+    expect(useStore.getState().buyItem('DOUBLE_JUMP')).toBe(false);
+    expect(useStore.getState().currency).toBe(199);
+  });
+
+  it('refuses one-time items that are already owned', () => {
+    useStore.getState().buyItem('TIME_WARP');
+    expect(useStore.getState().buyItem('TIME_WARP')).toBe(false);
+  });
+
+  it('caps shields at 3 and the magnet at level 5', () => {
+    for (let i = 0; i < 5; i++) useStore.getState().buyItem('SHIELD');
+    for (let i = 0; i < 7; i++) useStore.getState().buyItem('MAGNET');
+
+    expect(useStore.getState().inventory.SHIELD).toBe(3);
+    expect(useStore.getState().inventory.MAGNET).toBe(5);
+  });
+
+  it('caps max lives at 10 and blocks healing at full health', () => {
+    expect(useStore.getState().buyItem('HEAL')).toBe(false);
+
+    for (let i = 0; i < 10; i++) useStore.getState().buyItem('MAX_LIFE');
+    expect(useStore.getState().maxLives).toBe(10);
+    expect(useStore.getState().lives).toBe(10);
+  });
+
+  it('applies the VIP discount to later purchases', () => {
+    useStore.getState().buyItem('DISCOUNT');
+    const before = useStore.getState().currency;
+    useStore.getState().buyItem('SHIELD');
+
+    expect(before - useStore.getState().currency).toBe(120);
+  });
+
+  it('exchanges all gems for score', () => {
+    useStore.setState({ currency: 50, score: 0 });
+    expect(useStore.getState().buyItem('EXCHANGE')).toBe(true);
+    expect(useStore.getState().score).toBe(5000);
+    expect(useStore.getState().currency).toBe(0);
+
+    expect(useStore.getState().buyItem('EXCHANGE')).toBe(false);
+  });
+
+  it('keeps an item locked until its prerequisite is owned', () => {
+    // No shipped item has a prerequisite yet
+    const upgrade = { ...getItem('SHIELD')!, requires: 'DOUBLE_JUMP' };
+    expect(getBlockReason(upgrade, useStore.getState())).toBe('LOCKED');
+
+    useStore.getState().buyItem('DOUBLE_JUMP');
+    expect(getBlockReason(upgrade, useStore.getState())).toBeNull();
+  });
+
+  it('rejects unknown items', () => {
+    expect(useStore.getState().buyItem('NOPE')).toBe(false);
+  });
+});
+
+describe('startDaily', () => {
+  const day = '2026-03-01';
+
+  it('starts the day\'s fixed course with its modifiers', () => {
+    useStore.getState().startDaily(day);
+    const state = useStore.getState();
+    const modifiers = getDailyModifiers(getDailySeed(day));
+
+    expect(state.gameMode).toBe(GameMode.DAILY);
+    expect(state.targetLevels).toBe(DAILY_LEVELS);
+    expect(state.seed).toBe(getDailySeed(day));
+    expect(state.wordChoice).toEqual(modifiers.wordChoice);
+    expect(state.lives).toBe(modifiers.lives);
+    expect(state.currency).toBe(modifiers.currency);
+    expect(state.inventory).toEqual(getDailyInventory(modifiers));
+  });
+
+  it('counts attempts and keeps the day on retry', () => {
+    const before = daily.getResult(day)?.attempts ?? 0;
+    useStore.getState().startDaily(day);
+    useStore.getState().restartGame();
+
+    expect(useStore.getState().dailyDate).toBe(day);
+    expect(useStore.getState().seed).toBe(getDailySeed(day));
+    expect(daily.getResult(day)!.attempts).toBe(before + 2);
+  });
+
+  it('starts today\'s course when restarting out of a daily replay', () => {
+    useStore.getState().playReplay({
+      version: 1, timestep: FIXED_TIMESTEP, seed: getDailySeed(day), gameMode: GameMode.DAILY,
+      targetLevels: DAILY_LEVELS, recordedAt: '', inputs: [], shop: []
+    });
+    expect(useStore.getState().isReplay).toBe(true);
+    expect(useStore.getState().dailyDate).toBeNull();
+
+    const today = getDailyDate();
+    const attempts = daily.getResult(today)?.attempts ?? 0;
+    useStore.getState().restartGame();
+    const state = useStore.getState();
+
+    expect(state.isReplay).toBe(false);
+    expect(state.dailyDate).toBe(today);
+    expect(state.seed).toBe(getDailySeed(today));
+    expect(state.lives).toBe(getDailyModifiers(getDailySeed(today)).lives);
+    expect(daily.getResult(today)!.attempts).toBe(attempts + 1);
+  });
+
+  it('records the day\'s best at the end of the run', () => {
+    // A day of its own: the results above live in the shared controller
+    const bestDay = '2026-03-02';
+    useStore.getState().startDaily(bestDay);
+    useStore.setState({ score: 1234, lives: 0 });
+    useStore.getState().recordRun();
+    expect(daily.getResult(bestDay)!.best).toBe(1234);
+
+    useStore.getState().startDaily(bestDay);
+    useStore.setState({ score: 500, lives: 0 });
+    useStore.getState().recordRun();
+    expect(daily.getResult(bestDay)).toEqual({ best: 1234, attempts: 2, cleared: false });
+  });
+});
@@ -6,121 +6,199 @@
 */
 
 
+import { useEffect, useRef } from 'react';
 import { create } from 'zustand';
-import { GameStatus, RUN_SPEED_BASE, GameMode } from './types';
-
-interface GameState {
+import { useShallow } from 'zustand/react/shallow';
+import { GameStatus, RUN_SPEED_BASE, GameMode, ObjectType, AssistHint } from './types';
+import { random, generateSeed } from './components/System/Random';
+import { simulation } from './components/System/Simulation';
+import { audio } from './components/System/Audio';
+import { saveRun, loadRun, clearRun } from './components/System/SaveGame';
+import { replay, ReplayData } from './components/System/Replay';
+import { records, SubmitResult } from './components/System/Records';
+import { ChunkDefinition } from './components/System/Chunks';
+import { getLevelStartSpeed, LETTER_SPEEDUP, LEVEL_SPEEDUP } from './components/System/World';
+import { BossStatus, isBossLevel, getBossHealth } from './components/System/Boss';
+import { TargetWord, WordChoice, DEFAULT_WORD_CHOICE, getTargetWord } from './components/System/Words';
+import { daily, getDailyDate, getDailySeed, getDailyModifiers, getDailyInventory, DAILY_LEVELS } from './components/System/Daily';
+import { Inventory, getItem, getBlockReason, getItemPrice, getStack, hasItem, itemMultiplier, findItemWith, consumeItem, fullInventory, rollShopLineup, ItemId } from './components/System/Items';
+
+// What a hit did, so the world can react (e.g. the revive shockwave)
+export type DamageResult = 'IGNORED' | 'ABSORBED' | 'LOST_LIFE' | 'REVIVED' | 'FATAL';
+
+// The store is one zustand store made of the slices below. Components
+// subscribe through the typed hooks at the end of this file so they only
+// re-render for the fields they show.
+
+// Run setup, screens and flags the UI switches on
+export interface UiFlags {
   status: GameStatus;
   gameMode: GameMode;
   targetLevels: number; // The goal level count (Infinity for endless)
-  
+  wordChoice: WordChoice; // Word pack setting of the run
+  seed: number; // Spawn / shop RNG seed for this run
+  dailyDate: string | null; // Day of the daily challenge being played (DAILY mode only)
+  isReplay: boolean; // Run is driven by a recorded replay instead of live input
+  isPreview: boolean; // Chunk editor test run: editorChunk on repeat, nothing saved or ranked
+
+  // Chunk editor
+  editorChunk: ChunkDefinition | null; // Chunk being edited, kept while previewing
+  previewHits: number;
+
+  // Assist State
+  playerLane: number;
+  assistHint: AssistHint | null; // Alert shown in Assist mode
+}
+
+// Numbers of the run in progress
+export interface RunStats {
   score: number;
   currency: number; // Spendable money
   lives: number;
   maxLives: number;
   speed: number;
-  collectedLetters: number[]; 
+  targetWord: TargetWord; // Word of the current level
+  collectedLetters: number[]; // Indices into targetWord.letters
   level: number;
   laneCount: number;
   gemsCollected: number;
   distance: number;
-  
-  // Inventory / Abilities
-  hasDoubleJump: boolean;
-  hasImmortality: boolean;
+  lastHitBy: ObjectType | null; // Hazard that took the most recent life
+  runRecord: SubmitResult | null; // Leaderboard placement of the finished run
+  bossFight: BossStatus | null; // Set once the word of a boss level is complete
+  shopLineup: ItemId[]; // Offered by the open shop; rolled when the portal is entered
+}
+
+// Items owned (see components/System/Items.ts for what each item does)
+export interface InventoryState {
+  inventory: Inventory;
+}
+
+// Timed abilities and their cooldowns
+export interface AbilityState {
   isImmortalityActive: boolean;
-  lastImmortalTime: number; // Cooldown tracking for immortality
+  lastImmortalTime: number; // Cooldown tracking for immortality (simulation ms)
   isShopInvincible: boolean; // Invincibility after shop close
-  
-  // Existing Items
-  magnetLevel: number; // Changed from hasMagnet boolean to level (0-5)
-  shieldCount: number;
-  hasTimeWarp: boolean;
   isTimeWarpActive: boolean;
-
-  // New Items
-  hasGemBooster: boolean;
-  hasLuckCharm: boolean;
-  hasSonicBlast: boolean;
   lastSonicBlastTime: number;
-  
-  // Even Newer Items
-  hasDrone: boolean;
-  hasRevive: boolean; // "Ankh"
-  hasDiscount: boolean; // "VIP Card"
-
-  // Jump Assist State
-  playerLane: number;
-  showJumpAlert: boolean;
+}
 
-  // Actions
+export interface GameActions {
   selectMode: (mode: GameMode) => void;
-  startGame: (targetLevels: number) => void;
-  restartGame: () => void;
-  takeDamage: () => void;
+  setWordChoice: (choice: WordChoice) => void;
+  startGame: (targetLevels: number, seed?: number) => void;
+  startDaily: (day?: string) => void;
+  restartGame: (keepSeed?: boolean) => void;
+  playReplay: (data: ReplayData) => void;
+  continueRun: () => void;
+  pauseGame: () => void;
+  resumeGame: () => void;
+  quitToMenu: () => void;
+  takeDamage: (cause?: ObjectType) => DamageResult;
   addScore: (amount: number) => void;
   collectGem: (value: number, isHealing?: boolean) => void;
   collectLetter: (index: number) => void;
   setStatus: (status: GameStatus) => void;
   setDistance: (dist: number) => void;
+  recordRun: () => void;
+  setBossFight: (status: BossStatus) => void;
+  defeatBoss: () => void;
+  setEditorChunk: (chunk: ChunkDefinition) => void;
+  startPreview: (chunk: ChunkDefinition) => void;
+  stopPreview: () => void;
   
   // Shop / Abilities
-  buyItem: (type: string, cost: number) => boolean;
+  buyItem: (id: string) => boolean;
   spendCurrency: (amount: number) => boolean;
+  completeLevel: () => void;
   advanceLevel: () => void;
   openShop: () => void;
   closeShop: () => void;
+  refreshShop: () => boolean;
   activateImmortality: () => void;
   activateTimeWarp: () => void;
   triggerSonicBlast: () => boolean;
   
   // Assist Actions
   setPlayerLane: (lane: number) => void;
-  setShowJumpAlert: (show: boolean) => void;
+  setAssistHint: (hint: AssistHint | null) => void;
 }
 
-const GEMINI_TARGET = ['G', 'E', 'M', 'I', 'N', 'I'];
+export interface GameState extends UiFlags, RunStats, InventoryState, AbilityState, GameActions {}
+
+// Every run starts with the abilities off and off cooldown
+const NO_ABILITIES: AbilityState = {
+  isImmortalityActive: false,
+  lastImmortalTime: -Infinity,
+  isShopInvincible: false,
+  isTimeWarpActive: false,
+  lastSonicBlastTime: -Infinity
+};
+
+// Snapshot the run so it can be resumed after closing the tab
+const saveCheckpoint = (state: GameState, shopPortal: boolean) => {
+  if (state.isReplay || state.isPreview) return;
+  saveRun({
+    gameMode: state.gameMode,
+    targetLevels: state.targetLevels === Infinity ? null : state.targetLevels,
+    wordChoice: state.wordChoice,
+    dailyDate: state.dailyDate ?? undefined,
+    random: random.getState(),
+    level: state.level,
+    laneCount: state.laneCount,
+    speed: state.speed,
+    score: state.score,
+    currency: state.currency,
+    lives: state.lives,
+    maxLives: state.maxLives,
+    collectedLetters: state.collectedLetters,
+    gemsCollected: state.gemsCollected,
+    distance: state.distance,
+    inventory: state.inventory,
+    shopPortal,
+    savedAt: new Date().toISOString()
+  });
+};
 const SONIC_BLAST_COOLDOWN = 15000; // 15 seconds
 const IMMORTAL_COOLDOWN = 30000; // 30 seconds
 const IMMORTAL_DURATION = 3000; // 3.0 seconds
+const SHOP_REFRESH_COST = 100;
+const BOSS_BONUS = 1000; // Score per level for bringing down the mothership
 
 export const useStore = create<GameState>((set, get) => ({
   status: GameStatus.MENU,
   gameMode: GameMode.NORMAL,
   targetLevels: 5,
+  wordChoice: DEFAULT_WORD_CHOICE,
+  seed: 0,
+  dailyDate: null,
+  isReplay: false,
+  isPreview: false,
   score: 0,
   currency: 0,
   lives: 3,
   maxLives: 3,
   speed: 0,
+  targetWord: getTargetWord(DEFAULT_WORD_CHOICE, 1),
   collectedLetters: [],
   level: 1,
   laneCount: 3,
   gemsCollected: 0,
   distance: 0,
-  
-  hasDoubleJump: false,
-  hasImmortality: false,
-  isImmortalityActive: false,
-  lastImmortalTime: 0,
-  isShopInvincible: false,
-  
-  magnetLevel: 0,
-  shieldCount: 0,
-  hasTimeWarp: false,
-  isTimeWarpActive: false,
+  lastHitBy: null,
+  runRecord: null,
+  bossFight: null,
+  shopLineup: [],
 
-  hasGemBooster: false,
-  hasLuckCharm: false,
-  hasSonicBlast: false,
-  lastSonicBlastTime: 0,
+  editorChunk: null,
+  previewHits: 0,
   
-  hasDrone: false,
-  hasRevive: false,
-  hasDiscount: false,
+  inventory: {},
+
+  ...NO_ABILITIES,
 
   playerLane: 0,
-  showJumpAlert: false,
+  assistHint: null,
 
   selectMode: (mode: GameMode) => {
     set({
@@ -129,88 +207,185 @@ export const useStore = create<GameState>((set, get) => ({
     });
   },
 
-  startGame: (targetLevels: number) => {
-    const { gameMode } = get();
+  setWordChoice: (choice) => set({ wordChoice: choice }),
+
+  startGame: (targetLevels: number, seed?: number) => {
+    const { gameMode, dailyDate } = get();
     const isCheat = gameMode === GameMode.CHEAT;
+    const runSeed = seed ?? generateSeed();
+    random.reseed(runSeed);
+    // The daily challenge replaces the word pack, lives, gems and items with the day's
+    const modifiers = gameMode === GameMode.DAILY ? getDailyModifiers(runSeed) : null;
+    const wordChoice = modifiers?.wordChoice ?? get().wordChoice;
+    const lives = modifiers?.lives ?? 3;
+    const isReplay = replay.beginRun({ seed: runSeed, gameMode, targetLevels, wordChoice });
+    if (!isReplay) clearRun(); // A new run replaces any saved one
     
     set({ 
       status: GameStatus.PLAYING, 
       targetLevels: targetLevels,
+      wordChoice,
+      seed: runSeed,
+      dailyDate: modifiers ? dailyDate : null,
+      isReplay,
+      isPreview: false,
       score: 0, 
-      currency: isCheat ? 9999999 : 0,
-      lives: 3, 
-      maxLives: 3,
+      currency: isCheat ? 9999999 : modifiers?.currency ?? 0,
+      lives, 
+      maxLives: lives,
       speed: RUN_SPEED_BASE,
+      targetWord: getTargetWord(wordChoice, 1),
       collectedLetters: [],
       level: 1,
       laneCount: 3,
       gemsCollected: 0,
       distance: 0,
+      lastHitBy: null,
+      runRecord: null,
+      bossFight: null,
       
-      hasDoubleJump: isCheat, 
-      hasImmortality: isCheat, 
-      isImmortalityActive: false,
-      lastImmortalTime: 0,
-      isShopInvincible: false,
-      
-      magnetLevel: isCheat ? 5 : 0,
-      shieldCount: isCheat ? 3 : 0,
-      hasTimeWarp: isCheat,
-      isTimeWarpActive: false,
-
-      hasGemBooster: isCheat,
-      hasLuckCharm: isCheat,
-      hasSonicBlast: isCheat,
-      lastSonicBlastTime: 0,
-      
-      hasDrone: isCheat,
-      hasRevive: isCheat,
-      hasDiscount: isCheat,
+      inventory: isCheat ? fullInventory() : modifiers ? getDailyInventory(modifiers) : {},
+
+      ...NO_ABILITIES,
+
+      playerLane: 0,
+      assistHint: null
+    });
+
+    // Drops pending timers from the previous run and lets the world clear itself
+    simulation.reset();
+  },
+
+  // Always the fixed course length; a retry replays the same day
+  startDaily: (day = getDailyDate()) => {
+    replay.stop();
+    daily.startAttempt(day);
+    set({ gameMode: GameMode.DAILY, dailyDate: day });
+    get().startGame(DAILY_LEVELS, getDailySeed(day));
+  },
+
+  restartGame: (keepSeed = false) => {
+    const { targetLevels, seed, isPreview, editorChunk, gameMode, dailyDate } = get();
+    if (isPreview && editorChunk) {
+      get().startPreview(editorChunk);
+      return;
+    }
+    // A daily replay does not know its day, so starting over from one plays today's course
+    if (gameMode === GameMode.DAILY) {
+      get().startDaily(dailyDate ?? undefined);
+      return;
+    }
+    replay.stop();
+    get().startGame(targetLevels, keepSeed ? seed : undefined);
+  },
+
+  continueRun: () => {
+    const snapshot = loadRun();
+    if (!snapshot) return;
+
+    // A resumed run cannot be reproduced from its seed alone, so it is not recorded
+    replay.stop();
+    random.setState(snapshot.random);
+
+    const { random: _random, shopPortal, savedAt, ...runState } = snapshot;
+    const wordChoice = snapshot.wordChoice ?? DEFAULT_WORD_CHOICE;
+    set({
+      ...runState,
+      wordChoice,
+      targetWord: getTargetWord(wordChoice, snapshot.level),
+      status: GameStatus.PLAYING,
+      targetLevels: snapshot.targetLevels ?? Infinity,
+      seed: snapshot.random.seed,
+      dailyDate: snapshot.dailyDate ?? null,
+      isReplay: false,
+      isPreview: false,
+      lastHitBy: null,
+      runRecord: null,
+      bossFight: null,
+
+      ...NO_ABILITIES,
 
       playerLane: 0,
-      showJumpAlert: false
+      assistHint: null
     });
+
+    simulation.reset({ level: snapshot.level, distance: snapshot.distance, shopPortal });
+  },
+
+  playReplay: (data) => {
+    replay.queuePlayback(data);
+    set({ gameMode: data.gameMode, wordChoice: data.wordChoice ?? DEFAULT_WORD_CHOICE, dailyDate: null });
+    get().startGame(data.targetLevels ?? Infinity, data.seed);
+  },
+
+  // The simulation clock only advances while PLAYING, so pausing also freezes
+  // every ability timer and cooldown.
+  pauseGame: () => {
+    if (get().status === GameStatus.PLAYING) {
+        set({ status: GameStatus.PAUSED });
+    }
   },
 
-  restartGame: () => {
-    const { targetLevels } = get();
-    get().startGame(targetLevels);
+  resumeGame: () => {
+    if (get().status === GameStatus.PAUSED) {
+        set({ status: GameStatus.PLAYING });
+    }
   },
 
-  takeDamage: () => {
-    const { lives, maxLives, isImmortalityActive, gameMode, shieldCount, isShopInvincible, hasRevive, targetLevels } = get();
+  quitToMenu: () => {
+    replay.stop();
+    set({ status: GameStatus.MENU, isPreview: false, speed: 0, assistHint: null });
+  },
+
+  takeDamage: (cause) => {
+    const { lives, maxLives, isImmortalityActive, gameMode, inventory, isShopInvincible, targetLevels, isPreview, previewHits } = get();
     
-    if (gameMode === GameMode.CHEAT || isImmortalityActive || isShopInvincible) return; 
+    if (gameMode === GameMode.CHEAT || isImmortalityActive || isShopInvincible) return 'IGNORED'; 
+
+    // A preview counts hits instead of ending the run
+    if (isPreview) {
+        set({ previewHits: previewHits + 1, lastHitBy: cause ?? null });
+        return 'LOST_LIFE';
+    }
 
     // Use Shield
-    if (shieldCount > 0) {
-        set({ shieldCount: shieldCount - 1 });
-        return;
+    const shield = findItemWith(inventory, 'absorbsHit');
+    if (shield) {
+        set({ inventory: consumeItem(inventory, shield.id) });
+        audio.play('SHIELD');
+        return 'ABSORBED';
     }
 
+    const lastHitBy = cause ?? null;
+
     if (lives > 1) {
-      set({ lives: lives - 1 });
+      set({ lives: lives - 1, lastHitBy });
+      return 'LOST_LIFE';
     } else {
         // Revive Logic
-        if (hasRevive) {
+        const revive = findItemWith(inventory, 'revives');
+        if (revive) {
              set({ 
                  lives: maxLives, 
-                 hasRevive: false,
+                 lastHitBy,
+                 inventory: consumeItem(inventory, revive.id),
                  isImmortalityActive: true // Give temporary invincibility after revive
              });
-             // Trigger blast effect via window event
-             window.dispatchEvent(new CustomEvent('trigger-sonic-blast'));
-             setTimeout(() => {
+             audio.play('REVIVE');
+             // The world answers 'REVIVED' with a sonic blast
+             simulation.after(3000, () => {
                  set({ isImmortalityActive: false });
-             }, 3000);
+             });
+             return 'REVIVED';
         } else {
             // Check if Endless Mode
             if (targetLevels === Infinity) {
                 // In Endless Mode, death is a "Victory" (Run Complete)
-                set({ lives: 0, status: GameStatus.VICTORY, speed: 0 });
+                set({ lives: 0, lastHitBy, status: GameStatus.VICTORY, speed: 0 });
             } else {
-                set({ lives: 0, status: GameStatus.GAME_OVER, speed: 0 });
+                set({ lives: 0, lastHitBy, status: GameStatus.GAME_OVER, speed: 0 });
             }
+            return 'FATAL';
         }
     }
   },
@@ -218,12 +393,12 @@ export const useStore = create<GameState>((set, get) => ({
   addScore: (amount) => set((state) => ({ score: state.score + amount })),
   
   collectGem: (value, isHealing = false) => {
-      const { hasGemBooster, score, gemsCollected, currency, lives, maxLives, level } = get();
+      const { inventory, score, gemsCollected, currency, lives, maxLives, level } = get();
       
       // Scaling: Currency value increases by 20% per level
       // Level 1: 100%, Level 2: 120%, Level 6: 200%
       const levelMultiplier = 1 + (level - 1) * 0.2;
-      const boostMultiplier = hasGemBooster ? 2 : 1;
+      const boostMultiplier = itemMultiplier(inventory, 'gemMultiplier');
       
       const finalValue = Math.floor(value * levelMultiplier * boostMultiplier);
       
@@ -242,14 +417,86 @@ export const useStore = create<GameState>((set, get) => ({
 
   setDistance: (dist) => set({ distance: dist }),
 
+  // Called once the final distance is known (end of run)
+  recordRun: () => {
+      const { isReplay, score, distance, level, gemsCollected, gameMode, targetLevels, seed, lives, lastHitBy, dailyDate } = get();
+      if (isReplay) return; // A replay is not a new run
+
+      clearRun();
+
+      const runRecord = records.submit({
+          score,
+          distance,
+          level,
+          gemsCollected,
+          gameMode,
+          targetLevels: targetLevels === Infinity ? null : targetLevels,
+          seed,
+          cause: lives > 0 ? 'CLEARED' : lastHitBy,
+          endedAt: new Date().toISOString()
+      });
+      if (gameMode === GameMode.DAILY && dailyDate) daily.submit(dailyDate, score, lives > 0);
+      set({ runRecord });
+  },
+
+  setEditorChunk: (chunk) => set({ editorChunk: chunk }),
+
+  // The editor's test run: the chunk under edit on repeat in the real scene.
+  // It is not recorded, checkpointed or ranked, and hits never end it.
+  startPreview: (chunk) => {
+    const runSeed = generateSeed();
+    random.reseed(runSeed);
+    replay.stop();
+
+    set({
+      status: GameStatus.PLAYING,
+      gameMode: GameMode.NORMAL,
+      targetLevels: Infinity,
+      seed: runSeed,
+      dailyDate: null,
+      isReplay: false,
+      isPreview: true,
+      editorChunk: chunk,
+      previewHits: 0,
+      score: 0,
+      currency: 0,
+      lives: 3,
+      maxLives: 3,
+      speed: getLevelStartSpeed(chunk.minLevel),
+      targetWord: getTargetWord(get().wordChoice, chunk.minLevel),
+      collectedLetters: [],
+      level: chunk.minLevel,
+      laneCount: chunk.minLanes,
+      gemsCollected: 0,
+      distance: 0,
+      lastHitBy: null,
+      runRecord: null,
+      bossFight: null,
+
+      inventory: {},
+
+      ...NO_ABILITIES,
+
+      playerLane: 0,
+      assistHint: null
+    });
+
+    simulation.reset({ level: chunk.minLevel, distance: 0, shopPortal: false });
+  },
+
+  stopPreview: () => {
+    set({ status: GameStatus.EDITOR, isPreview: false, speed: 0, assistHint: null });
+  },
+
   collectLetter: (index) => {
-    const { collectedLetters, level, speed, targetLevels } = get();
+    const { collectedLetters, targetWord, level, speed, isPreview } = get();
     
-    if (!collectedLetters.includes(index)) {
+    // Letters in a preview are only there to be seen; finishing the word would change level
+    if (!collectedLetters.includes(index) && !isPreview) {
       const newLetters = [...collectedLetters, index];
       
       // More gradual speed increase (2.5% instead of 10%)
-      const speedIncrease = RUN_SPEED_BASE * 0.025;
+      const speedIncrease = RUN_SPEED_BASE * LETTER_SPEEDUP;
       const nextSpeed = speed + speedIncrease;
 
       set({ 
@@ -257,27 +504,46 @@ export const useStore = create<GameState>((set, get) => ({
         speed: nextSpeed
       });
 
-      if (newLetters.length === GEMINI_TARGET.length) {
-        const isEndless = targetLevels === Infinity;
-        
-        if (isEndless || level < targetLevels) {
-            get().advanceLevel();
+      if (newLetters.length === targetWord.letters.length) {
+        if (isBossLevel(level)) {
+            // The level only ends once the mothership is down; the world spawns it
+            const health = getBossHealth(level);
+            set({ bossFight: { health, maxHealth: health, phase: 'ENTER' } });
         } else {
-            set({
-                status: GameStatus.VICTORY,
-                score: get().score + 10000 // Bonus for finishing
-            });
+            get().completeLevel();
         }
       }
     }
   },
 
+  setBossFight: (status) => set({ bossFight: status }),
+
+  defeatBoss: () => {
+      if (!get().bossFight) return;
+      set({ bossFight: null, score: get().score + BOSS_BONUS * get().level });
+      get().completeLevel();
+  },
+
+  completeLevel: () => {
+      const { level, targetLevels } = get();
+      const isEndless = targetLevels === Infinity;
+
+      if (isEndless || level < targetLevels) {
+          get().advanceLevel();
+      } else {
+          set({
+              status: GameStatus.VICTORY,
+              score: get().score + 10000 // Bonus for finishing
+          });
+      }
+  },
+
   advanceLevel: () => {
-      const { level, laneCount, speed } = get();
+      const { level, laneCount, speed, wordChoice } = get();
       const nextLevel = level + 1;
       
       // Gentle speed bump on level up (10% instead of 40%)
-      const speedIncrease = RUN_SPEED_BASE * 0.10;
+      const speedIncrease = RUN_SPEED_BASE * LEVEL_SPEEDUP;
       const newSpeed = speed + speedIncrease;
 
       set({
@@ -285,18 +551,33 @@ export const useStore = create<GameState>((set, get) => ({
           laneCount: Math.min(laneCount + 2, 9), 
           status: GameStatus.PLAYING, 
           speed: newSpeed,
+          targetWord: getTargetWord(wordChoice, nextLevel),
           collectedLetters: [] 
       });
+      audio.play('LEVEL_UP');
+
+      // Checkpoint: start of the new level, shop portal still ahead
+      saveCheckpoint(get(), true);
   },
 
-  openShop: () => set({ status: GameStatus.SHOP, isShopInvincible: true }),
+  // Rolled here, on the simulation tick, so the shop stream advances the same
+  // way whatever the UI does (a dev build mounts effects twice)
+  openShop: () => set({ status: GameStatus.SHOP, isShopInvincible: true, shopLineup: rollShopLineup(get(), random.shop) }),
   
   closeShop: () => {
       set({ status: GameStatus.PLAYING, isShopInvincible: true });
+      // Checkpoint: purchases made, portal already passed
+      saveCheckpoint(get(), false);
       // 3 seconds of invincibility after leaving shop
-      setTimeout(() => {
+      simulation.after(3000, () => {
           set({ isShopInvincible: false });
-      }, 3000);
+      });
+  },
+
+  refreshShop: () => {
+      if (!get().spendCurrency(SHOP_REFRESH_COST)) return false;
+      set({ shopLineup: rollShopLineup(get(), random.shop) });
+      return true;
   },
 
   spendCurrency: (amount: number) => {
@@ -308,125 +589,59 @@ export const useStore = create<GameState>((set, get) => ({
       return false;
   },
 
-  buyItem: (type, cost) => {
-      const { 
-          currency, maxLives, lives, shieldCount, magnetLevel, score,
-          hasDoubleJump, hasImmortality, hasTimeWarp, hasGemBooster, 
-          hasLuckCharm, hasSonicBlast, hasDrone, hasRevive, hasDiscount 
-      } = get();
+  buyItem: (id) => {
+      const state = get();
+      const item = getItem(id);
+      if (!item || getBlockReason(item, state) !== null) return false;
 
-      // --- Purchase Blocking Logic ---
-      
-      // 1. Score Exchange (Special Case)
-      if (type === 'EXCHANGE') {
-          if (currency > 0) {
-              set({ 
-                  score: score + (currency * 100), 
-                  currency: 0 
-              });
-              return true;
-          }
-          return false;
-      }
+      const price = getItemPrice(item, state);
+      if (state.currency < price) return false;
 
-      // 2. Already Owned / Maxed Out blocking
-      if (type === 'HEAL' && lives >= maxLives) return false;
-      if (type === 'MAX_LIFE' && maxLives >= 10) return false;
-      if (type === 'SHIELD' && shieldCount >= 3) return false;
-      if (type === 'MAGNET' && magnetLevel >= 5) return false;
-      
-      if (type === 'DOUBLE_JUMP' && hasDoubleJump) return false;
-      if (type === 'IMMORTAL' && hasImmortality) return false;
-      if (type === 'TIME_WARP' && hasTimeWarp) return false;
-      if (type === 'GEM_BOOSTER' && hasGemBooster) return false;
-      if (type === 'LUCK_CHARM' && hasLuckCharm) return false;
-      if (type === 'SONIC_BLAST' && hasSonicBlast) return false;
-      if (type === 'DRONE' && hasDrone) return false;
-      if (type === 'REVIVE' && hasRevive) return false;
-      if (type === 'DISCOUNT' && hasDiscount) return false;
-
-      // 3. Regular Purchase Logic
-      if (currency >= cost) {
-          set({ currency: currency - cost });
-          
-          switch (type) {
-              case 'DOUBLE_JUMP':
-                  set({ hasDoubleJump: true });
-                  break;
-              case 'MAX_LIFE':
-                  if (maxLives < 10) {
-                      set({ maxLives: maxLives + 1, lives: lives + 1 });
-                  }
-                  break;
-              case 'HEAL':
-                  set({ lives: Math.min(lives + 1, maxLives) });
-                  break;
-              case 'IMMORTAL':
-                  set({ hasImmortality: true, lastImmortalTime: 0 }); // Reset cooldown on purchase
-                  break;
-              case 'MAGNET':
-                  set({ magnetLevel: Math.min(magnetLevel + 1, 5) });
-                  break;
-              case 'SHIELD':
-                  set({ shieldCount: Math.min(shieldCount + 1, 3) });
-                  break;
-              case 'TIME_WARP':
-                  set({ hasTimeWarp: true });
-                  break;
-              case 'GEM_BOOSTER':
-                  set({ hasGemBooster: true });
-                  break;
-              case 'LUCK_CHARM':
-                  set({ hasLuckCharm: true });
-                  break;
-              case 'SONIC_BLAST':
-                  set({ hasSonicBlast: true, lastSonicBlastTime: 0 }); 
-                  break;
-              case 'DRONE':
-                  set({ hasDrone: true });
-                  break;
-              case 'REVIVE':
-                  set({ hasRevive: true });
-                  break;
-              case 'DISCOUNT':
-                  set({ hasDiscount: true });
-                  break;
-          }
-          return true;
-      }
-      return false;
+      const inventory = item.maxStack
+          ? { ...state.inventory, [item.id]: getStack(state.inventory, item.id) + 1 }
+          : state.inventory;
+
+      // Effects see the state from before the purchase
+      set({
+          currency: state.currency - price,
+          inventory,
+          ...item.onPurchase?.(state)
+      });
+      audio.play('PURCHASE');
+      return true;
   },
 
   activateImmortality: () => {
-      const { hasImmortality, isImmortalityActive, lastImmortalTime } = get();
-      const now = Date.now();
+      const { inventory, isImmortalityActive, lastImmortalTime } = get();
+      const now = simulation.now();
       
       // Cooldown check
-      if (hasImmortality && !isImmortalityActive && (now - lastImmortalTime > IMMORTAL_COOLDOWN)) {
+      if (hasItem(inventory, 'IMMORTAL') && !isImmortalityActive && (now - lastImmortalTime > IMMORTAL_COOLDOWN)) {
           set({ 
               isImmortalityActive: true,
               lastImmortalTime: now
           });
-          setTimeout(() => {
+          audio.play('IMMORTAL');
+          simulation.after(IMMORTAL_DURATION, () => {
               set({ isImmortalityActive: false });
-          }, IMMORTAL_DURATION);
+          });
       }
   },
 
   activateTimeWarp: () => {
-      const { hasTimeWarp, isTimeWarpActive } = get();
-      if (hasTimeWarp && !isTimeWarpActive) {
+      const { inventory, isTimeWarpActive } = get();
+      if (hasItem(inventory, 'TIME_WARP') && !isTimeWarpActive) {
           set({ isTimeWarpActive: true });
-          setTimeout(() => {
+          simulation.after(5000, () => {
               set({ isTimeWarpActive: false });
-          }, 5000);
+          });
       }
   },
 
   triggerSonicBlast: () => {
-      const { hasSonicBlast, lastSonicBlastTime } = get();
-      const now = Date.now();
-      if (hasSonicBlast && now - lastSonicBlastTime > SONIC_BLAST_COOLDOWN) {
+      const { inventory, lastSonicBlastTime } = get();
+      const now = simulation.now();
+      if (hasItem(inventory, 'SONIC_BLAST') && now - lastSonicBlastTime > SONIC_BLAST_COOLDOWN) {
           set({ lastSonicBlastTime: now });
           // Event dispatch is handled in component, or we can just return true here
           return true;
@@ -438,9 +653,37 @@ export const useStore = create<GameState>((set, get) => ({
   
   setPlayerLane: (lane) => set({ playerLane: lane }),
   
-  setShowJumpAlert: (show) => {
-      if (get().showJumpAlert !== show) {
-          set({ showJumpAlert: show });
+  setAssistHint: (hint) => {
+      if (get().assistHint !== hint) {
+          set({ assistHint: hint });
       }
   }
-}));
\ No newline at end of file
+}));
+
+// --- Subscriptions ---
+// One hook per slice. The selector picks what a component renders; it only
+// re-renders when that value changes.
+export const useUiFlags = <T>(selector: (flags: UiFlags) => T) => useStore(selector);
+export const useRunStats = <T>(selector: (stats: RunStats) => T) => useStore(selector);
+export const useInventory = <T>(selector: (state: InventoryState) => T) => useStore(selector);
+export const useAbilities = <T>(selector: (abilities: AbilityState) => T) => useStore(selector);
+
+const pick = <K extends keyof GameState>(state: GameState, keys: K[]) => {
+  const picked = {} as Pick<GameState, K>;
+  keys.forEach(key => { picked[key] = state[key]; });
+  return picked;
+};
+
+// Several fields (or actions, which never change) at once, compared one by one
+export const useStorePick = <K extends keyof GameState>(...keys: K[]): Pick<GameState, K> =>
+  useStore(useShallow((state: GameState) => pick(state, keys)));
+
+// For per-frame readers (useFrame): the latest value in a ref, without re-rendering
+export const useTransient = <T>(selector: (state: GameState) => T) => {
+  const ref = useRef(selector(useStore.getState()));
+  useEffect(() => {
+    ref.current = selector(useStore.getState());
+    return useStore.subscribe(state => { ref.current = selector(state); });
+  }, []);
+  return ref;
+};
@@ -6,7 +6,12 @@
 export enum GameStatus {
   MENU = 'MENU',
   LEVEL_SELECT = 'LEVEL_SELECT',
+  RECORDS = 'RECORDS',
+  DAILY = 'DAILY', // Daily challenge screen
+  SETTINGS = 'SETTINGS',
+  EDITOR = 'EDITOR',
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
   SHOP = 'SHOP',
   GAME_OVER = 'GAME_OVER',
   VICTORY = 'VICTORY'
@@ -15,7 +20,8 @@ export enum GameStatus {
 export enum GameMode {
   NORMAL = 'NORMAL',
   ASSIST = 'ASSIST',
-  CHEAT = 'CHEAT'
+  CHEAT = 'CHEAT',
+  DAILY = 'DAILY' // Date-seeded course with the day's modifiers, fixed length
 }
 
 export enum ObjectType {
@@ -24,9 +30,27 @@ export enum ObjectType {
   LETTER = 'LETTER',
   SHOP_PORTAL = 'SHOP_PORTAL',
   ALIEN = 'ALIEN',
-  MISSILE = 'MISSILE'
+  MISSILE = 'MISSILE',
+  BARRIER = 'BARRIER', // Overhead bar, only passable by sliding
+  LASER_GATE = 'LASER_GATE', // Low beam sweeping from side to side
+  BOSS = 'BOSS' // Not a track object; the cause of beam hits
 }
 
+// Abstract player actions. Keyboard / touch / HUD buttons all funnel into these,
+// which is what the replay recorder stores.
+export enum InputAction {
+  LANE_LEFT = 'LANE_LEFT',
+  LANE_RIGHT = 'LANE_RIGHT',
+  JUMP = 'JUMP',
+  SLIDE = 'SLIDE',
+  IMMORTALITY = 'IMMORTALITY',
+  TIME_WARP = 'TIME_WARP',
+  SONIC_BLAST = 'SONIC_BLAST'
+}
+
+// What the Assist mode alert tells the player to do about the hazard ahead
+export type AssistHint = 'JUMP' | 'SLIDE';
+
 export interface GameObject {
   id: string;
   type: ObjectType;
@@ -34,9 +58,13 @@ export interface GameObject {
   active: boolean;
   value?: string; // For letters (G, E, M...)
   color?: string;
-  targetIndex?: number; // Index in the GEMINI target word
+  targetIndex?: number; // Index in the level's target word
   points?: number; // Score value for gems
   hasFired?: boolean; // For Aliens
+  isCharge?: boolean; // Gem that damages an exposed boss instead of paying out
+  targetX?: number; // Drifting obstacles: x they slide over to once close enough
+  strafes?: boolean; // Aliens that follow the player's lane until they fire
+  sweepDirection?: number; // Laser gates: +1 / -1, current direction across the track
 }
 
 export const LANE_WIDTH = 2.2;
@@ -45,16 +73,17 @@ export const JUMP_DURATION = 0.6; // seconds
 export const RUN_SPEED_BASE = 22.5;
 export const SPAWN_DISTANCE = 120;
 export const REMOVE_DISTANCE = 20; // Behind player
+export const FIXED_TIMESTEP = 1 / 60; // seconds per simulation tick
+
+export type GemRarity = 'COMMON' | 'UNCOMMON' | 'RARE' | 'HEALING';
 
-// Google-ish Neon Colors: Blue, Red, Yellow, Blue, Green, Red
-export const GEMINI_COLORS = [
-    '#2979ff', // G - Blue
-    '#ff1744', // E - Red
-    '#ffea00', // M - Yellow
-    '#2979ff', // I - Blue
-    '#00e676', // N - Green
-    '#ff1744', // I - Red
-];
+// Color and base value per gem tier. HEALING gems also restore a life.
+export const GEM_RARITIES: Record<GemRarity, { color: string; points: number }> = {
+    COMMON: { color: '#00ffff', points: 10 },
+    UNCOMMON: { color: '#ffd700', points: 50 },
+    RARE: { color: '#9900ff', points: 150 },
+    HEALING: { color: '#00ff00', points: 50 },
+};
 
 export interface ShopItem {
     id: string;
@@ -62,7 +91,8 @@ export interface ShopItem {
     description: string;
     cost: number;
     icon: any; // Lucide icon component
-    oneTime?: boolean; // If true, remove from pool after buying
+    maxStack?: number; // How many can be owned at once (1 = one-time purchase)
+    requires?: string; // Item that must be owned before this one is offered
 }
 
 declare global {